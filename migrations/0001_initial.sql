@@ -0,0 +1,22 @@
+-- Base tables as they existed before schema versioning.
+-- Databases created by hand already have these, so everything here is idempotent.
+CREATE TABLE IF NOT EXISTS messages (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id INTEGER NOT NULL,
+  message TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bank_name TEXT NOT NULL,
+  account_number TEXT NOT NULL,
+  withdrawal_amount INTEGER,
+  transaction_method TEXT,
+  balance INTEGER NOT NULL,
+  date TEXT NOT NULL,
+  time TEXT NOT NULL,
+  location TEXT,
+  tag TEXT,
+  timestamp INTEGER NOT NULL
+);
@@ -0,0 +1,15 @@
+-- Columns added after the first deployments. Older databases may already have
+-- some of them; the runner skips "duplicate column" failures for ADD COLUMN.
+ALTER TABLE transactions ADD COLUMN chat_id INTEGER;
+ALTER TABLE transactions ADD COLUMN transaction_type TEXT;
+ALTER TABLE transactions ADD COLUMN deposit_amount INTEGER;
+ALTER TABLE transactions ADD COLUMN branch_code TEXT;
+
+-- Rows saved before transaction_type existed only carry one amount
+UPDATE transactions SET transaction_type = 'withdrawal'
+  WHERE transaction_type IS NULL AND withdrawal_amount IS NOT NULL AND deposit_amount IS NULL;
+UPDATE transactions SET transaction_type = 'deposit'
+  WHERE transaction_type IS NULL AND deposit_amount IS NOT NULL AND withdrawal_amount IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_date ON transactions (chat_id, date, time);
+CREATE INDEX IF NOT EXISTS idx_transactions_account ON transactions (account_number, date, time);
@@ -0,0 +1,3 @@
+-- Format 1 messages could be stored as YYYY-MM-DD; report date filters compare
+-- YYYY/MM/DD strings, so every row must use the same separator.
+UPDATE transactions SET date = REPLACE(date, '-', '/') WHERE date LIKE '%-%';
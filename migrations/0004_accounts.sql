@@ -0,0 +1,8 @@
+-- User-assigned nicknames for the accounts seen in a chat
+CREATE TABLE IF NOT EXISTS accounts (
+  chat_id INTEGER NOT NULL,
+  account_number TEXT NOT NULL,
+  nickname TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (chat_id, account_number)
+);
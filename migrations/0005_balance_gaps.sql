@@ -0,0 +1,3 @@
+-- Difference between the stored balance and the one implied by the previous
+-- transaction on the same account; NULL when the two agree.
+ALTER TABLE transactions ADD COLUMN balance_gap INTEGER;
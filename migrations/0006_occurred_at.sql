@@ -0,0 +1,6 @@
+-- Gregorian instant of each transaction (ms since epoch, Asia/Tehran wall clock).
+-- Existing rows are filled in by the backfill step registered with this migration.
+ALTER TABLE transactions ADD COLUMN occurred_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_chat_occurred ON transactions (chat_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_account_occurred ON transactions (account_number, occurred_at);
@@ -0,0 +1,13 @@
+-- Append-only history of every change made to a transaction row
+CREATE TABLE IF NOT EXISTS transaction_audit (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  transaction_id INTEGER NOT NULL,
+  chat_id INTEGER NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  before_json TEXT,
+  after_json TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_transaction_audit_transaction ON transaction_audit (transaction_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_audit_chat ON transaction_audit (chat_id, created_at);
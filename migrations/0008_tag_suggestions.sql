@@ -0,0 +1,18 @@
+-- Where a transaction's tag came from: 'user' (typed or confirmed), 'rule' or 'suggested' (history),
+-- with the suggestion engine's confidence for the last two.
+ALTER TABLE transactions ADD COLUMN tag_source TEXT;
+ALTER TABLE transactions ADD COLUMN tag_confidence REAL;
+
+UPDATE transactions SET tag_source = 'user' WHERE tag_source IS NULL AND tag IS NOT NULL AND tag != '';
+
+-- Explicit "<field> contains <pattern> -> tag" rules defined by the user
+CREATE TABLE IF NOT EXISTS tag_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id INTEGER NOT NULL,
+  field TEXT NOT NULL CHECK (field IN ('location', 'method')),
+  pattern TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tag_rules_chat ON tag_rules (chat_id);
@@ -0,0 +1,19 @@
+-- Monthly spending limits per tag, in rials
+CREATE TABLE IF NOT EXISTS budgets (
+  chat_id INTEGER NOT NULL,
+  tag TEXT NOT NULL,
+  monthly_limit INTEGER NOT NULL CHECK (monthly_limit > 0),
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (chat_id, tag)
+);
+
+-- One row per threshold crossed in a Jalali month (YYYY/MM), so each alert is sent once
+CREATE TABLE IF NOT EXISTS budget_alerts (
+  chat_id INTEGER NOT NULL,
+  tag TEXT NOT NULL,
+  period TEXT NOT NULL,
+  threshold INTEGER NOT NULL,
+  sent_at INTEGER NOT NULL,
+  PRIMARY KEY (chat_id, tag, period, threshold)
+);
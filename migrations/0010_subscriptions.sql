@@ -0,0 +1,9 @@
+-- Scheduled summaries a chat asked for; last_period is the key of the last period sent
+CREATE TABLE IF NOT EXISTS subscriptions (
+  chat_id INTEGER NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  send_time TEXT NOT NULL,
+  last_period TEXT,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (chat_id, frequency)
+);
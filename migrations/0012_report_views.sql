@@ -0,0 +1,11 @@
+-- Filters behind an interactive report message; its buttons carry only the view id and page,
+-- since Telegram limits callback_data to 64 bytes
+CREATE TABLE IF NOT EXISTS report_views (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id INTEGER NOT NULL,
+  filters TEXT NOT NULL,
+  title TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_views_created ON report_views (created_at);
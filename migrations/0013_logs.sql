@@ -0,0 +1,13 @@
+-- Operational log: warnings, errors and request summaries, kept out of the users' chats
+CREATE TABLE IF NOT EXISTS logs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  timestamp INTEGER NOT NULL,
+  level TEXT NOT NULL CHECK (level IN ('debug', 'info', 'warn', 'error')),
+  request_id TEXT NOT NULL,
+  chat_id INTEGER,
+  message TEXT NOT NULL,
+  context TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs (timestamp);
+CREATE INDEX IF NOT EXISTS idx_logs_request ON logs (request_id);
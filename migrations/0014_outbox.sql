@@ -0,0 +1,20 @@
+-- Outbound Telegram messages, one row per chunk, delivered in id order per chat by drainOutbox
+CREATE TABLE IF NOT EXISTS outbox (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  -- Sent instead of text when Telegram cannot parse the formatted version
+  fallback_text TEXT,
+  parse_mode TEXT,
+  reply_markup TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER NOT NULL,
+  claimed_at INTEGER,
+  last_error TEXT,
+  created_at INTEGER NOT NULL,
+  sent_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_status ON outbox (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_outbox_chat ON outbox (chat_id, status);
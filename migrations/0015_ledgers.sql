@@ -0,0 +1,43 @@
+-- Shared ledgers. A ledger's rows keep the chat_id of the chat it was created in (home_chat_id);
+-- chats linked to it read and write that chat_id instead of their own.
+CREATE TABLE IF NOT EXISTS ledgers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  home_chat_id INTEGER NOT NULL UNIQUE,
+  created_by INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ledger_members (
+  ledger_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  name TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'member', 'viewer')),
+  joined_at INTEGER NOT NULL,
+  PRIMARY KEY (ledger_id, user_id)
+);
+
+-- Chats without a row here use their own chat_id
+CREATE TABLE IF NOT EXISTS ledger_chats (
+  chat_id INTEGER PRIMARY KEY,
+  ledger_id INTEGER NOT NULL,
+  linked_by INTEGER NOT NULL,
+  linked_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_chats_ledger ON ledger_chats (ledger_id);
+
+-- Single-use invite codes
+CREATE TABLE IF NOT EXISTS ledger_invites (
+  code TEXT PRIMARY KEY,
+  ledger_id INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('member', 'viewer')),
+  created_by INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  expires_at INTEGER NOT NULL,
+  used_by INTEGER,
+  used_at INTEGER
+);
+
+-- Telegram user id of whoever sent the SMS or file; NULL for rows saved before ledgers and through the API
+ALTER TABLE transactions ADD COLUMN submitted_by INTEGER;
@@ -0,0 +1,5 @@
+-- Id of the matching leg when a row is one side of a transfer between the chat's own accounts.
+-- Both legs point at each other; such rows are left out of spending and income totals.
+ALTER TABLE transactions ADD COLUMN transfer_id INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transfer ON transactions (chat_id, transfer_id, occurred_at);
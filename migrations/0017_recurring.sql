@@ -0,0 +1,10 @@
+-- One row per alert about a recurring transaction, so each is sent once. series_key identifies the series
+-- (account, direction and location, tag or amount) and expected_date the Jalali date it was due on.
+CREATE TABLE IF NOT EXISTS recurring_alerts (
+  chat_id INTEGER NOT NULL,
+  series_key TEXT NOT NULL,
+  expected_date TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('missing', 'changed')),
+  sent_at INTEGER NOT NULL,
+  PRIMARY KEY (chat_id, series_key, expected_date, kind)
+);
@@ -0,0 +1,6 @@
+-- Telegram user who created each API token, so a shared ledger's members only manage their own tokens and
+-- lose them when they leave or become read-only. Tokens made before this belonged to private chats, whose
+-- chat id is the user's id.
+ALTER TABLE api_tokens ADD COLUMN created_by INTEGER;
+
+UPDATE api_tokens SET created_by = chat_id WHERE created_by IS NULL AND chat_id > 0;
@@ -0,0 +1,8 @@
+-- Pairs a user unlinked with /transfer unlink, so detection does not pair them again
+CREATE TABLE IF NOT EXISTS transfer_dismissals (
+  chat_id INTEGER NOT NULL,
+  withdrawal_id INTEGER NOT NULL,
+  deposit_id INTEGER NOT NULL,
+  dismissed_at INTEGER NOT NULL,
+  PRIMARY KEY (chat_id, withdrawal_id, deposit_id)
+);
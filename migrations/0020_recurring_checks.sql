@@ -0,0 +1,6 @@
+-- The Jalali day each chat was last checked for overdue recurring transactions, claimed before checking so
+-- a day is checked once even though the cron runs every minute from 09:00 on
+CREATE TABLE IF NOT EXISTS recurring_checks (
+  chat_id INTEGER PRIMARY KEY,
+  last_day TEXT NOT NULL
+);
@@ -0,0 +1,86 @@
+export interface AccountSummary {
+  account_number: string;
+  bank_name: string;
+  nickname: string | null;
+  transaction_count: number;
+  balance: number | null;
+  last_date: string | null;
+  last_time: string | null;
+}
+
+// Balance, date and time come from the account's latest transaction by occurred_at, the order accounts are listed in
+export async function listAccounts(db: D1Database, chatId: number): Promise<AccountSummary[]> {
+  const result = await db.prepare(`
+    SELECT s.account_number, s.bank_name, s.nickname, s.transaction_count,
+      l.balance, l.date as last_date, l.time as last_time
+    FROM (
+      SELECT
+        t.account_number,
+        MAX(t.bank_name) as bank_name,
+        a.nickname,
+        COUNT(*) as transaction_count,
+        MAX(t.occurred_at) as last_occurred_at,
+        (SELECT id FROM transactions l
+          WHERE l.chat_id = t.chat_id AND l.account_number = t.account_number
+          ORDER BY l.occurred_at DESC, l.id DESC LIMIT 1) as last_id
+      FROM transactions t
+      LEFT JOIN accounts a ON a.chat_id = t.chat_id AND a.account_number = t.account_number
+      WHERE t.chat_id = ?
+      GROUP BY t.account_number
+    ) s
+    JOIN transactions l ON l.id = s.last_id
+    ORDER BY s.last_occurred_at DESC
+  `).bind(chatId).all<AccountSummary>();
+  return result.results;
+}
+
+export async function getAccountNicknames(db: D1Database, chatId: number): Promise<Record<string, string>> {
+  const result = await db.prepare(`SELECT account_number, nickname FROM accounts WHERE chat_id = ?`)
+    .bind(chatId)
+    .all<{ account_number: string; nickname: string }>();
+
+  const nicknames: Record<string, string> = {};
+  for (const row of result.results) {
+    nicknames[row.account_number] = row.nickname;
+  }
+  return nicknames;
+}
+
+export async function setAccountNickname(db: D1Database, chatId: number, accountNumber: string, nickname: string): Promise<void> {
+  await db.prepare(`
+    INSERT INTO accounts (chat_id, account_number, nickname, created_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT (chat_id, account_number) DO UPDATE SET nickname = excluded.nickname
+  `).bind(chatId, accountNumber, nickname, Date.now()).run();
+}
+
+export async function removeAccountNickname(db: D1Database, chatId: number, accountNumber: string): Promise<boolean> {
+  const result = await db.prepare(`DELETE FROM accounts WHERE chat_id = ? AND account_number = ?`)
+    .bind(chatId, accountNumber)
+    .run();
+  return result.meta.changes > 0;
+}
+
+export function formatAccountLabel(accountNumber: string, nickname?: string | null): string {
+  return nickname ? `${nickname} (${accountNumber})` : accountNumber;
+}
+
+export function formatAccounts(accounts: AccountSummary[]): string {
+  if (accounts.length === 0) {
+    return `⚠️ هنوز هیچ حسابی ثبت نشده است.`;
+  }
+
+  let message = `🏦 حساب‌های شناخته‌شده:\n`;
+  message += `═══════════════════════\n`;
+  for (const account of accounts) {
+    message += `\n💳 ${formatAccountLabel(account.account_number, account.nickname)}\n`;
+    message += `🏛 بانک: ${account.bank_name !== 'Unknown' ? account.bank_name : 'نامشخص'}\n`;
+    message += `🔢 تعداد تراکنش‌ها: ${account.transaction_count.toLocaleString('fa-IR')}\n`;
+    if (account.balance != null) {
+      message += `💰 آخرین مانده: ${account.balance.toLocaleString('fa-IR')} ریال (${account.last_date} ${account.last_time})\n`;
+    }
+  }
+  message += `\nبرای نام‌گذاری: accounts set <شماره حساب> <نام>\n`;
+  message += `برای حذف نام: accounts unset <شماره حساب>\n`;
+  return message;
+}
@@ -0,0 +1,199 @@
+import { error, IRequest, json, Router, StatusError } from 'itty-router';
+import { authenticateApiRequest, isAllowed, parseAllowlist } from './auth';
+import { FilterError, parseCommandParams, ReportFilters } from './filters';
+import { normalizeDigits, ParseError, parseTransaction, TransactionData } from './parser';
+import { buildTransaction, parseAmount, parseDateTime } from './parsers/common';
+import { jalaliDateTimeToEpoch } from './jalali';
+import { reconcileAccount } from './reconcile';
+import { buildTransactionReport } from './report';
+import {
+  checkForDuplicateTransaction,
+  countTransactions,
+  createTransaction,
+  deleteTransaction,
+  getTransaction,
+  queryTransactions,
+} from './transactions';
+import { detectTransfers } from './transfers';
+
+// The subset of the worker's Env the API needs
+export interface ApiEnv {
+  DB: D1Database;
+  ALLOWED_IDS?: string;
+}
+
+type ApiRequest = IRequest & { chatId: number };
+
+// Fields accepted by POST /api/transactions as an alternative to raw SMS text
+export interface StructuredTransaction {
+  account_number: string;
+  transaction_type: 'withdrawal' | 'deposit';
+  amount: number | string;
+  balance: number | string;
+  date: string;
+  time: string;
+  bank_name?: string;
+  transaction_method?: string;
+  branch_code?: string | null;
+  location?: string;
+  tag?: string;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Every route needs a token created with /apitoken; it scopes the request to that token's chat
+async function withApiToken(request: ApiRequest, env: ApiEnv): Promise<Response | undefined> {
+  const chatId = await authenticateApiRequest(env.DB, request);
+  if (chatId === null || !isAllowed(parseAllowlist(env.ALLOWED_IDS), chatId)) {
+    return error(401, 'Invalid or missing API token');
+  }
+  request.chatId = chatId;
+  return undefined;
+}
+
+const router = Router<ApiRequest, [ApiEnv]>({
+  base: '/api',
+  before: [withApiToken],
+  catch: error,
+  finally: [json],
+});
+
+router
+  .get('/transactions', async (request, env) => {
+    const query = new URL(request.url).searchParams;
+    const filters = filtersFromQuery(query);
+    const limit = pageNumber(query.get('limit'), DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE);
+    const offset = pageNumber(query.get('offset'), 0, 0, Number.MAX_SAFE_INTEGER);
+
+    const [transactions, total] = await Promise.all([
+      queryTransactions(env.DB, request.chatId, filters, { limit, offset }),
+      countTransactions(env.DB, request.chatId, filters),
+    ]);
+    return { transactions, total, limit, offset };
+  })
+  .get('/transactions/:id', async (request, env) => {
+    const transaction = await getTransaction(env.DB, request.chatId, transactionId(request.params.id));
+    if (!transaction) {
+      throw new StatusError(404, 'Transaction not found');
+    }
+    return { transaction };
+  })
+  .post('/transactions', async (request, env) => {
+    const body = await request.json().catch(() => null) as { text?: unknown; transaction?: unknown } | null;
+    const { data, parser } = readTransactionBody(body);
+
+    if (await checkForDuplicateTransaction(env.DB, request.chatId, data)) {
+      throw new StatusError(409, 'Duplicate transaction');
+    }
+    const id = await createTransaction(env.DB, request.chatId, data);
+    await reconcileAccount(env.DB, request.chatId, data.account_number);
+    await detectTransfers(env.DB, request.chatId, data.occurred_at);
+    return json({ transaction: await getTransaction(env.DB, request.chatId, id), parser }, { status: 201 });
+  })
+  .delete('/transactions/:id', async (request, env) => {
+    const deleted = await deleteTransaction(env.DB, request.chatId, transactionId(request.params.id));
+    if (!deleted) {
+      throw new StatusError(404, 'Transaction not found');
+    }
+    await reconcileAccount(env.DB, request.chatId, deleted.account_number);
+    return { deleted };
+  })
+  .get('/report', async (request, env) => {
+    return buildTransactionReport(env.DB, request.chatId, filtersFromQuery(new URL(request.url).searchParams));
+  })
+  .all('*', () => error(404, 'Not found'));
+
+export function handleApiRequest(request: Request, env: ApiEnv): Promise<Response> {
+  return router.fetch(request as ApiRequest, env);
+}
+
+// Same filters as the "show all" command: tag, location, account, from, to, month, last, today, this-month
+export function filtersFromQuery(query: URLSearchParams): ReportFilters {
+  const dateParams = ['from', 'to', 'month', 'last']
+    .filter(key => query.get(key))
+    .map(key => `${key}=${query.get(key)!.trim()}`);
+  for (const flag of ['today', 'this-month']) {
+    if (query.has(flag)) {
+      dateParams.push(flag);
+    }
+  }
+
+  let filters: ReportFilters;
+  try {
+    filters = parseCommandParams(dateParams.join(' '));
+  } catch (err) {
+    throw err instanceof FilterError ? new StatusError(400, err.message) : err;
+  }
+
+  // Values may contain spaces, so they bypass the whitespace-separated command parser
+  for (const key of ['tag', 'location', 'account'] as const) {
+    const value = query.get(key)?.trim();
+    if (value) {
+      filters[key] = key === 'tag' ? value.replace(/^#/, '') : value;
+    }
+  }
+  return filters;
+}
+
+export function parseStructuredTransaction(input: Partial<StructuredTransaction>): TransactionData {
+  if (!input.account_number?.toString().trim()) {
+    throw new ParseError('account_number is required');
+  }
+  if (input.transaction_type !== 'withdrawal' && input.transaction_type !== 'deposit') {
+    throw new ParseError("transaction_type must be 'withdrawal' or 'deposit'");
+  }
+  if (!input.date || !input.time) {
+    throw new ParseError('date (YYYY/MM/DD, Jalali) and time (HH:MM) are required');
+  }
+
+  const { date, time } = parseDateTime(normalizeDigits(input.date), normalizeDigits(input.time));
+  const parsed = buildTransaction({
+    bank_name: input.bank_name?.trim() || 'Unknown',
+    account_number: input.account_number.toString().trim(),
+    transaction_type: input.transaction_type,
+    amount: parseAmount(normalizeDigits(String(input.amount ?? '')), true),
+    transaction_method: input.transaction_method?.trim() || 'Unknown',
+    branch_code: input.branch_code?.trim() || null,
+    balance: parseAmount(normalizeDigits(String(input.balance ?? '')), true),
+    date,
+    time,
+    location: input.location?.trim() || 'Unknown',
+    tag: input.tag?.trim().replace(/^#/, '') || '',
+  });
+  return { ...parsed, occurred_at: jalaliDateTimeToEpoch(date, time) };
+}
+
+function readTransactionBody(body: { text?: unknown; transaction?: unknown } | null): { data: TransactionData; parser: string } {
+  try {
+    if (typeof body?.text === 'string') {
+      const result = parseTransaction(body.text);
+      return { data: result.data, parser: result.parser.name };
+    }
+    if (body?.transaction && typeof body.transaction === 'object') {
+      return { data: parseStructuredTransaction(body.transaction as Partial<StructuredTransaction>), parser: 'structured' };
+    }
+  } catch (err) {
+    throw err instanceof ParseError ? new StatusError(400, err.message) : err;
+  }
+  throw new StatusError(400, 'Body must be JSON with either "text" (raw SMS) or "transaction" (structured fields)');
+}
+
+function transactionId(value: string | undefined): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    throw new StatusError(400, 'Transaction id must be a positive integer');
+  }
+  return id;
+}
+
+function pageNumber(value: string | null, fallback: number, min: number, max: number): number {
+  if (value === null || value === '') {
+    return fallback;
+  }
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < min || number > max) {
+    throw new StatusError(400, `Pagination values must be integers between ${min} and ${max}`);
+  }
+  return number;
+}
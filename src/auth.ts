@@ -0,0 +1,126 @@
+export const SECRET_TOKEN_HEADER = 'X-Telegram-Bot-Api-Secret-Token';
+
+export function verifyWebhookSecret(request: Request, secret: string): boolean {
+  const provided = request.headers.get(SECRET_TOKEN_HEADER);
+  if (!provided || !secret) {
+    return false;
+  }
+  return timingSafeEqual(provided, secret);
+}
+
+// ALLOWED_IDS is a comma or whitespace separated list of chat IDs and/or user IDs
+export function parseAllowlist(value: string | undefined): Set<number> {
+  const ids = new Set<number>();
+  for (const part of (value || '').split(/[\s,]+/)) {
+    const id = Number(part);
+    if (part && Number.isSafeInteger(id)) {
+      ids.add(id);
+    }
+  }
+  return ids;
+}
+
+// An empty allowlist means every chat that passed the secret check is accepted
+export function isAllowed(allowlist: Set<number>, chatId: number, userId?: number): boolean {
+  if (allowlist.size === 0) {
+    return true;
+  }
+  return allowlist.has(chatId) || (userId !== undefined && allowlist.has(userId));
+}
+
+export interface ApiToken {
+  id: number;
+  chat_id: number;
+  // Telegram user who created the token
+  created_by: number | null;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+// The plain token is only returned here; D1 keeps its hash
+export async function createApiToken(
+  db: D1Database,
+  chatId: number,
+  createdBy: number | null = null
+): Promise<{ id: number; token: string }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const token = `chb_${[...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  const result = await db.prepare(`INSERT INTO api_tokens (chat_id, token_hash, created_by, created_at) VALUES (?, ?, ?, ?)`)
+    .bind(chatId, await hashToken(token), createdBy, Date.now())
+    .run();
+  return { id: result.meta.last_row_id, token };
+}
+
+// With createdBy, only the tokens that user created
+export async function listApiTokens(db: D1Database, chatId: number, createdBy?: number | null): Promise<ApiToken[]> {
+  const byCreator = createdBy !== undefined;
+  const result = await db.prepare(`
+    SELECT id, chat_id, created_by, created_at, last_used_at FROM api_tokens
+    WHERE chat_id = ?${byCreator ? ' AND created_by = ?' : ''}
+    ORDER BY id
+  `).bind(...(byCreator ? [chatId, createdBy] : [chatId]))
+    .all<ApiToken>();
+  return result.results;
+}
+
+export async function revokeApiToken(db: D1Database, chatId: number, id: number, createdBy?: number | null): Promise<boolean> {
+  const byCreator = createdBy !== undefined;
+  const result = await db.prepare(`DELETE FROM api_tokens WHERE chat_id = ? AND id = ?${byCreator ? ' AND created_by = ?' : ''}`)
+    .bind(...(byCreator ? [chatId, id, createdBy] : [chatId, id]))
+    .run();
+  return result.meta.changes > 0;
+}
+
+// Resolves "Authorization: Bearer <token>" to the chat the token belongs to
+export async function authenticateApiRequest(db: D1Database, request: Request): Promise<number | null> {
+  const token = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return null;
+  }
+
+  const row = await db.prepare(`SELECT id, chat_id FROM api_tokens WHERE token_hash = ?`)
+    .bind(await hashToken(token))
+    .first<{ id: number; chat_id: number }>();
+  if (!row) {
+    return null;
+  }
+  await db.prepare(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`).bind(Date.now(), row.id).run();
+  return row.chat_id;
+}
+
+// Dashboard links carry chat, expiry and an HMAC of both, so no session has to be stored
+export async function signDashboardLink(secret: string, chatId: number, expiresAt: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`dashboard:${chatId}:${expiresAt}`));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyDashboardLink(
+  secret: string,
+  params: URLSearchParams,
+  now: number = Date.now()
+): Promise<number | null> {
+  const chatId = Number(params.get('chat'));
+  const expiresAt = Number(params.get('exp'));
+  const signature = params.get('sig') || '';
+  if (!Number.isSafeInteger(chatId) || !Number.isSafeInteger(expiresAt) || expiresAt < now || !secret) {
+    return null;
+  }
+  return timingSafeEqual(signature, await signDashboardLink(secret, chatId, expiresAt)) ? chatId : null;
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const bytesA = encoder.encode(a);
+  const bytesB = encoder.encode(b);
+  let diff = bytesA.length ^ bytesB.length;
+  for (let i = 0; i < bytesB.length; i++) {
+    diff |= (bytesA[i % Math.max(bytesA.length, 1)] ?? 0) ^ bytesB[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,203 @@
+import { formatJalaliDate, JalaliDate, tehranToday } from './jalali';
+import { normalizeDigits } from './parser';
+import { parseAmount } from './parsers/common';
+
+export interface Budget {
+  chat_id: number;
+  tag: string;
+  monthly_limit: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface BudgetStatus {
+  tag: string;
+  limit: number;
+  spent: number;
+  remaining: number;
+  // spent / limit; above 1 once the budget is exceeded
+  ratio: number;
+}
+
+export interface BudgetAlert {
+  status: BudgetStatus;
+  threshold: number;
+  period: string;
+}
+
+export type BudgetCommand =
+  | { action: 'list' }
+  | { action: 'set'; tag: string; limit: number }
+  | { action: 'unset'; tag: string };
+
+export class BudgetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetError';
+  }
+}
+
+// Percentages of a limit that trigger a warning, each sent once per month
+export const BUDGET_THRESHOLDS = [80, 100];
+
+// "1404/02" for the Jalali month that contains `date`
+export function budgetPeriod(date: JalaliDate): string {
+  return formatJalaliDate({ ...date, day: 1 }).slice(0, 7);
+}
+
+// "set food 20,000,000", "unset food" or nothing for the list
+export function parseBudgetCommand(params: string): BudgetCommand {
+  const [rawAction, rawTag, ...rest] = normalizeDigits(params).trim().split(/\s+/).filter(part => part);
+  const action = rawAction?.toLowerCase();
+  const tag = rawTag?.replace(/^#/, '');
+
+  if (!action) {
+    return { action: 'list' };
+  }
+  if (action === 'set') {
+    if (!tag || rest.length === 0) {
+      throw new BudgetError('استفاده صحیح: /budget set <تگ> <مبلغ به ریال>');
+    }
+    let limit: number;
+    try {
+      limit = parseAmount(rest.join(' '), true);
+    } catch {
+      throw new BudgetError(`مبلغ «${rest.join(' ')}» نامعتبر است.`);
+    }
+    if (limit <= 0) {
+      throw new BudgetError('مبلغ بودجه باید بیشتر از صفر باشد.');
+    }
+    return { action: 'set', tag, limit };
+  }
+  if (action === 'unset' || action === 'delete') {
+    if (!tag) {
+      throw new BudgetError('استفاده صحیح: /budget unset <تگ>');
+    }
+    return { action: 'unset', tag };
+  }
+  throw new BudgetError('دستور نامعتبر. استفاده صحیح: /budget، /budget set <تگ> <مبلغ> یا /budget unset <تگ>');
+}
+
+export async function setBudget(db: D1Database, chatId: number, tag: string, limit: number): Promise<void> {
+  const now = Date.now();
+  await db.prepare(`
+    INSERT INTO budgets (chat_id, tag, monthly_limit, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (chat_id, tag) DO UPDATE SET monthly_limit = excluded.monthly_limit, updated_at = excluded.updated_at
+  `).bind(chatId, tag, limit, now, now).run();
+}
+
+export async function removeBudget(db: D1Database, chatId: number, tag: string): Promise<boolean> {
+  const result = await db.prepare(`DELETE FROM budgets WHERE chat_id = ? AND tag = ?`).bind(chatId, tag).run();
+  return result.meta.changes > 0;
+}
+
+export async function listBudgets(db: D1Database, chatId: number): Promise<Budget[]> {
+  const result = await db.prepare(`SELECT * FROM budgets WHERE chat_id = ? ORDER BY tag ASC`)
+    .bind(chatId)
+    .all<Budget>();
+  return result.results;
+}
+
+// Withdrawals per tag in a Jalali month; untagged spending and transfers between own accounts are left out
+export async function monthlySpending(db: D1Database, chatId: number, period: string): Promise<Record<string, number>> {
+  const result = await db.prepare(`
+    SELECT tag, SUM(withdrawal_amount) as spent
+    FROM transactions
+    WHERE chat_id = ? AND transaction_type = 'withdrawal' AND date LIKE ? AND tag IS NOT NULL AND tag != ''
+      AND transfer_id IS NULL
+    GROUP BY tag
+  `).bind(chatId, `${period}/%`).all<{ tag: string; spent: number }>();
+
+  const spending: Record<string, number> = {};
+  for (const row of result.results) {
+    spending[row.tag] = row.spent || 0;
+  }
+  return spending;
+}
+
+export function toBudgetStatus(budget: Pick<Budget, 'tag' | 'monthly_limit'>, spent: number): BudgetStatus {
+  return {
+    tag: budget.tag,
+    limit: budget.monthly_limit,
+    spent,
+    remaining: budget.monthly_limit - spent,
+    ratio: spent / budget.monthly_limit,
+  };
+}
+
+export async function getBudgetStatuses(db: D1Database, chatId: number, now: number = Date.now()): Promise<BudgetStatus[]> {
+  const period = budgetPeriod(tehranToday(now));
+  const [budgets, spending] = await Promise.all([listBudgets(db, chatId), monthlySpending(db, chatId, period)]);
+  return budgets.map(budget => toBudgetStatus(budget, spending[budget.tag] || 0));
+}
+
+// Thresholds the tag's spending has reached this month that were not announced yet.
+// Claiming the alert row first keeps two concurrent saves from warning twice.
+export async function checkBudgetAlerts(
+  db: D1Database,
+  chatId: number,
+  tag: string,
+  now: number = Date.now()
+): Promise<BudgetAlert[]> {
+  const budget = await db.prepare(`SELECT tag, monthly_limit FROM budgets WHERE chat_id = ? AND tag = ?`)
+    .bind(chatId, tag)
+    .first<Pick<Budget, 'tag' | 'monthly_limit'>>();
+  if (!budget) {
+    return [];
+  }
+
+  const period = budgetPeriod(tehranToday(now));
+  const spending = await monthlySpending(db, chatId, period);
+  const status = toBudgetStatus(budget, spending[tag] || 0);
+
+  const alerts: BudgetAlert[] = [];
+  for (const threshold of BUDGET_THRESHOLDS) {
+    if (status.ratio * 100 < threshold) {
+      continue;
+    }
+    const claimed = await db.prepare(`
+      INSERT OR IGNORE INTO budget_alerts (chat_id, tag, period, threshold, sent_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).bind(chatId, tag, period, threshold, now).run();
+    if (claimed.meta.changes > 0) {
+      alerts.push({ status, threshold, period });
+    }
+  }
+
+  // Only the highest newly reached threshold is worth a message
+  return alerts.slice(-1);
+}
+
+export function formatBudgetAlert(alert: BudgetAlert): string {
+  const { status } = alert;
+  const percent = Math.round(status.ratio * 100).toLocaleString('fa-IR');
+  if (alert.threshold >= 100) {
+    return `🚨 بودجه #${status.tag} در ماه ${alert.period} تمام شد!\n` +
+      `💸 هزینه: ${status.spent.toLocaleString('fa-IR')} از ${status.limit.toLocaleString('fa-IR')} ریال (${percent}٪)\n` +
+      `📉 مازاد: ${(-status.remaining).toLocaleString('fa-IR')} ریال`;
+  }
+  return `⚠️ ${percent}٪ بودجه #${status.tag} در ماه ${alert.period} مصرف شده است.\n` +
+    `💰 باقی‌مانده: ${status.remaining.toLocaleString('fa-IR')} از ${status.limit.toLocaleString('fa-IR')} ریال`;
+}
+
+export function formatBudgets(statuses: BudgetStatus[], period: string): string {
+  if (statuses.length === 0) {
+    return `⚠️ هنوز هیچ بودجه‌ای تعریف نشده است.\n\nبرای تعریف: /budget set <تگ> <مبلغ به ریال>`;
+  }
+
+  let message = `📊 بودجه‌های ماه ${period}:\n`;
+  message += `═══════════════════════\n`;
+  for (const status of statuses) {
+    const icon = status.ratio >= 1 ? '🚨' : status.ratio >= BUDGET_THRESHOLDS[0] / 100 ? '⚠️' : '✅';
+    message += `\n${icon} #${status.tag}\n`;
+    message += `💸 هزینه: ${status.spent.toLocaleString('fa-IR')} از ${status.limit.toLocaleString('fa-IR')} ریال ` +
+      `(${Math.round(status.ratio * 100).toLocaleString('fa-IR')}٪)\n`;
+    message += status.remaining >= 0
+      ? `💰 باقی‌مانده: ${status.remaining.toLocaleString('fa-IR')} ریال\n`
+      : `📉 مازاد: ${(-status.remaining).toLocaleString('fa-IR')} ریال\n`;
+  }
+  message += `\nبرای تغییر: /budget set <تگ> <مبلغ>\n`;
+  message += `برای حذف: /budget unset <تگ>\n`;
+  return message;
+}
@@ -0,0 +1,142 @@
+// Small server-side SVG charts: no client library to load and the same markup works in any page
+
+export interface BarDatum {
+  label: string;
+  value: number;
+}
+
+export interface LineSeries {
+  name: string;
+  // x is usually an epoch in ms; points are drawn in the order given
+  points: { x: number; y: number }[];
+}
+
+export interface ChartOptions {
+  title?: string;
+  width?: number;
+  height?: number;
+}
+
+export const CHART_COLORS = ['#2f7ed8', '#e4572e', '#29a36a', '#f2a541', '#8e5ea2', '#17becf', '#bcbd22', '#7f7f7f'];
+
+const FONT = `font-family="Vazirmatn, Tahoma, sans-serif"`;
+
+// Horizontal bars read well with long Persian labels; labels sit on the right for RTL pages
+export function renderBarChart(data: BarDatum[], options: ChartOptions & { color?: string } = {}): string {
+  const width = options.width ?? 640;
+  const rowHeight = 28;
+  const top = options.title ? 36 : 8;
+  const height = options.height ?? top + Math.max(data.length, 1) * rowHeight + 8;
+  const labelWidth = Math.round(width * 0.3);
+  const valueWidth = 90;
+  const barArea = width - labelWidth - valueWidth - 16;
+  const max = Math.max(...data.map(datum => datum.value), 1);
+
+  const rows = data.map((datum, i) => {
+    const y = top + i * rowHeight;
+    const barWidth = Math.max(1, Math.round((datum.value / max) * barArea));
+    const barX = width - labelWidth - 8 - barWidth;
+    return `<text x="${width - 4}" y="${y + 18}" text-anchor="end" font-size="13" ${FONT}>${escapeSvg(truncate(datum.label, 24))}</text>` +
+      `<rect x="${barX}" y="${y + 5}" width="${barWidth}" height="${rowHeight - 10}" rx="3" fill="${options.color ?? CHART_COLORS[0]}"/>` +
+      `<text x="${barX - 6}" y="${y + 18}" text-anchor="end" font-size="12" fill="#555" ${FONT}>${formatCompact(datum.value)}</text>`;
+  });
+
+  return svg(width, height, [
+    titleText(options.title, width),
+    data.length === 0 ? emptyText(width, height) : rows.join(''),
+  ]);
+}
+
+export function renderLineChart(
+  series: LineSeries[],
+  options: ChartOptions & { formatX?: (x: number) => string } = {}
+): string {
+  const width = options.width ?? 640;
+  const height = options.height ?? 320;
+  const top = options.title ? 40 : 16;
+  const legendHeight = series.length > 1 ? 24 : 0;
+  const left = 64;
+  const right = 16;
+  const bottom = 32 + legendHeight;
+  const points = series.flatMap(line => line.points);
+
+  if (points.length === 0) {
+    return svg(width, height, [titleText(options.title, width), emptyText(width, height)]);
+  }
+
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  const minY = Math.min(0, ...points.map(point => point.y));
+  const maxY = Math.max(...points.map(point => point.y), minY + 1);
+  const plotWidth = width - left - right;
+  const plotHeight = height - top - bottom;
+  const scaleX = (x: number) => left + (maxX === minX ? plotWidth / 2 : ((x - minX) / (maxX - minX)) * plotWidth);
+  const scaleY = (y: number) => top + plotHeight - ((y - minY) / (maxY - minY)) * plotHeight;
+  const formatX = options.formatX ?? (x => String(x));
+
+  const grid: string[] = [];
+  for (let i = 0; i <= 4; i++) {
+    const value = minY + ((maxY - minY) * i) / 4;
+    const y = scaleY(value);
+    grid.push(
+      `<line x1="${left}" x2="${width - right}" y1="${y}" y2="${y}" stroke="#e5e5e5"/>` +
+      `<text x="${left - 6}" y="${y + 4}" text-anchor="end" font-size="11" fill="#777" ${FONT}>${formatCompact(value)}</text>`
+    );
+  }
+  const xLabels = [minX, maxX]
+    .filter((x, i, all) => all.indexOf(x) === i)
+    .map((x, i) => `<text x="${scaleX(x)}" y="${top + plotHeight + 18}" text-anchor="${i === 0 ? 'start' : 'end'}" font-size="11" fill="#777" ${FONT}>${escapeSvg(formatX(x))}</text>`);
+
+  const lines = series.map((line, i) => {
+    const color = CHART_COLORS[i % CHART_COLORS.length];
+    const path = line.points.map((point, j) => `${j === 0 ? 'M' : 'L'}${scaleX(point.x).toFixed(1)},${scaleY(point.y).toFixed(1)}`).join(' ');
+    const dots = line.points.length === 1
+      ? `<circle cx="${scaleX(line.points[0].x)}" cy="${scaleY(line.points[0].y)}" r="3" fill="${color}"/>`
+      : '';
+    return `<path d="${path}" fill="none" stroke="${color}" stroke-width="2"/>${dots}`;
+  });
+
+  const legend = series.length > 1
+    ? series.map((line, i) => {
+      const x = width - right - i * 150;
+      const y = height - 10;
+      return `<rect x="${x - 12}" y="${y - 10}" width="12" height="12" fill="${CHART_COLORS[i % CHART_COLORS.length]}"/>` +
+        `<text x="${x - 18}" y="${y}" text-anchor="end" font-size="12" ${FONT}>${escapeSvg(truncate(line.name, 18))}</text>`;
+    }).join('')
+    : '';
+
+  return svg(width, height, [titleText(options.title, width), grid.join(''), xLabels.join(''), lines.join(''), legend]);
+}
+
+// 1200000 -> "1.2M"; keeps axis labels short
+export function formatCompact(value: number): string {
+  const abs = Math.abs(value);
+  const units: [number, string][] = [[1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+  for (const [size, suffix] of units) {
+    if (abs >= size) {
+      return `${parseFloat((value / size).toFixed(1))}${suffix}`;
+    }
+  }
+  return String(Math.round(value));
+}
+
+export function escapeSvg(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function svg(width: number, height: number, parts: string[]): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">` +
+    `<rect width="100%" height="100%" fill="#fff"/>${parts.join('')}</svg>`;
+}
+
+function titleText(title: string | undefined, width: number): string {
+  return title ? `<text x="${width / 2}" y="24" text-anchor="middle" font-size="16" font-weight="bold" ${FONT}>${escapeSvg(title)}</text>` : '';
+}
+
+function emptyText(width: number, height: number): string {
+  return `<text x="${width / 2}" y="${height / 2}" text-anchor="middle" font-size="14" fill="#999" ${FONT}>داده‌ای وجود ندارد</text>`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
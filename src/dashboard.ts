@@ -0,0 +1,212 @@
+import { StatusError } from 'itty-router';
+import { filtersFromQuery } from './api';
+import { isAllowed, parseAllowlist, signDashboardLink, verifyDashboardLink } from './auth';
+import { BarDatum, LineSeries, renderBarChart, renderLineChart } from './charts';
+import { ReportFilters } from './filters';
+import { epochDayToJalali, formatJalaliDate, jalaliDateTimeToEpoch, tehranOffsetMinutes } from './jalali';
+import { escapeHtml } from './message';
+import { TransactionData } from './parser';
+import { buildTransactionReport, TransactionReport } from './report';
+
+// The subset of the worker's Env the dashboard needs. Links are signed with their own secret, so a leaked
+// link tells nothing about the key that authenticates the webhook; without it the dashboard is off.
+export interface DashboardEnv {
+  DB: D1Database;
+  DASHBOARD_SECRET?: string;
+  ALLOWED_IDS?: string;
+}
+
+export interface DashboardData {
+  spendingOverTime: LineSeries[];
+  spendingByTag: BarDatum[];
+  spendingByLocation: BarDatum[];
+  balanceHistory: LineSeries[];
+}
+
+export const DASHBOARD_LINK_TTL_MS = 60 * 60 * 1000;
+const MAX_BARS = 10;
+const MAX_TABLE_ROWS = 2000;
+
+export async function createDashboardLink(
+  secret: string,
+  origin: string,
+  chatId: number,
+  now: number = Date.now()
+): Promise<string> {
+  const expiresAt = now + DASHBOARD_LINK_TTL_MS;
+  const signature = await signDashboardLink(secret, chatId, expiresAt);
+  return `${origin}/dashboard?chat=${chatId}&exp=${expiresAt}&sig=${signature}`;
+}
+
+export async function handleDashboardRequest(request: Request, env: DashboardEnv): Promise<Response> {
+  if (request.method !== 'GET') {
+    return htmlResponse(405, errorPage('درخواست نامعتبر است.'));
+  }
+
+  const query = new URL(request.url).searchParams;
+  const chatId = await verifyDashboardLink(env.DASHBOARD_SECRET ?? '', query);
+  if (chatId === null || !isAllowed(parseAllowlist(env.ALLOWED_IDS), chatId)) {
+    return htmlResponse(403, errorPage('این لینک نامعتبر یا منقضی شده است. با دستور /dashboard لینک تازه بگیرید.'));
+  }
+
+  let filters: ReportFilters;
+  try {
+    filters = filtersFromQuery(query);
+  } catch (err) {
+    if (err instanceof StatusError) {
+      return htmlResponse(400, errorPage(`فیلتر نامعتبر: ${err.message}`));
+    }
+    throw err;
+  }
+
+  const report = await buildTransactionReport(env.DB, chatId, filters);
+  return htmlResponse(200, renderDashboard(report, query));
+}
+
+// Everything is derived from the same report the "show all" command uses
+export function buildDashboardData(report: TransactionReport): DashboardData {
+  const withdrawals = report.transactions.filter(tx =>
+    tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null && tx.transfer_id == null
+  );
+
+  const byDay = new Map<string, number>();
+  for (const tx of withdrawals) {
+    byDay.set(tx.date, (byDay.get(tx.date) || 0) + tx.withdrawal_amount!);
+  }
+  const spendingPoints = [...byDay.entries()]
+    .map(([date, total]) => ({ x: jalaliDateTimeToEpoch(date, '00:00'), y: total }))
+    .sort((a, b) => a.x - b.x);
+
+  const balanceHistory = Object.entries(report.byAccount).map(([accountNumber, account]) => ({
+    name: account.nickname || accountNumber,
+    points: report.transactions
+      .filter(tx => tx.account_number === accountNumber)
+      .sort((a, b) => a.occurred_at - b.occurred_at)
+      .map(tx => ({ x: tx.occurred_at, y: tx.balance })),
+  }));
+
+  return {
+    spendingOverTime: [{ name: 'برداشت روزانه', points: spendingPoints }],
+    spendingByTag: topBars(Object.entries(report.byTag).map(([tag, data]) => ({
+      label: tag === 'No Tag' ? 'بدون تگ' : `#${tag}`,
+      value: data.totalWithdrawal,
+    }))),
+    spendingByLocation: topBars(Object.entries(report.byLocation).map(([location, data]) => ({
+      label: location === 'No Location' ? 'نامشخص' : location,
+      value: data.totalWithdrawal,
+    }))),
+    balanceHistory,
+  };
+}
+
+export function renderDashboard(report: TransactionReport, query: URLSearchParams = new URLSearchParams()): string {
+  const data = buildDashboardData(report);
+  const formatDay = (x: number) => formatJalaliDate(epochDayToJalali(Math.floor((x + tehranOffsetMinutes(x) * 60000) / 86400000)));
+  const rows = report.transactions.slice(0, MAX_TABLE_ROWS).map(transactionRow).join('');
+  const truncated = report.transactions.length > MAX_TABLE_ROWS
+    ? `<p class="note">فقط ${MAX_TABLE_ROWS.toLocaleString('fa-IR')} تراکنش اخیر نمایش داده شده است.</p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="fa" dir="rtl">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>داشبورد CashHub</title>
+<style>
+body { font-family: Vazirmatn, Tahoma, sans-serif; margin: 0; padding: 16px; background: #f5f6f8; color: #222; }
+h1 { font-size: 20px; margin: 0 0 12px; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 16px; }
+.card { background: #fff; border-radius: 8px; padding: 12px 16px; box-shadow: 0 1px 3px rgba(0,0,0,.08); }
+.card b { display: block; font-size: 18px; margin-top: 4px; }
+.charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px; }
+.chart { background: #fff; border-radius: 8px; padding: 8px; box-shadow: 0 1px 3px rgba(0,0,0,.08); overflow-x: auto; }
+.chart svg { max-width: 100%; height: auto; }
+form { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 16px; align-items: center; }
+input { padding: 6px 8px; border: 1px solid #ccc; border-radius: 6px; font: inherit; }
+table { width: 100%; border-collapse: collapse; background: #fff; margin-top: 8px; font-size: 14px; }
+th, td { padding: 6px 8px; border-bottom: 1px solid #eee; text-align: right; white-space: nowrap; }
+.withdrawal { color: #c0392b; }
+.deposit { color: #1e8449; }
+.note { color: #777; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>📊 داشبورد CashHub — ${escapeHtml(report.period)}</h1>
+<form method="get" action="/dashboard">
+${['chat', 'exp', 'sig'].map(key => `<input type="hidden" name="${key}" value="${escapeHtml(query.get(key) || '')}">`).join('')}
+<input name="from" placeholder="از تاریخ (1404/01/01)" value="${escapeHtml(query.get('from') || '')}">
+<input name="to" placeholder="تا تاریخ" value="${escapeHtml(query.get('to') || '')}">
+<input name="tag" placeholder="تگ" value="${escapeHtml(query.get('tag') || '')}">
+<input name="account" placeholder="حساب" value="${escapeHtml(query.get('account') || '')}">
+<input type="submit" value="اعمال فیلتر">
+</form>
+<div class="cards">
+<div class="card">تعداد تراکنش‌ها<b>${report.transactionCount.toLocaleString('fa-IR')}</b></div>
+<div class="card">مجموع برداشت<b class="withdrawal">${report.totalWithdrawal.toLocaleString('fa-IR')} ریال</b></div>
+<div class="card">مجموع واریز<b class="deposit">${report.totalDeposit.toLocaleString('fa-IR')} ریال</b></div>
+<div class="card">اثر خالص<b>${report.totalAmount.toLocaleString('fa-IR')} ریال</b></div>
+</div>
+<div class="charts">
+<div class="chart">${renderLineChart(data.spendingOverTime, { title: 'هزینه در طول زمان', formatX: formatDay })}</div>
+<div class="chart">${renderLineChart(data.balanceHistory, { title: 'تاریخچه مانده حساب‌ها', formatX: formatDay })}</div>
+<div class="chart">${renderBarChart(data.spendingByTag, { title: 'هزینه بر اساس تگ' })}</div>
+<div class="chart">${renderBarChart(data.spendingByLocation, { title: 'هزینه بر اساس مکان', color: '#e4572e' })}</div>
+</div>
+<h2>🧾 تراکنش‌ها</h2>
+<input id="search" type="search" placeholder="جستجو در تراکنش‌ها…" size="40">
+${truncated}
+<table>
+<thead><tr><th>تاریخ</th><th>ساعت</th><th>حساب</th><th>نوع</th><th>مبلغ</th><th>مانده</th><th>مکان</th><th>تگ</th></tr></thead>
+<tbody id="rows">${rows}</tbody>
+</table>
+<script>
+document.getElementById('search').addEventListener('input', function (event) {
+  var term = event.target.value.trim().toLowerCase();
+  document.querySelectorAll('#rows tr').forEach(function (row) {
+    row.style.display = !term || row.textContent.toLowerCase().indexOf(term) !== -1 ? '' : 'none';
+  });
+});
+</script>
+</body>
+</html>`;
+}
+
+function transactionRow(tx: TransactionData): string {
+  const isWithdrawal = tx.transaction_type === 'withdrawal';
+  const amount = (isWithdrawal ? tx.withdrawal_amount : tx.deposit_amount) ?? 0;
+  const cells = [
+    tx.date,
+    tx.time,
+    tx.account_number,
+    isWithdrawal ? 'برداشت' : 'واریز',
+    amount.toLocaleString('fa-IR'),
+    tx.balance.toLocaleString('fa-IR'),
+    tx.location || '',
+    tx.tag ? `#${tx.tag}` : '',
+  ].map(cell => `<td>${escapeHtml(cell)}</td>`);
+  cells[4] = `<td class="${isWithdrawal ? 'withdrawal' : 'deposit'}">${escapeHtml(amount.toLocaleString('fa-IR'))}</td>`;
+  return `<tr>${cells.join('')}</tr>`;
+}
+
+function topBars(data: BarDatum[]): BarDatum[] {
+  return data.filter(datum => datum.value > 0).sort((a, b) => b.value - a.value).slice(0, MAX_BARS);
+}
+
+function htmlResponse(status: number, body: string): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // Inline styles and the search script only; the signed link must not leak through Referer
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'; img-src data:; form-action 'self'",
+      'Referrer-Policy': 'no-referrer',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+function errorPage(message: string): string {
+  return `<!DOCTYPE html><html lang="fa" dir="rtl"><head><meta charset="utf-8"><title>CashHub</title></head>` +
+    `<body style="font-family: Tahoma, sans-serif; padding: 24px">⚠️ ${escapeHtml(message)}</body></html>`;
+}
@@ -0,0 +1,77 @@
+import { formatJalaliDate, tehranToday } from './jalali';
+import { ReportFilters } from './filters';
+import { StoredTransaction } from './transactions';
+import { buildXlsx, CellValue, XLSX_MIME_TYPE } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportFile {
+  name: string;
+  content: string | Uint8Array;
+  type: string;
+}
+
+const EXPORT_COLUMNS: { header: string; value: (tx: StoredTransaction) => CellValue }[] = [
+  { header: 'شناسه', value: tx => tx.id },
+  { header: 'تاریخ', value: tx => tx.date },
+  { header: 'ساعت', value: tx => tx.time },
+  { header: 'بانک', value: tx => tx.bank_name },
+  { header: 'شماره حساب', value: tx => tx.account_number },
+  { header: 'نوع', value: tx => (tx.transaction_type === 'deposit' ? 'واریز' : 'برداشت') },
+  { header: 'برداشت (ریال)', value: tx => tx.withdrawal_amount },
+  { header: 'واریز (ریال)', value: tx => tx.deposit_amount },
+  { header: 'مانده (ریال)', value: tx => tx.balance },
+  { header: 'روش', value: tx => tx.transaction_method },
+  { header: 'کد شعبه', value: tx => tx.branch_code },
+  { header: 'مکان', value: tx => tx.location },
+  { header: 'تگ', value: tx => tx.tag },
+];
+
+// "xlsx tag=food last=30d" -> { format: 'xlsx', params: 'tag=food last=30d' }; CSV when no format is given
+export function parseExportParams(params: string): { format: ExportFormat; params: string } {
+  const match = params.trim().match(/^(csv|xlsx)\b\s*(.*)$/is);
+  return match
+    ? { format: match[1].toLowerCase() as ExportFormat, params: match[2] }
+    : { format: 'csv', params };
+}
+
+export function exportRows(transactions: StoredTransaction[]): CellValue[][] {
+  return [
+    EXPORT_COLUMNS.map(column => column.header),
+    ...transactions.map(tx => EXPORT_COLUMNS.map(column => column.value(tx) ?? null)),
+  ];
+}
+
+// RFC 4180 CSV with a UTF-8 BOM so Excel detects the encoding of the Persian text
+export function buildCsv(rows: CellValue[][]): string {
+  return '\uFEFF' + rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function buildExportFile(
+  transactions: StoredTransaction[],
+  format: ExportFormat,
+  filters: ReportFilters,
+  now: number = Date.now()
+): ExportFile {
+  const rows = exportRows(transactions);
+  const range = filters.from || filters.to
+    ? `${filters.from || 'start'}_${filters.to || formatJalaliDate(tehranToday(now))}`
+    : formatJalaliDate(tehranToday(now));
+  const name = `cashhub-${range.replace(/\//g, '-')}.${format}`;
+
+  return format === 'xlsx'
+    ? { name, content: buildXlsx(rows, 'Transactions'), type: XLSX_MIME_TYPE }
+    : { name, content: buildCsv(rows), type: 'text/csv; charset=utf-8' };
+}
+
+function csvField(value: CellValue): string {
+  if (value === null) {
+    return '';
+  }
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating merchant text as a formula
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,113 @@
+import {
+  addJalaliDays,
+  formatJalaliDate,
+  isValidJalaliDate,
+  jalaliMonthLength,
+  parseJalaliDate,
+  tehranToday,
+} from './jalali';
+import { normalizeDigits } from './parser';
+
+export interface ReportFilters {
+  tag?: string;
+  location?: string;
+  // Account number or nickname
+  account?: string;
+  // Inclusive Jalali bounds in YYYY/MM/DD form, matching the stored `date` column
+  from?: string;
+  to?: string;
+  period?: string;
+}
+
+export class FilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilterError';
+  }
+}
+
+const LAST_UNITS: Record<string, { days: number; label: string }> = {
+  d: { days: 1, label: 'روز' },
+  w: { days: 7, label: 'هفته' },
+  m: { days: 30, label: 'ماه' },
+};
+// last= reaches back at most ten years
+const MAX_LAST_DAYS = 3650;
+
+export function parseCommandParams(params: string, now: number = Date.now()): ReportFilters {
+  const filters: ReportFilters = {};
+  const today = tehranToday(now);
+  let from: string | undefined;
+  let to: string | undefined;
+
+  for (const token of normalizeDigits(params).split(/\s+/).filter(p => p)) {
+    const [rawKey, ...rest] = token.split('=');
+    const key = rawKey.toLowerCase();
+    const value = rest.join('=');
+
+    if (key === 'today' && !value) {
+      filters.from = filters.to = formatJalaliDate(today);
+      filters.period = 'امروز';
+    } else if (key === 'this-month' && !value) {
+      filters.from = formatJalaliDate({ ...today, day: 1 });
+      filters.to = formatJalaliDate({ ...today, day: jalaliMonthLength(today.year, today.month) });
+      filters.period = 'این ماه';
+    } else if (!value) {
+      continue;
+    } else if (key === 'tag') {
+      filters.tag = value;
+    } else if (key === 'location') {
+      filters.location = value;
+    } else if (key === 'account') {
+      filters.account = value;
+    } else if (key === 'from') {
+      from = parseFilterDate(value, 'from');
+    } else if (key === 'to') {
+      to = parseFilterDate(value, 'to');
+    } else if (key === 'month') {
+      const match = value.match(/^(\d{4})[/-](\d{1,2})$/);
+      const year = Number(match?.[1]);
+      const month = Number(match?.[2]);
+      // Also rejects years outside the range the Jalali calendar conversion supports
+      if (!match || !isValidJalaliDate(year, month, 1)) {
+        throw new FilterError(`Invalid month "${value}": expected YYYY/MM`);
+      }
+      filters.from = formatJalaliDate({ year, month, day: 1 });
+      filters.to = formatJalaliDate({ year, month, day: jalaliMonthLength(year, month) });
+      filters.period = `ماه ${year}/${String(month).padStart(2, '0')}`;
+    } else if (key === 'last') {
+      const match = value.toLowerCase().match(/^(\d+)([dwm])$/);
+      const count = Number(match?.[1]);
+      if (!match || count < 1) {
+        throw new FilterError(`Invalid period "${value}": expected a number followed by d, w or m (e.g. 7d)`);
+      }
+      const unit = LAST_UNITS[match[2]];
+      if (count * unit.days > MAX_LAST_DAYS) {
+        throw new FilterError(`Invalid period "${value}": at most ${MAX_LAST_DAYS} days`);
+      }
+      filters.from = formatJalaliDate(addJalaliDays(today, -(count * unit.days - 1)));
+      filters.to = formatJalaliDate(today);
+      filters.period = `${count} ${unit.label} گذشته`;
+    }
+  }
+
+  if (from || to) {
+    filters.from = from;
+    filters.to = to;
+    filters.period = from && to ? `از ${from} تا ${to}` : from ? `از ${from}` : `تا ${to}`;
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new FilterError(`Invalid range: ${filters.from} is after ${filters.to}`);
+  }
+
+  return filters;
+}
+
+function parseFilterDate(value: string, key: string): string {
+  const date = parseJalaliDate(value);
+  if (!date) {
+    throw new FilterError(`Invalid ${key} date "${value}": expected a valid Jalali date YYYY/MM/DD`);
+  }
+  return formatJalaliDate(date);
+}
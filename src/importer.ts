@@ -0,0 +1,279 @@
+import { normalizeText, ParseError, parseTransactionData, TransactionData } from './parser';
+import { buildTransaction, parseAmount, parseDateTime, parseInlineDateTime } from './parsers/common';
+import { jalaliDateTimeToEpoch } from './jalali';
+import { createAuditStatement, duplicateKey, findDuplicateTransactions, insertTransactionStatement } from './transactions';
+
+export interface ImportEntry {
+  // Where the entry came from, e.g. "پیام ۳" or "ردیف ۱۲"
+  label: string;
+  parse(): TransactionData;
+}
+
+export interface ImportFailure {
+  label: string;
+  reason: string;
+}
+
+export interface ImportSummary {
+  total: number;
+  imported: number;
+  duplicates: number;
+  failed: ImportFailure[];
+  // Entries left unprocessed when the time budget ran out
+  skipped: number;
+  accounts: string[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ENTRIES = 5000;
+
+// Parsing is cheap; the chunk size bounds how many inserts go into one D1 batch
+const IMPORT_CHUNK_SIZE = 50;
+const MAX_LISTED_FAILURES = 10;
+
+// Header keywords, checked in this order so that "مانده حساب" is a balance and not an account column
+const STATEMENT_COLUMNS: { field: StatementField; keywords: string[] }[] = [
+  { field: 'message', keywords: ['body', 'message', 'sms', 'text', 'متن', 'پیام'] },
+  { field: 'balance', keywords: ['balance', 'مانده', 'موجودی'] },
+  { field: 'withdrawal', keywords: ['withdrawal', 'debit', 'برداشت', 'بدهکار'] },
+  { field: 'deposit', keywords: ['deposit', 'credit', 'واریز', 'بستانکار'] },
+  { field: 'date', keywords: ['date', 'تاریخ'] },
+  { field: 'time', keywords: ['time', 'ساعت', 'زمان'] },
+  { field: 'description', keywords: ['description', 'شرح', 'توضیحات', 'بابت'] },
+  { field: 'account', keywords: ['account', 'حساب'] },
+];
+
+type StatementField = 'message' | 'balance' | 'withdrawal' | 'deposit' | 'date' | 'time' | 'description' | 'account';
+
+// SMS exports are split on blank lines (or "---" separators); CSV files either carry one SMS per row
+// in a message column or are bank statements with date/amount/balance columns.
+export function readImportFile(content: string, options: { fileName?: string; caption?: string } = {}): ImportEntry[] {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const entries = /\.csv$/i.test(options.fileName || '')
+    ? readCsv(text, options.caption || '')
+    : splitMessages(text).map((message, i) => ({
+      label: `پیام ${(i + 1).toLocaleString('fa-IR')}`,
+      parse: () => parseTransactionData(message),
+    }));
+
+  if (entries.length === 0) {
+    throw new ImportError('فایل هیچ پیامی ندارد.');
+  }
+  if (entries.length > MAX_IMPORT_ENTRIES) {
+    throw new ImportError(
+      `فایل ${entries.length.toLocaleString('fa-IR')} مورد دارد؛ حداکثر ${MAX_IMPORT_ENTRIES.toLocaleString('fa-IR')} مورد در هر فایل پذیرفته می‌شود. لطفاً آن را به چند فایل تقسیم کنید.`
+    );
+  }
+  return entries;
+}
+
+export function splitMessages(text: string): string[] {
+  return text
+    .split(/\n\s*\n|\n\s*-{3,}\s*\n/)
+    .map(message => message.trim())
+    .filter(message => message);
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Parses, de-duplicates and saves entries chunk by chunk until done or past the deadline.
+// Re-sending a file resumes it: what was already saved is reported as duplicates.
+export async function importEntries(
+  db: D1Database,
+  chatId: number,
+  entries: ImportEntry[],
+  options: { deadline?: number; submittedBy?: number | null } = {}
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { total: entries.length, imported: 0, duplicates: 0, failed: [], skipped: 0, accounts: [] };
+  const seen = new Set<string>();
+  const accounts = new Set<string>();
+
+  for (let start = 0; start < entries.length; start += IMPORT_CHUNK_SIZE) {
+    if (options.deadline && Date.now() > options.deadline) {
+      summary.skipped = entries.length - start;
+      break;
+    }
+
+    const parsed: TransactionData[] = [];
+    for (const entry of entries.slice(start, start + IMPORT_CHUNK_SIZE)) {
+      try {
+        parsed.push(entry.parse());
+      } catch (error) {
+        summary.failed.push({ label: entry.label, reason: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const existing = await findDuplicateTransactions(db, chatId, parsed);
+    const toInsert: TransactionData[] = [];
+    for (const data of parsed) {
+      const key = duplicateKey(data);
+      if (seen.has(key) || existing.has(key)) {
+        summary.duplicates++;
+        continue;
+      }
+      seen.add(key);
+      toInsert.push({ ...data, submitted_by: options.submittedBy ?? null });
+    }
+
+    if (toInsert.length === 0) {
+      continue;
+    }
+    // Each insert is followed by its audit row so both commit together
+    await db.batch(toInsert.flatMap(data => [insertTransactionStatement(db, chatId, data), createAuditStatement(db)]));
+    summary.imported += toInsert.length;
+    toInsert.forEach(data => accounts.add(data.account_number));
+  }
+
+  summary.accounts = [...accounts];
+  return summary;
+}
+
+export function formatImportSummary(summary: ImportSummary, fileName: string): string {
+  let message = `📥 نتیجه وارد کردن ${fileName}:\n`;
+  message += `═══════════════════════\n`;
+  message += `🔢 کل موارد: ${summary.total.toLocaleString('fa-IR')}\n`;
+  message += `✅ ثبت‌شده: ${summary.imported.toLocaleString('fa-IR')}\n`;
+  message += `♻️ تکراری: ${summary.duplicates.toLocaleString('fa-IR')}\n`;
+  message += `❌ ناموفق: ${summary.failed.length.toLocaleString('fa-IR')}\n`;
+
+  if (summary.skipped > 0) {
+    message += `\n⏳ ${summary.skipped.toLocaleString('fa-IR')} مورد به دلیل محدودیت زمان پردازش نشد. ` +
+      `فایل را دوباره ارسال کنید تا ادامه یابد؛ موارد ثبت‌شده تکراری شمرده می‌شوند.\n`;
+  }
+
+  if (summary.failed.length > 0) {
+    message += `\n⚠️ علت خطاها:\n`;
+    for (const failure of summary.failed.slice(0, MAX_LISTED_FAILURES)) {
+      const reason = failure.reason.length > 150 ? `${failure.reason.slice(0, 150)}…` : failure.reason;
+      message += `• ${failure.label}: ${reason}\n`;
+    }
+    if (summary.failed.length > MAX_LISTED_FAILURES) {
+      message += `• و ${(summary.failed.length - MAX_LISTED_FAILURES).toLocaleString('fa-IR')} مورد دیگر\n`;
+    }
+  }
+  return message;
+}
+
+function readCsv(text: string, caption: string): ImportEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = mapColumns(header);
+  const rowLabel = (i: number) => `ردیف ${(i + 2).toLocaleString('fa-IR')}`;
+
+  if (columns.message !== undefined) {
+    const messageColumn = columns.message;
+    return rows.map((row, i) => ({
+      label: rowLabel(i),
+      parse: () => parseTransactionData(row[messageColumn] || ''),
+    }));
+  }
+
+  if (columns.date === undefined || columns.balance === undefined || (columns.withdrawal === undefined && columns.deposit === undefined)) {
+    throw new ImportError('ستون‌های فایل CSV شناخته نشد. ستون متن پیامک، یا ستون‌های تاریخ، برداشت/واریز و مانده لازم است.');
+  }
+
+  const captionAccount = normalizeText(caption).match(/account=(\S+)/i)?.[1];
+  if (columns.account === undefined && !captionAccount) {
+    throw new ImportError('صورتحساب ستون شماره حساب ندارد. فایل را با توضیح account=<شماره حساب> ارسال کنید.');
+  }
+
+  return rows.map((row, i) => ({
+    label: rowLabel(i),
+    parse: () => parseStatementRow(row, columns, captionAccount),
+  }));
+}
+
+function mapColumns(header: string[]): Partial<Record<StatementField, number>> {
+  const columns: Partial<Record<StatementField, number>> = {};
+  header.forEach((name, index) => {
+    const normalized = normalizeText(name).trim().toLowerCase();
+    const match = STATEMENT_COLUMNS.find(column => column.keywords.some(keyword => normalized.includes(keyword)));
+    if (match && columns[match.field] === undefined) {
+      columns[match.field] = index;
+    }
+  });
+  return columns;
+}
+
+function parseStatementRow(row: string[], columns: Partial<Record<StatementField, number>>, captionAccount?: string): TransactionData {
+  const cell = (field: StatementField) => {
+    const index = columns[field];
+    return index === undefined ? '' : normalizeText(row[index] || '').trim();
+  };
+
+  const withdrawal = cell('withdrawal') ? parseAmount(cell('withdrawal'), true) : 0;
+  const deposit = cell('deposit') ? parseAmount(cell('deposit'), true) : 0;
+  if ((withdrawal > 0) === (deposit > 0)) {
+    throw new ParseError('Statement row needs exactly one of a withdrawal or a deposit amount');
+  }
+
+  const { date, time } = cell('time')
+    ? parseDateTime(cell('date'), cell('time'))
+    : /\d{2}:\d{2}/.test(cell('date')) ? parseInlineDateTime(cell('date')) : parseDateTime(cell('date'), '00:00');
+
+  const parsed = buildTransaction({
+    bank_name: 'Unknown',
+    account_number: cell('account') || captionAccount || '',
+    transaction_type: withdrawal > 0 ? 'withdrawal' : 'deposit',
+    amount: withdrawal || deposit,
+    transaction_method: 'صورتحساب',
+    branch_code: null,
+    balance: parseAmount(cell('balance'), true),
+    date,
+    time,
+    location: cell('description') || 'Unknown',
+    tag: '',
+  });
+  if (!parsed.account_number) {
+    throw new ParseError('Account number is required');
+  }
+  return { ...parsed, occurred_at: jalaliDateTimeToEpoch(date, time) };
+}
+
@@ -1,574 +1,1327 @@
-import { parseTransactionData, TransactionData, ParseError } from './parser';
+import { parseTransaction, TransactionData, ParseError } from './parser';
+import { applyMigrations, ensureSchema } from './migrations';
+import { createLogger, Logger, pruneLogs } from './logger';
+import { drainOutbox, enqueueMessage, pruneOutbox } from './outbox';
+import { amount, bold, code, hashtag, Html, html, lines, plain, pre } from './message';
+import {
+  assertCanWrite,
+  canWrite,
+  createInvite,
+  createLedger,
+  formatLedger,
+  joinLedger,
+  leaveLedger,
+  LedgerAccess,
+  LedgerError,
+  LedgerUser,
+  listMembers,
+  parseLedgerRole,
+  removeMember,
+  resolveLedger,
+  ROLE_LABELS,
+  setMemberRole,
+} from './ledgers';
+import { createApiToken, isAllowed, listApiTokens, parseAllowlist, revokeApiToken, verifyWebhookSecret } from './auth';
+import { handleApiRequest } from './api';
+import { createDashboardLink, handleDashboardRequest } from './dashboard';
+import { FilterError, parseCommandParams, ReportFilters } from './filters';
+import {
+  formatAccounts,
+  getAccountNicknames,
+  listAccounts,
+  removeAccountNickname,
+  setAccountNickname,
+} from './accounts';
+import {
+  checkForDuplicateTransaction,
+  createTransaction,
+  deleteTransaction,
+  describeTransaction,
+  DuplicateTransactionError,
+  getLastTransaction,
+  getTransaction,
+  parseEditParams,
+  queryTransactions,
+  StoredTransaction,
+  updateTransaction,
+} from './transactions';
+import { detectTransfers, findCounterpart, formatTransfer, linkTransfer, TransferError, unlinkTransfer } from './transfers';
+import {
+  answerCallbackQuery,
+  downloadFile,
+  editMessageReplyMarkup,
+  editMessageText,
+  isMessageNotModified,
+  sendDocument,
+  sendPhoto,
+  TelegramCallbackQuery,
+  TelegramDocument,
+} from './telegram';
+import { buildExportFile, parseExportParams } from './export';
+import { buildChart, parseChartParams } from './reportcharts';
+import { createReportView, getReportView, parseReportCallback, renderReportPage, ReportPage } from './reportview';
+import { PNG_MIME_TYPE } from './png';
+import { buildTransactionReport, TransactionReport } from './report';
+import { formatImportSummary, importEntries, ImportError, MAX_IMPORT_BYTES, readImportFile } from './importer';
+import { buildTaggingKeyboard, mostUsed, parseTagCallback, removeFieldButtons } from './tagging';
+import { BalanceGap, formatBalanceGap, formatReconcileReport, reconcileAccount, reconcileChat } from './reconcile';
+import {
+  addTagRule,
+  deleteTagRule,
+  formatTagRules,
+  listTagRules,
+  parseRuleParams,
+  SUGGESTION_THRESHOLD,
+  suggestTag,
+  TagSuggestion,
+} from './suggestions';
+import {
+  BudgetError,
+  budgetPeriod,
+  checkBudgetAlerts,
+  formatBudgetAlert,
+  formatBudgets,
+  getBudgetStatuses,
+  parseBudgetCommand,
+  removeBudget,
+  setBudget,
+} from './budgets';
+import { formatJalaliDate, tehranMinuteOfDay, tehranToday } from './jalali';
+import {
+  checkMissingRecurring,
+  checkRecurringArrival,
+  claimDailyCheck,
+  detectRecurring,
+  formatRecurring,
+  formatRecurringAlert,
+  listChatsDueForCheck,
+  RECURRING_CHECK_MINUTE,
+} from './recurring';
+import {
+  claimPeriod,
+  duePeriod,
+  formatSubscriptions,
+  formatSummaryTitle,
+  listSubscriptions,
+  parseFrequency,
+  parseSubscribeParams,
+  subscribe,
+  SubscriptionError,
+  unsubscribe,
+} from './subscriptions';
 
 interface TelegramUpdate {
   message?: {
     chat: { id: number };
-    text: string;
+    from?: TelegramUser;
+    text?: string;
+    document?: TelegramDocument;
+    caption?: string;
   };
+  callback_query?: TelegramCallbackQuery;
+}
+
+interface TelegramUser {
+  id: number;
+  first_name?: string;
+  username?: string;
 }
 
 interface Env {
   DB: D1Database;
   TELEGRAM_TOKEN: string;
+  ADMIN_TOKEN?: string;
+  TELEGRAM_WEBHOOK_SECRET: string;
+  DASHBOARD_SECRET?: string;
+  ALLOWED_IDS?: string;
+  ADMIN_CHAT_ID?: string;
+  LOG_LEVEL?: string;
 }
 
-interface TransactionReport {
-  totalAmount: number;
-  totalWithdrawal: number;
-  totalDeposit: number;
-  transactionCount: number;
-  transactions: TransactionData[];
-  byTag: Record<string, { count: number; totalWithdrawal: number; totalDeposit: number }>;
-  byLocation: Record<string, { count: number; totalWithdrawal: number; totalDeposit: number; deposits: TransactionData[]; withdrawals: TransactionData[] }>;
+// The bindings plus the logger of the request or cron run being handled
+interface AppEnv extends Env {
+  log: Logger;
 }
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 1000;
-const MAX_MESSAGE_LENGTH = 4000; // Slightly below Telegram's 4096 limit for safety
+// waitUntil work may run for 30 seconds after the response; leave room for the summary
+const IMPORT_TIME_BUDGET_MS = 20000;
+// Whatever the outbox cannot deliver in this window is left for the next request or cron run
+const DRAIN_TIME_BUDGET_MS = 20000;
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    let chatId: number = 0;
+  async fetch(request: Request, bindings: Env, ctx: ExecutionContext): Promise<Response> {
+    const log = createLogger(bindings, { requestId: request.headers.get('cf-ray') || undefined });
+    const startedAt = Date.now();
+    const response = await handleRequest(request, { ...bindings, log }, ctx);
+    log.info('Request handled', {
+      method: request.method,
+      path: new URL(request.url).pathname,
+      status: response.status,
+      durationMs: Date.now() - startedAt,
+    });
+    ctx.waitUntil(drainReplies({ ...bindings, log }).finally(() => log.flush()));
+
+    const tagged = new Response(response.body, response);
+    tagged.headers.set('X-Request-Id', log.requestId);
+    return tagged;
+  },
+
+  // Cron Trigger: pushes the daily, weekly and monthly summaries chats subscribed to, retries queued
+  // replies and prunes old logs and delivered messages
+  async scheduled(controller: ScheduledController, bindings: Env, ctx: ExecutionContext): Promise<void> {
+    const log = createLogger(bindings);
+    const env = { ...bindings, log };
     try {
-      if (!env.DB || !env.TELEGRAM_TOKEN) {
-        const errorMsg = 'Missing environment variables (DB or TELEGRAM_TOKEN)';
-        await sendLogToTelegram(env, chatId, errorMsg, 'error');
-        return new Response(JSON.stringify({ error: 'Server configuration error' }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
+      await sendScheduledSummaries(env, controller.scheduledTime);
+      await sendRecurringAlerts(env, controller.scheduledTime);
+      await drainReplies(env);
+      const pruned = await pruneLogs(bindings.DB, controller.scheduledTime);
+      const prunedMessages = await pruneOutbox(bindings.DB, controller.scheduledTime);
+      log.debug('Scheduled run finished', { pruned, prunedMessages });
+    } catch (error) {
+      log.error('Scheduled run failed', { error });
+    } finally {
+      ctx.waitUntil(log.flush());
+    }
+  },
+};
 
-      if (request.method !== 'POST') {
-        const errorMsg = 'Method not allowed';
-        await sendLogToTelegram(env, chatId, errorMsg, 'error');
-        return new Response(errorMsg, { status: 405 });
+async function handleRequest(request: Request, env: AppEnv, ctx: ExecutionContext): Promise<Response> {
+  let chatId: number = 0;
+  try {
+    if (!env.DB || !env.TELEGRAM_TOKEN || !env.TELEGRAM_WEBHOOK_SECRET) {
+      env.log.error('Server configuration error: missing DB, TELEGRAM_TOKEN or TELEGRAM_WEBHOOK_SECRET', {
+        missing: ['DB', 'TELEGRAM_TOKEN', 'TELEGRAM_WEBHOOK_SECRET'].filter(name => !env[name as keyof Env]),
+      });
+      return rejectRequest(env, 500, 'Server configuration error');
+    }
+
+    const url = new URL(request.url);
+    if (url.pathname === '/admin/migrate') {
+      return await handleAdminMigrate(request, env);
+    }
+    if (url.pathname.startsWith('/api/')) {
+      await ensureSchema(env.DB);
+      return await handleApiRequest(request, env);
+    }
+    if (url.pathname === '/dashboard') {
+      await ensureSchema(env.DB);
+      return await handleDashboardRequest(request, env);
+    }
+
+    if (request.method !== 'POST') {
+      return rejectRequest(env, 405, 'Method not allowed');
+    }
+
+    if (!verifyWebhookSecret(request, env.TELEGRAM_WEBHOOK_SECRET)) {
+      return rejectRequest(env, 401, 'Unauthorized', 'Webhook request with missing or wrong secret token');
+    }
+
+    await ensureSchema(env.DB);
+
+    const update: TelegramUpdate = await request.json();
+    const callbackChatId = update?.callback_query?.message?.chat?.id;
+    if (update?.callback_query && callbackChatId) {
+      if (!isAllowed(parseAllowlist(env.ALLOWED_IDS), callbackChatId, update.callback_query.from?.id)) {
+        return rejectRequest(env, 200, 'Chat not allowed', `Rejected callback query from chat ${callbackChatId}`);
       }
+      chatId = callbackChatId;
+      env.log.setChatId(chatId);
+      const ledger = await resolveLedger(env.DB, chatId, update.callback_query.from?.id);
+      await handleCallbackQuery(env, chatId, ledger, update.callback_query);
+      return new Response(JSON.stringify({ status: 'Callback handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!update?.message?.chat?.id || !(update.message.text || update.message.document)) {
+      // 200 so Telegram does not keep redelivering updates we cannot handle
+      return rejectRequest(env, 200, 'Invalid Telegram update');
+    }
+
+    if (!isAllowed(parseAllowlist(env.ALLOWED_IDS), update.message.chat.id, update.message.from?.id)) {
+      return rejectRequest(env, 200, 'Chat not allowed', `Rejected update from chat ${update.message.chat.id}`);
+    }
+
+    chatId = update.message.chat.id;
+    env.log.setChatId(chatId);
+    // Chats linked to a shared ledger read and write its data instead of their own
+    const ledger = await resolveLedger(env.DB, chatId, update.message.from?.id);
+
+    const document = update.message.document;
+    if (document) {
+      await saveMessageToD1(env, chatId, `📎 ${document.file_name || document.file_id}`);
+      assertCanWrite(ledger);
+      // Imports outlive Telegram's webhook timeout, so they finish after the response
+      ctx.waitUntil(handleImportDocument(env, chatId, ledger, document, update.message.caption || '').finally(() => env.log.flush()));
+      return new Response(JSON.stringify({ status: 'Import started' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-      const update: TelegramUpdate = await request.json();
-      if (!update?.message?.chat?.id || !update.message.text) {
-        const errorMsg = 'Invalid Telegram update';
-        await sendLogToTelegram(env, chatId, errorMsg, 'error');
-        return new Response(JSON.stringify({ error: errorMsg }), {
+    const receivedText = (update.message.text || '').trim();
+
+    await saveMessageToD1(env, chatId, receivedText);
+
+    const commandMatch = receivedText.match(/^(?:show\s+)?all\b\s*(.*)$/i);
+    if (commandMatch) {
+      const params = commandMatch[1] || '';
+      let filters: ReportFilters;
+      try {
+        filters = parseCommandParams(params);
+      } catch (error) {
+        if (!(error instanceof FilterError)) {
+          throw error;
+        }
+        await sendReply(env, chatId, formatFilterError(error, [
+          'show all from=1404/02/01 to=1404/02/31',
+          'show all month=1404/02',
+          'show all last=7d',
+          'show all today',
+          'show all this-month',
+        ]));
+        return new Response(JSON.stringify({ error: error.message }), {
           status: 200,
           headers: { 'Content-Type': 'application/json' },
         });
       }
+      await sendInteractiveReport(env, chatId, ledger, filters);
+      return new Response(JSON.stringify({ status: 'Report generated' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-      chatId = update.message.chat.id;
-      const receivedText = update.message.text.trim();
+    const exportMatch = receivedText.match(/^\/export\b\s*(.*)$/is);
+    if (exportMatch) {
+      const reply = await handleExportCommand(env, chatId, ledger, exportMatch[1] || '');
+      if (reply) {
+        await sendReply(env, chatId, reply);
+      }
+      return new Response(JSON.stringify({ status: 'Export handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const chartMatch = receivedText.match(/^\/chart\b\s*(.*)$/is);
+    if (chartMatch) {
+      const reply = await handleChartCommand(env, chatId, ledger, chartMatch[1] || '');
+      if (reply) {
+        await sendReply(env, chatId, reply);
+      }
+      return new Response(JSON.stringify({ status: 'Chart handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const accountsMatch = receivedText.match(/^\/?accounts\b\s*(.*)$/i);
+    if (accountsMatch) {
+      const reply = await handleAccountsCommand(env, ledger, accountsMatch[1] || '');
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Accounts listed' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const reconcileMatch = receivedText.match(/^\/?reconcile\b\s*(\S*)/i);
+    if (reconcileMatch) {
+      const gaps = await reconcileChat(env.DB, ledger.dataChatId, reconcileMatch[1] || undefined);
+      await sendReply(env, chatId, plain(await formatReconcileReport(env.DB, ledger.dataChatId, gaps)));
+      return new Response(JSON.stringify({ status: 'Reconciled', gaps: gaps.length }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const editMatch = receivedText.match(/^\/(edit|delete|undo)\b\s*(.*)$/is);
+    if (editMatch) {
+      const reply = await handleEditCommand(env, chatId, ledger, editMatch[1].toLowerCase(), editMatch[2] || '');
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Edit command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (/^\/recurring\b/i.test(receivedText)) {
+      const series = await detectRecurring(env.DB, ledger.dataChatId);
+      await sendReply(env, chatId, plain(formatRecurring(series, await getAccountNicknames(env.DB, ledger.dataChatId))));
+      return new Response(JSON.stringify({ status: 'Recurring command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const transferMatch = receivedText.match(/^\/transfer\b\s*(.*)$/is);
+    if (transferMatch) {
+      let reply: Html;
+      try {
+        reply = await handleTransferCommand(env, ledger, transferMatch[1] || '');
+      } catch (error) {
+        if (!(error instanceof TransferError)) {
+          throw error;
+        }
+        reply = html`❌ ${error.message}`;
+      }
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Transfer command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const ruleMatch = receivedText.match(/^\/?rules?\b\s*(.*)$/is);
+    if (ruleMatch) {
+      const reply = await handleRuleCommand(env, ledger, ruleMatch[1] || '');
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Rule command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-      await saveMessageToD1(env, chatId, receivedText);
+    const tokenMatch = receivedText.match(/^\/apitoken\b\s*(.*)$/is);
+    if (tokenMatch) {
+      const reply = await handleApiTokenCommand(env, ledger, tokenMatch[1] || '');
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'API token command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-      const commandMatch = receivedText.match(/^show all|Show all|all\s*(.*)$/i);
-      if (commandMatch) {
-        const params = commandMatch[1] || '';
-        const filters = parseCommandParams(params);
-        const report = await generateTransactionReport(env, chatId, filters.tag, filters.location);
-        const reportMessage = formatReport(report);
-        await sendLogToTelegram(env, chatId, reportMessage, 'info');
-        return new Response(JSON.stringify({ status: 'Report generated' }), {
+    if (/^\/dashboard\b/i.test(receivedText)) {
+      if (!env.DASHBOARD_SECRET) {
+        await sendReply(env, chatId, html`⚠️ داشبورد روی این ربات فعال نشده است.`);
+        return new Response(JSON.stringify({ status: 'Dashboard disabled' }), {
           status: 200,
           headers: { 'Content-Type': 'application/json' },
         });
       }
+      const link = await createDashboardLink(env.DASHBOARD_SECRET, url.origin, ledger.dataChatId);
+      await sendReply(env, chatId, lines(
+        html`📊 ${bold('لینک داشبورد شما')} (تا ۱ ساعت معتبر است):`,
+        link,
+        '',
+        '⚠️ این لینک را با کسی به اشتراک نگذارید.'
+      ));
+      return new Response(JSON.stringify({ status: 'Dashboard link sent' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-      let parsedData: TransactionData;
+    const budgetMatch = receivedText.match(/^\/?budgets?\b\s*(.*)$/is);
+    if (budgetMatch) {
+      let reply: Html;
       try {
-        parsedData = parseTransactionData(receivedText);
-        const amountField = parsedData.transaction_type === 'deposit' ? 'واریز' : 'برداشت';
-        const amountValue = parsedData.transaction_type === 'deposit' 
-          ? parsedData.deposit_amount 
-          : parsedData.withdrawal_amount;
-        await sendLogToTelegram(
-          env,
-          chatId,
-          `✅ تراکنش با موفقیت تجزیه شد!\n` +
-          `📋 قالب: ${parsedData.bank_name === 'Unknown' ? 'قالب ۲' : 'قالب ۱'}\n` +
-          `💸 ${amountField}: ${amountValue?.toLocaleString('fa-IR')} ریال\n` +
-          `📅 تاریخ: ${parsedData.date}`,
-          'info'
-        );
+        reply = await handleBudgetCommand(env, ledger, budgetMatch[1] || '');
       } catch (error) {
-        const errorMessage = error instanceof ParseError ? error.message : `خطا در تجزیه تراکنش: ${error.message}`;
-        await sendLogToTelegram(
-          env,
-          chatId,
-          `❌ خطا در تجزیه تراکنش: ${errorMessage}\n` +
-          `لطفاً تراکنش را در قالب صحیح ارسال کنید:\n` +
-          `مثال واریز (قالب ۱):\n*بانک تجارت*\nحساب: 1234\nواریز: 1,000,000 ریال\nاز طریق: شعبه\nکدشعبه: 2080\nمانده: 5,000,000 ریال\n1404/02/08\n23:51\nLoup #Cafe\n` +
-          `مثال واریز (قالب ۲):\nحساب1234\nواریز1,000,000\nمانده5,000,000\n04/02/08-23:51\n#Cafe\n` +
-          `مثال برداشت (قالب ۱):\n*بانک تجارت*\nحساب: 1234\nبرداشت: 1,000,000 ریال\nاز طریق: پایانه فروش\nمانده: 5,000,000 ریال\n1404/02/08\n23:51\nLoup #Cafe\n` +
-          `مثال برداشت (قالب ۲):\nحساب1234\nبرداشت1,000,000\nمانده5,000,000\n04/02/08-23:51\n#Cafe`,
-          'error',
-          { receivedText }
-        );
-        return new Response(JSON.stringify({ error: errorMessage }), {
-          status: 200,
-          headers: { 'Content-Type': 'application/json' },
-        });
+        if (!(error instanceof BudgetError)) {
+          throw error;
+        }
+        reply = html`❌ ${error.message}`;
       }
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Budget command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
+    const subscribeMatch = receivedText.match(/^\/(subscribe|unsubscribe|subscriptions)\b\s*(.*)$/is);
+    if (subscribeMatch) {
+      let reply: Html;
       try {
-        await saveTransactionToD1(env, chatId, parsedData);
-        const amountField = parsedData.transaction_type === 'deposit' ? 'واریز' : 'برداشت';
-        const amountValue = parsedData.transaction_type === 'deposit' 
-          ? parsedData.deposit_amount 
-          : parsedData.withdrawal_amount;
-        await sendLogToTelegram(
-          env,
-          chatId,
-          `✅ تراکنش با موفقیت ثبت شد!\n` +
-          `🏦 بانک: ${parsedData.bank_name !== 'Unknown' ? parsedData.bank_name : 'نامشخص'}\n` +
-          `💸 ${amountField}: ${amountValue?.toLocaleString('fa-IR')} ریال\n` +
-          `💰 مانده: ${parsedData.balance.toLocaleString('fa-IR')} ریال` +
-          (parsedData.branch_code ? `\n🏢 کد شعبه: ${parsedData.branch_code}` : ''),
-          'info'
-        );
+        reply = await handleSubscribeCommand(env, chatId, subscribeMatch[1].toLowerCase(), subscribeMatch[2] || '');
       } catch (error) {
-        const errorMessage = error.message === 'Duplicate transaction' 
-          ? 'تراکنش تکراری است و قبلاً ثبت شده است'
-          : `خطا در ذخیره تراکنش: ${error.message}`;
-        await sendLogToTelegram(
-          env,
-          chatId,
-          `❌ ${errorMessage}`,
-          'error',
-          { parsedData }
-        );
-        return new Response(JSON.stringify({ error: errorMessage }), {
-          status: error.message === 'Duplicate transaction' ? 200 : 500,
-          headers: { 'Content-Type': 'application/json' },
-        });
+        if (!(error instanceof SubscriptionError)) {
+          throw error;
+        }
+        reply = html`❌ ${error.message}`;
       }
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Subscription command handled' }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
 
-      return new Response(JSON.stringify(parsedData), {
+    const ledgerMatch = receivedText.match(/^\/ledger\b\s*(.*)$/is);
+    if (ledgerMatch) {
+      const reply = await handleLedgerCommand(env, chatId, ledger, update.message.from, ledgerMatch[1] || '');
+      await sendReply(env, chatId, reply);
+      return new Response(JSON.stringify({ status: 'Ledger command handled' }), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
+    }
 
+    // Anything else is a transaction, which read-only members may not add
+    assertCanWrite(ledger);
+
+    let parsedData: TransactionData;
+    try {
+      const parseResult = parseTransaction(receivedText);
+      parsedData = parseResult.data;
+      const amountField = parsedData.transaction_type === 'deposit' ? 'واریز' : 'برداشت';
+      const amountValue = parsedData.transaction_type === 'deposit' 
+        ? parsedData.deposit_amount 
+        : parsedData.withdrawal_amount;
+      await sendReply(env, chatId, lines(
+        bold('✅ تراکنش با موفقیت تجزیه شد!'),
+        html`📋 قالب: ${parseResult.parser.label}`,
+        html`💸 ${amountField}: ${amount(amountValue)}`,
+        html`📅 تاریخ: ${code(parsedData.date)}`
+      ));
     } catch (error) {
-      await sendLogToTelegram(
-        env,
-        chatId,
-        `❌ خطای سرور: ${error.message}`,
-        'error',
-        { error }
-      );
-      return new Response(JSON.stringify({ error: 'Internal server error' }), {
-        status: 500,
+      // Parse errors describe what is wrong with the message; anything else is ours to investigate
+      if (!(error instanceof ParseError)) {
+        env.log.error('Unexpected error while parsing a transaction', { error, receivedText });
+      }
+      const errorMessage = error instanceof ParseError ? error.message : 'پیام قابل پردازش نبود.';
+      await sendReply(env, chatId, lines(
+        html`❌ ${bold('خطا در تجزیه تراکنش:')} ${errorMessage}`,
+        !(error instanceof ParseError) && formatTrackingCode(env),
+        'لطفاً تراکنش را در قالب صحیح ارسال کنید:',
+        'مثال واریز (قالب ۱):',
+        pre('*بانک تجارت*\nحساب: 1234\nواریز: 1,000,000 ریال\nاز طریق: شعبه\nکدشعبه: 2080\nمانده: 5,000,000 ریال\n1404/02/08\n23:51\nLoup #Cafe'),
+        'مثال واریز (قالب ۲):',
+        pre('حساب1234\nواریز1,000,000\nمانده5,000,000\n04/02/08-23:51\n#Cafe'),
+        'مثال برداشت (قالب ۱):',
+        pre('*بانک تجارت*\nحساب: 1234\nبرداشت: 1,000,000 ریال\nاز طریق: پایانه فروش\nمانده: 5,000,000 ریال\n1404/02/08\n23:51\nLoup #Cafe'),
+        'مثال برداشت (قالب ۲):',
+        pre('حساب1234\nبرداشت1,000,000\nمانده5,000,000\n04/02/08-23:51\n#Cafe')
+      ));
+      return new Response(JSON.stringify({ error: errorMessage }), {
+        status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
-  },
-};
 
-async function checkForDuplicateTransaction(
-  d1Database: D1Database,
-  parsedData: TransactionData
-): Promise<boolean> {
-  let query = `
-    SELECT COUNT(*) as count
-    FROM transactions
-    WHERE account_number = ?
-      AND transaction_type = ?
-      AND date = ?
-      AND time = ?
-      AND balance = ?`;
-  const params = [
-    parsedData.account_number,
-    parsedData.transaction_type,
-    parsedData.date,
-    parsedData.time,
-    parsedData.balance,
-  ];
-
-  if (parsedData.transaction_type === 'withdrawal') {
-    query += ` AND withdrawal_amount = ?`;
-    params.push(parsedData.withdrawal_amount);
-  } else {
-    query += ` AND deposit_amount = ?`;
-    params.push(parsedData.deposit_amount);
-  }
-
-  const result = await d1Database.prepare(query)
-    .bind(...params)
-    .first();
-  
-  return result.count > 0;
-}
-
-async function sendLogToTelegram(
-  env: Env,
+    try {
+      // Untagged transactions get a tag from the chat's rules or history when we are confident enough
+      const suggestion = parsedData.tag ? null : await suggestTransactionTag(env, ledger.dataChatId, parsedData);
+      const applied = suggestion && suggestion.confidence >= SUGGESTION_THRESHOLD ? suggestion : null;
+      const savedData: TransactionData = applied
+        ? {
+            ...parsedData,
+            tag: applied.tag,
+            location: parsedData.location === 'Unknown' && applied.location ? applied.location : parsedData.location,
+            submitted_by: ledger.userId,
+          }
+        : { ...parsedData, submitted_by: ledger.userId };
+
+      const transactionId = await saveTransactionToD1(env, ledger.dataChatId, savedData, applied);
+      const gaps = await checkBalanceContinuity(env, ledger.dataChatId, parsedData.account_number, transactionId);
+      const transfer = await pairTransfer(env, ledger.dataChatId, transactionId, parsedData.occurred_at);
+      const amountField = parsedData.transaction_type === 'deposit' ? 'واریز' : 'برداشت';
+      const amountValue = parsedData.transaction_type === 'deposit' 
+        ? parsedData.deposit_amount 
+        : parsedData.withdrawal_amount;
+      await sendReply(env, chatId, lines(
+        bold('✅ تراکنش با موفقیت ثبت شد!'),
+        html`🆔 شناسه: ${code(transactionId)}`,
+        html`🏦 بانک: ${parsedData.bank_name !== 'Unknown' ? parsedData.bank_name : 'نامشخص'}`,
+        html`💸 ${amountField}: ${amount(amountValue)}`,
+        html`💰 مانده: ${amount(parsedData.balance)}`,
+        parsedData.branch_code ? html`🏢 کد شعبه: ${code(parsedData.branch_code)}` : null,
+        applied && formatAppliedSuggestion(applied, savedData),
+        transfer && plain(await formatTransfer(env.DB, ledger.dataChatId, transfer)),
+        gaps.length > 0 && html`\n⚠️ ${bold('ناپیوستگی مانده:')}\n${plain(gaps.map(gap => formatBalanceGap(gap)).join('\n'))}`,
+        '',
+        html`✏️ ویرایش: ${code(`/edit ${transactionId} tag=... location=...`)}`,
+        html`🗑 حذف: ${code(`/delete ${transactionId}`)} یا /undo`
+      ));
+      if (!parsedData.tag || parsedData.location === 'Unknown') {
+        await offerTagging(env, chatId, ledger, transactionId, parsedData, suggestion);
+      }
+      await notifyBudgetAlerts(env, chatId, ledger, savedData);
+      await notifyRecurringChange(env, chatId, ledger, transactionId, savedData);
+    } catch (error) {
+      const isDuplicate = error instanceof DuplicateTransactionError;
+      if (!isDuplicate) {
+        env.log.error('Failed to save transaction', { error, parsedData });
+      }
+      const errorMessage = isDuplicate
+        ? 'تراکنش تکراری است و قبلاً ثبت شده است'
+        : 'ذخیره تراکنش ممکن نشد. لطفاً دوباره تلاش کنید.';
+      await sendReply(env, chatId, html`❌ ${errorMessage}${!isDuplicate && html` ${formatTrackingCode(env)}`}`);
+      return new Response(JSON.stringify({ error: errorMessage }), {
+        status: isDuplicate ? 200 : 500,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    return new Response(JSON.stringify(parsedData), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    // Ledger errors, including a read-only member trying to write, are explained to the chat
+    if (error instanceof LedgerError && chatId) {
+      await sendReply(env, chatId, html`⛔ ${error.message}`);
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    env.log.error('Unhandled error while handling update', { error });
+    if (chatId) {
+      await sendReply(env, chatId, lines('❌ خطای غیرمنتظره‌ای رخ داد. لطفاً دوباره تلاش کنید.', formatTrackingCode(env)));
+    }
+    return new Response(JSON.stringify({ error: 'Internal server error', requestId: env.log.requestId }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Requests rejected before we know a trusted chat are only logged, never echoed back through Telegram.
+function rejectRequest(env: AppEnv, status: number, error: string, logMessage: string = error): Response {
+  env.log.warn(`Rejected request: ${logMessage}`, { status });
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function handleAdminMigrate(request: Request, env: AppEnv): Promise<Response> {
+  const authHeader = request.headers.get('Authorization');
+  if (request.method !== 'POST' || !env.ADMIN_TOKEN || authHeader !== `Bearer ${env.ADMIN_TOKEN}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const result = await applyMigrations(env.DB);
+  return new Response(JSON.stringify(result), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function handleAccountsCommand(env: AppEnv, ledger: LedgerAccess, params: string): Promise<Html> {
+  const [action, accountNumber, ...nicknameParts] = params.split(/\s+/).filter(p => p);
+  const nickname = nicknameParts.join(' ');
+
+  if (action?.toLowerCase() === 'set') {
+    if (!accountNumber || !nickname) {
+      return html`❌ استفاده صحیح: ${code('accounts set <شماره حساب> <نام>')}`;
+    }
+    assertCanWrite(ledger);
+    await setAccountNickname(env.DB, ledger.dataChatId, accountNumber, nickname);
+    return html`✅ نام «${bold(nickname)}» برای حساب ${code(accountNumber)} ثبت شد.`;
+  }
+
+  if (action?.toLowerCase() === 'unset') {
+    if (!accountNumber) {
+      return html`❌ استفاده صحیح: ${code('accounts unset <شماره حساب>')}`;
+    }
+    assertCanWrite(ledger);
+    const removed = await removeAccountNickname(env.DB, ledger.dataChatId, accountNumber);
+    return removed
+      ? html`✅ نام حساب ${code(accountNumber)} حذف شد.`
+      : html`⚠️ برای حساب ${code(accountNumber)} نامی ثبت نشده بود.`;
+  }
+
+  return plain(formatAccounts(await listAccounts(env.DB, ledger.dataChatId)));
+}
+
+async function handleEditCommand(env: AppEnv, chatId: number, ledger: LedgerAccess, command: string, params: string): Promise<Html> {
+  assertCanWrite(ledger);
+  const dataChatId = ledger.dataChatId;
+  if (command === 'undo') {
+    // In a shared ledger each member undoes only what they saved
+    const last = await getLastTransaction(env.DB, dataChatId, ledger.ledger ? ledger.userId : undefined);
+    if (!last) {
+      return html`⚠️ تراکنشی برای بازگردانی وجود ندارد.`;
+    }
+    await deleteTransaction(env.DB, dataChatId, last.id);
+    await checkBalanceContinuity(env, dataChatId, last.account_number, last.id);
+    return lines('↩️ آخرین تراکنش حذف شد:', plain(describeTransaction(last)));
+  }
+
+  const [idText, ...rest] = params.trim().split(/\s+/);
+  const id = Number(idText);
+  if (!Number.isSafeInteger(id) || id <= 0) {
+    return command === 'edit'
+      ? html`❌ استفاده صحیح: ${code('/edit <شناسه> tag=food location=Cafe')}`
+      : html`❌ استفاده صحیح: ${code('/delete <شناسه>')}`;
+  }
+
+  if (command === 'delete') {
+    const deleted = await deleteTransaction(env.DB, dataChatId, id);
+    if (!deleted) {
+      return html`❌ تراکنشی با شناسه ${code(id)} پیدا نشد.`;
+    }
+    await checkBalanceContinuity(env, dataChatId, deleted.account_number, deleted.id);
+    return lines('🗑 تراکنش حذف شد:', plain(describeTransaction(deleted)));
+  }
+
+  const edit = parseEditParams(rest.join(' '));
+  if (Object.keys(edit).length === 0) {
+    return html`❌ هیچ فیلد قابل ویرایشی مشخص نشده است. فیلدهای مجاز: ${code('tag=...')} و ${code('location=...')}`;
+  }
+  const updated = await updateTransaction(env.DB, dataChatId, id, edit);
+  if (!updated) {
+    return html`❌ تراکنشی با شناسه ${code(id)} پیدا نشد.`;
+  }
+  if (edit.tag) {
+    await notifyBudgetAlerts(env, chatId, ledger, updated);
+  }
+  return lines('✏️ تراکنش ویرایش شد:', plain(describeTransaction(updated)));
+}
+
+// Imports a text file of SMS or a CSV (SMS per row or bank statement) and replies with a summary.
+// Runs in waitUntil, so every failure is reported to the chat instead of thrown.
+async function handleImportDocument(
+  env: AppEnv,
   chatId: number,
-  message: string,
-  level: 'info' | 'error',
-  context?: Record<string, any>
+  ledger: LedgerAccess,
+  document: TelegramDocument,
+  caption: string
 ): Promise<void> {
-  if (!env.TELEGRAM_TOKEN || !chatId) {
-    console.error(`Cannot send log to Telegram: Missing TELEGRAM_TOKEN or invalid chatId`, {
-      message,
-      level,
-      context,
-      chatId,
+  const fileName = document.file_name || 'file';
+  try {
+    if (!/\.(txt|csv)$/i.test(fileName) && !document.mime_type?.startsWith('text/')) {
+      throw new ImportError('فقط فایل‌های متنی (.txt) و CSV پشتیبانی می‌شوند.');
+    }
+    if ((document.file_size || 0) > MAX_IMPORT_BYTES) {
+      throw new ImportError(`حجم فایل بیش از ${(MAX_IMPORT_BYTES / 1024 / 1024).toLocaleString('fa-IR')} مگابایت است.`);
+    }
+
+    await sendReply(env, chatId, html`⏳ در حال وارد کردن ${code(fileName)}...`);
+    // The request's own drain may already be done; this message should not wait for the whole import
+    await drainReplies(env);
+    const content = new TextDecoder().decode(await downloadFile(env.TELEGRAM_TOKEN, document.file_id));
+    const entries = readImportFile(content, { fileName, caption });
+    const summary = await importEntries(env.DB, ledger.dataChatId, entries, {
+      deadline: Date.now() + IMPORT_TIME_BUDGET_MS,
+      submittedBy: ledger.userId,
     });
-    return;
+
+    // Imported history usually closes or opens balance gaps, so each touched account is reconciled once
+    for (const account of summary.accounts) {
+      await reconcileAccount(env.DB, ledger.dataChatId, account);
+    }
+    const transfers = summary.imported > 0 ? await detectTransfers(env.DB, ledger.dataChatId) : [];
+    await sendReply(env, chatId, lines(
+      plain(formatImportSummary(summary, fileName)),
+      transfers.length > 0 && html`🔁 ${transfers.length.toLocaleString('fa-IR')} انتقال بین حساب‌های خودی پیدا شد و از مجموع درآمد و هزینه کنار گذاشته شد.`
+    ));
+  } catch (error) {
+    if (!(error instanceof ImportError)) {
+      env.log.error('Import failed', { error, fileName });
+    }
+    const message = error instanceof ImportError
+      ? html`${error.message}`
+      : html`وارد کردن فایل ناموفق بود. ${formatTrackingCode(env)}`;
+    await sendReply(env, chatId, html`❌ ${message}`);
   }
+  await drainReplies(env);
+}
 
-  // Escape Markdown special characters
-  const escapeMarkdown = (text: string): string => {
-    return text.replace(/([_*`\[\\#])/g, '\\$1');
-  };
+// Sends the matching transactions as a CSV or XLSX document; returns a reply only when there is nothing to send
+async function handleExportCommand(env: AppEnv, chatId: number, ledger: LedgerAccess, params: string): Promise<Html | null> {
+  const { format, params: filterParams } = parseExportParams(params);
+  let filters: ReportFilters;
+  try {
+    filters = parseCommandParams(filterParams);
+  } catch (error) {
+    if (!(error instanceof FilterError)) {
+      throw error;
+    }
+    return formatFilterError(error, ['/export month=1404/02', '/export xlsx tag=food last=30d', '/export account=1234 from=1404/01/01']);
+  }
 
-  // Split message into chunks under MAX_MESSAGE_LENGTH
-  const splitMessage = (text: string): string[] => {
-    const chunks: string[] = [];
-    let currentChunk = '';
-    const lines = text.split('\n');
+  const transactions = await queryTransactions(env.DB, ledger.dataChatId, filters);
+  if (transactions.length === 0) {
+    return html`⚠️ هیچ تراکنشی با این فیلترها یافت نشد.`;
+  }
 
-    for (const line of lines) {
-      if (currentChunk.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
-        chunks.push(currentChunk);
-        currentChunk = '';
-      }
-      currentChunk += line + '\n';
+  const file = buildExportFile(transactions, format, filters);
+  await sendDocument(env.TELEGRAM_TOKEN, chatId, file, {
+    caption: `📎 ${transactions.length.toLocaleString('fa-IR')} تراکنش | 🗓 ${filters.period || 'همه تراکنش‌ها'}`,
+  });
+  return null;
+}
+
+async function handleChartCommand(env: AppEnv, chatId: number, ledger: LedgerAccess, params: string): Promise<Html | null> {
+  const { kinds, params: filterParams } = parseChartParams(params);
+  let filters: ReportFilters;
+  try {
+    filters = parseCommandParams(filterParams);
+  } catch (error) {
+    if (!(error instanceof FilterError)) {
+      throw error;
     }
-    if (currentChunk) {
-      chunks.push(currentChunk);
+    return formatFilterError(error, ['/chart', '/chart pie month=1404/02', '/chart bar last=180d', '/chart line account=1234']);
+  }
+
+  const report = await generateTransactionReport(env, ledger.dataChatId, filters);
+  if (report.transactionCount === 0) {
+    return html`⚠️ هیچ تراکنشی با این فیلترها یافت نشد.`;
+  }
+
+  let sent = 0;
+  for (const kind of kinds) {
+    const chart = await buildChart(kind, report);
+    if (chart) {
+      await sendPhoto(env.TELEGRAM_TOKEN, chatId, { name: `cashhub-${kind}.png`, content: chart.png, type: PNG_MIME_TYPE }, {
+        caption: chart.caption,
+      });
+      sent++;
     }
-    return chunks;
-  };
+  }
+  return sent === 0 ? html`⚠️ داده‌ای برای رسم این نمودار وجود ندارد.` : null;
+}
 
-  const url = `https://api.telegram.org/bot${env.TELEGRAM_TOKEN}/sendMessage`;
-  const logMessage = `*[${level === 'info' ? 'INFO' : 'ERROR'}]* ${escapeMarkdown(message)}\n` +
-    (context ? `جزئیات:\n\`\`\`json\n${JSON.stringify(context, null, 2)}\n\`\`\`` : '');
-  
-  const messageChunks = splitMessage(logMessage);
+async function handleLedgerCommand(
+  env: AppEnv,
+  chatId: number,
+  ledger: LedgerAccess,
+  from: TelegramUser | undefined,
+  params: string
+): Promise<Html> {
+  const [action, ...rest] = params.trim().split(/\s+/).filter(part => part);
+  const user: LedgerUser | null = from ? { id: from.id, name: from.first_name || from.username || String(from.id) } : null;
+  if (action && !user) {
+    throw new LedgerError('کاربر فرستنده پیام مشخص نیست.');
+  }
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      for (let i = 0; i < messageChunks.length; i++) {
-        const chunk = messageChunks[i];
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            chat_id: chatId,
-            text: `[${i + 1}/${messageChunks.length}] ${chunk}`,
-            parse_mode: 'Markdown',
-          }),
-        });
+  if (action?.toLowerCase() === 'new') {
+    const name = rest.join(' ') || 'دفتر مشترک';
+    await createLedger(env.DB, chatId, user!, name);
+    return lines(
+      html`✅ دفتر مشترک ${bold(name)} ساخته شد و تراکنش‌های این گفتگو در آن است.`,
+      html`برای دعوت دیگران: ${code('/ledger invite member')} یا ${code('/ledger invite viewer')}`
+    );
+  }
 
-        if (!response.ok) {
-          throw new Error(`Telegram API responded with status ${response.status} for chunk ${i + 1}`);
-        }
+  if (action?.toLowerCase() === 'invite') {
+    const role = parseLedgerRole(rest[0]);
+    if (!role) {
+      throw new LedgerError('استفاده صحیح: /ledger invite [member|viewer]');
+    }
+    const inviteCode = await createInvite(env.DB, ledger, role);
+    return lines(
+      html`🎟 کد دعوت با نقش ${bold(ROLE_LABELS[role])} (یک بار مصرف، تا ۷ روز معتبر):`,
+      code(inviteCode),
+      '',
+      html`عضو جدید این را در گفتگوی خودش با ربات بفرستد: ${code(`/ledger join ${inviteCode}`)}`
+    );
+  }
+
+  if (action?.toLowerCase() === 'join') {
+    if (!rest[0]) {
+      throw new LedgerError('استفاده صحیح: /ledger join <کد دعوت>');
+    }
+    const joined = await joinLedger(env.DB, chatId, user!, rest[0]);
+    return html`✅ به دفتر ${bold(joined.name)} پیوستید. از این پس تراکنش‌ها و گزارش‌های این گفتگو مربوط به این دفتر است.`;
+  }
+
+  if (action?.toLowerCase() === 'leave') {
+    const left = await leaveLedger(env.DB, ledger);
+    return html`👋 دفتر ${bold(left.name)} را ترک کردید. این گفتگو دوباره دفتر شخصی خودش را دارد.`;
+  }
+
+  if (action?.toLowerCase() === 'remove' || action?.toLowerCase() === 'role') {
+    const userId = Number(rest[0]);
+    const role = action.toLowerCase() === 'role' ? parseLedgerRole(rest[1] || '-') : null;
+    if (!Number.isSafeInteger(userId) || userId <= 0 || (action.toLowerCase() === 'role' && !role)) {
+      throw new LedgerError('استفاده صحیح: /ledger remove <شناسه کاربر> یا /ledger role <شناسه کاربر> member|viewer');
+    }
+    const changed = role
+      ? await setMemberRole(env.DB, ledger, userId, role)
+      : await removeMember(env.DB, ledger, userId);
+    if (!changed) {
+      return html`❌ عضوی با شناسه ${code(userId)} پیدا نشد.`;
+    }
+    return role
+      ? html`✅ نقش کاربر ${code(userId)}: ${ROLE_LABELS[role]}`
+      : html`🗑 کاربر ${code(userId)} از دفتر حذف شد.`;
+  }
+
+  return formatLedger(ledger, ledger.ledger ? await listMembers(env.DB, ledger.ledger.id) : []);
+}
+
+async function handleSubscribeCommand(env: AppEnv, chatId: number, command: string, params: string): Promise<Html> {
+  if (command === 'subscribe') {
+    const { frequency, sendTime } = parseSubscribeParams(params);
+    await subscribe(env.DB, chatId, frequency, sendTime);
+  } else if (command === 'unsubscribe') {
+    const frequency = params.trim() ? parseFrequency(params) : undefined;
+    if (frequency === null) {
+      throw new SubscriptionError('استفاده صحیح: /unsubscribe [daily|weekly|monthly]');
+    }
+    const removed = await unsubscribe(env.DB, chatId, frequency);
+    if (removed === 0) {
+      return html`⚠️ اشتراکی برای لغو پیدا نشد.`;
+    }
+  }
+  return plain(formatSubscriptions(await listSubscriptions(env.DB, chatId)));
+}
+
+// Sends every subscription whose period became due since its last summary.
+// Each period is claimed before sending, so a failed or overlapping run never repeats a summary.
+async function sendScheduledSummaries(env: AppEnv, now: number): Promise<void> {
+  await ensureSchema(env.DB);
+
+  for (const subscription of await listSubscriptions(env.DB)) {
+    const period = duePeriod(subscription.frequency, subscription.send_time, now);
+    if (subscription.last_period && subscription.last_period >= period.key) {
+      continue;
+    }
+
+    try {
+      if (!(await claimPeriod(env.DB, subscription, period.key))) {
+        continue;
       }
-      return;
+      await sendInteractiveReport(
+        env,
+        subscription.chat_id,
+        await resolveLedger(env.DB, subscription.chat_id),
+        { from: period.from, to: period.to, period: period.label },
+        formatSummaryTitle(subscription.frequency)
+      );
     } catch (error) {
-      if (attempt === MAX_RETRIES) {
-        console.error(`Failed to send log to Telegram after ${MAX_RETRIES} attempts: ${error.message}`, {
-          message,
-          level,
-          context,
-          chatId,
-        });
-        return;
-      }
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+      env.log.error('Failed to send scheduled summary', { error, chatId: subscription.chat_id, frequency: subscription.frequency });
     }
   }
 }
 
-async function saveMessageToD1(env: Env, chatId: number, message: string): Promise<void> {
-  try {
-    const query = `
-      INSERT INTO messages (chat_id, message, timestamp)
-      VALUES (?, ?, ?);
-    `;
-    await env.DB.prepare(query)
-      .bind(chatId, message, Date.now())
-      .run();
-  } catch (error) {
-    await sendLogToTelegram(
-      env,
-      chatId,
-      `❌ خطا در ذخیره پیام: ${error.message}`,
-      'error',
-      { chatId, message }
+// Tokens belong to the chat's data, so an API client of a shared ledger sees the whole ledger.
+// Members manage only the tokens they created; the owner manages all of them.
+async function handleApiTokenCommand(env: AppEnv, ledger: LedgerAccess, params: string): Promise<Html> {
+  const [action, idText] = params.trim().split(/\s+/);
+  const createdBy = ledger.role === 'owner' ? undefined : ledger.userId;
+
+  if (action?.toLowerCase() === 'new') {
+    assertCanWrite(ledger);
+    const { id, token } = await createApiToken(env.DB, ledger.dataChatId, ledger.userId);
+    return lines(
+      html`🔑 توکن API شماره ${code(id)} ساخته شد. این توکن فقط همین یک بار نمایش داده می‌شود:`,
+      code(token),
+      '',
+      html`استفاده: ${code('Authorization: Bearer <توکن>')}`
     );
-    throw new Error('Failed to save message to database');
   }
+
+  if (action?.toLowerCase() === 'revoke') {
+    const id = Number(idText);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      return html`❌ استفاده صحیح: ${code('/apitoken revoke <شناسه>')}`;
+    }
+    assertCanWrite(ledger);
+    const revoked = await revokeApiToken(env.DB, ledger.dataChatId, id, createdBy);
+    return revoked ? html`🗑 توکن ${code(id)} باطل شد.` : html`❌ توکنی با شناسه ${code(id)} پیدا نشد.`;
+  }
+
+  const tokens = await listApiTokens(env.DB, ledger.dataChatId, createdBy);
+  if (tokens.length === 0) {
+    return lines('⚠️ هیچ توکن API فعالی ندارید.', '', html`برای ساخت: ${code('/apitoken new')}`);
+  }
+  return lines(
+    bold('🔑 توکن‌های API:'),
+    '',
+    ...tokens.map(token => {
+      const lastUsed = token.last_used_at ? formatJalaliDate(tehranToday(token.last_used_at)) : 'هرگز';
+      const creator = ledger.ledger && token.created_by !== ledger.userId
+        ? html` | سازنده: ${token.created_by ? code(token.created_by) : 'نامشخص'}`
+        : null;
+      return html`🆔 ${code(token.id)} | آخرین استفاده: ${lastUsed}${creator}`;
+    }),
+    '',
+    html`برای ساخت: ${code('/apitoken new')}`,
+    html`برای ابطال: ${code('/apitoken revoke <شناسه>')}`
+  );
 }
 
-async function saveTransactionToD1(env: Env, chatId: number, parsedData: TransactionData): Promise<void> {
-  const isDuplicate = await checkForDuplicateTransaction(env.DB, parsedData);
-  if (isDuplicate) {
-    throw new Error('Duplicate transaction');
+async function handleBudgetCommand(env: AppEnv, ledger: LedgerAccess, params: string): Promise<Html> {
+  const command = parseBudgetCommand(params);
+  if (command.action !== 'list') {
+    assertCanWrite(ledger);
   }
 
-  try {
-    const schemaCheck = await env.DB.prepare(`
-      PRAGMA table_info(transactions);
-    `).all();
-    
-    const columnExists = (name: string) => schemaCheck.results.some((column: any) => column.name === name);
-    const hasChatId = columnExists('chat_id');
-    const hasTransactionType = columnExists('transaction_type');
-    const hasDepositAmount = columnExists('deposit_amount');
-    const hasBranchCode = columnExists('branch_code');
-
-    let query = `
-      INSERT INTO transactions (
-        ${hasChatId ? 'chat_id,' : ''} 
-        bank_name, account_number, 
-        ${hasTransactionType ? 'transaction_type,' : ''} 
-        withdrawal_amount, 
-        ${hasDepositAmount ? 'deposit_amount,' : ''} 
-        transaction_method, 
-        ${hasBranchCode ? 'branch_code,' : ''} 
-        balance, date, time, location, tag, timestamp
-      )
-      VALUES (
-        ${hasChatId ? '?, ' : ''} 
-        ?, ?, 
-        ${hasTransactionType ? '?, ' : ''} 
-        ?, 
-        ${hasDepositAmount ? '?, ' : ''} 
-        ?, 
-        ${hasBranchCode ? '?, ' : ''} 
-        ?, ?, ?, ?, ?, ?
-      );
-    `;
-    const params = [
-      ...(hasChatId ? [chatId] : []),
-      parsedData.bank_name,
-      parsedData.account_number,
-      ...(hasTransactionType ? [parsedData.transaction_type] : []),
-      parsedData.withdrawal_amount,
-      ...(hasDepositAmount ? [parsedData.deposit_amount] : []),
-      parsedData.transaction_method,
-      ...(hasBranchCode ? [parsedData.branch_code] : []),
-      parsedData.balance,
-      parsedData.date,
-      parsedData.time,
-      parsedData.location,
-      parsedData.tag,
-      parsedData.timestamp,
-    ];
+  if (command.action === 'set') {
+    await setBudget(env.DB, ledger.dataChatId, command.tag, command.limit);
+    return html`✅ بودجه ماهانه ${hashtag(command.tag)}: ${amount(command.limit)}`;
+  }
+  if (command.action === 'unset') {
+    const removed = await removeBudget(env.DB, ledger.dataChatId, command.tag);
+    return removed
+      ? html`🗑 بودجه ${hashtag(command.tag)} حذف شد.`
+      : html`⚠️ برای ${hashtag(command.tag)} بودجه‌ای تعریف نشده بود.`;
+  }
 
-    await env.DB.prepare(query)
-      .bind(...params)
-      .run();
+  return plain(formatBudgets(await getBudgetStatuses(env.DB, ledger.dataChatId), budgetPeriod(tehranToday())));
+}
+
+// Warns once per month when a tagged withdrawal of the current month pushes its tag past a budget threshold.
+// Best effort: the transaction is already saved, so failures are only logged.
+async function notifyBudgetAlerts(env: AppEnv, chatId: number, ledger: LedgerAccess, tx: TransactionData): Promise<void> {
+  if (!tx.tag || tx.transaction_type !== 'withdrawal' || !tx.date.startsWith(`${budgetPeriod(tehranToday())}/`)) {
+    return;
+  }
+
+  try {
+    for (const alert of await checkBudgetAlerts(env.DB, ledger.dataChatId, tx.tag)) {
+      await sendReply(env, chatId, plain(formatBudgetAlert(alert)));
+    }
   } catch (error) {
-    throw new Error(`Failed to save transaction to database: ${error.message}`);
+    env.log.error('Failed to check budget alerts', { error, tag: tx.tag });
   }
 }
 
-async function generateTransactionReport(
-  env: Env,
+// Warns when a transaction continues a recurring series with a different amount than last time
+async function notifyRecurringChange(
+  env: AppEnv,
   chatId: number,
-  tag?: string,
-  location?: string
-): Promise<TransactionReport> {
+  ledger: LedgerAccess,
+  transactionId: number,
+  tx: TransactionData
+): Promise<void> {
   try {
-    const schemaCheck = await env.DB.prepare(`
-      PRAGMA table_info(transactions);
-    `).all();
-    
-    const hasChatIdColumn = schemaCheck.results.some((column: any) => column.name === 'chat_id');
-    if (!hasChatIdColumn) {
-      throw new Error('Database schema is outdated: transactions table is missing chat_id column');
-    }
-
-    let query = `SELECT * FROM transactions WHERE chat_id = ?`;
-    const params: any[] = [chatId];
-
-    if (tag) {
-      query += ` AND tag = ?`;
-      params.push(tag);
-    }
-    if (location) {
-      query += ` AND location = ?`;
-      params.push(location);
-    }
-
-    const result = await env.DB.prepare(query).bind(...params).all();
-    let transactions: TransactionData[] = result.results as TransactionData[];
-
-    // Handle NULL transaction_type by inferring from amounts
-    const warnings: string[] = [];
-    transactions = transactions.map(tx => {
-      if (!tx.transaction_type) {
-        if (tx.withdrawal_amount != null && tx.deposit_amount == null) {
-          warnings.push(`Transaction at ${tx.date} ${tx.time} has NULL transaction_type; assuming withdrawal`);
-          return { ...tx, transaction_type: 'withdrawal' };
-        } else if (tx.deposit_amount != null && tx.withdrawal_amount == null) {
-          warnings.push(`Transaction at ${tx.date} ${tx.time} has NULL transaction_type; assuming deposit`);
-          return { ...tx, transaction_type: 'deposit' };
-        } else {
-          warnings.push(`Transaction at ${tx.date} ${tx.time} has ambiguous transaction_type; skipping`);
-          return tx;
-        }
+    const alert = await checkRecurringArrival(env.DB, ledger.dataChatId, { ...tx, id: transactionId });
+    if (alert) {
+      await sendReply(env, chatId, plain(formatRecurringAlert(alert, await getAccountNicknames(env.DB, ledger.dataChatId))));
+    }
+  } catch (error) {
+    env.log.error('Failed to check recurring transactions', { error, transactionId });
+  }
+}
+
+// Once a day, tells each chat about recurring transactions that are overdue. Shared ledgers are told in
+// the chat they were created in, where their transactions are stored. Any run from 09:00 on checks the
+// chats not checked yet today, so a missed tick does not skip the day.
+async function sendRecurringAlerts(env: AppEnv, now: number): Promise<void> {
+  if (tehranMinuteOfDay(now) < RECURRING_CHECK_MINUTE) {
+    return;
+  }
+  await ensureSchema(env.DB);
+
+  for (const chatId of await listChatsDueForCheck(env.DB, now)) {
+    try {
+      if (!(await claimDailyCheck(env.DB, chatId, now))) {
+        continue;
       }
-      return tx;
-    });
+      const alerts = await checkMissingRecurring(env.DB, chatId, now);
+      const nicknames = alerts.length > 0 ? await getAccountNicknames(env.DB, chatId) : {};
+      for (const alert of alerts) {
+        await sendReply(env, chatId, plain(formatRecurringAlert(alert, nicknames)));
+      }
+    } catch (error) {
+      env.log.error('Failed to check missing recurring transactions', { error, chatId });
+    }
+  }
+}
 
-    if (warnings.length > 0) {
-      await sendLogToTelegram(
-        env,
-        chatId,
-        `⚠️ هشدار: برخی تراکنش‌ها دارای transaction_type نامعتبر هستند:\n${warnings.join('\n')}`,
-        'error'
-      );
+// Detection only pairs legs that arrive within TRANSFER_WINDOW_MS; this fixes the cases it gets wrong
+async function handleTransferCommand(env: AppEnv, ledger: LedgerAccess, params: string): Promise<Html> {
+  const [first, second] = params.trim().split(/\s+/);
+  const usage = lines(
+    html`❌ استفاده صحیح: ${code('/transfer <شناسه برداشت> <شناسه واریز>')}`,
+    html`برای لغو: ${code('/transfer unlink <شناسه>')}`
+  );
+  assertCanWrite(ledger);
+
+  if (first?.toLowerCase() === 'unlink') {
+    const id = Number(second);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      return usage;
     }
+    const counterpart = await unlinkTransfer(env.DB, ledger.dataChatId, id);
+    return counterpart
+      ? html`✅ پیوند تراکنش‌های ${code(id)} و ${code(counterpart)} برداشته شد و دوباره در مجموع درآمد و هزینه حساب می‌شوند.`
+      : html`⚠️ تراکنش ${code(id)} بخشی از یک انتقال داخلی نیست.`;
+  }
 
-    // Sort transactions by date and time (descending)
-    transactions.sort((a, b) => {
-      const dateA = `${a.date} ${a.time}`;
-      const dateB = `${b.date} ${b.time}`;
-      return dateB.localeCompare(dateA);
-    });
+  const ids = [Number(first), Number(second)];
+  if (ids.some(id => !Number.isSafeInteger(id) || id <= 0)) {
+    return usage;
+  }
+  const pair = await linkTransfer(env.DB, ledger.dataChatId, ids[0], ids[1]);
+  return html`🔁 تراکنش‌های ${code(pair.withdrawalId)} و ${code(pair.depositId)} به‌عنوان انتقال داخلی ${amount(pair.amount)} ثبت شدند.`;
+}
 
-    const report: TransactionReport = {
-      totalAmount: 0,
-      totalWithdrawal: 0,
-      totalDeposit: 0,
-      transactionCount: transactions.length,
-      transactions,
-      byTag: {},
-      byLocation: {},
-    };
-
-    for (const tx of transactions) {
-      if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
-        report.totalWithdrawal += tx.withdrawal_amount;
-        report.totalAmount -= tx.withdrawal_amount;
-      } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
-        report.totalDeposit += tx.deposit_amount;
-        report.totalAmount += tx.deposit_amount;
-      }
+async function handleRuleCommand(env: AppEnv, ledger: LedgerAccess, params: string): Promise<Html> {
+  const [action, ...rest] = params.trim().split(/\s+/);
 
-      const tagKey = tx.tag || 'No Tag';
-      if (!report.byTag[tagKey]) {
-        report.byTag[tagKey] = { count: 0, totalWithdrawal: 0, totalDeposit: 0 };
-      }
-      report.byTag[tagKey].count += 1;
-      if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
-        report.byTag[tagKey].totalWithdrawal += tx.withdrawal_amount;
-      } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
-        report.byTag[tagKey].totalDeposit += tx.deposit_amount;
-      }
+  if (action?.toLowerCase() === 'add') {
+    assertCanWrite(ledger);
+    const rule = parseRuleParams(rest.join(' '));
+    if (!rule) {
+      return html`❌ استفاده صحیح: ${code('rule add location=Snapp tag=transport')} یا ${code('rule add method=<روش> tag=<تگ>')}`;
+    }
+    const id = await addTagRule(env.DB, ledger.dataChatId, rule.field, rule.pattern, rule.tag);
+    return html`✅ قاعده ${code(id)} ثبت شد: ${rule.field === 'location' ? 'مکان' : 'روش'} شامل «${rule.pattern}» ← ${hashtag(rule.tag)}`;
+  }
 
-      const locKey = tx.location || 'No Location';
-      if (!report.byLocation[locKey]) {
-        report.byLocation[locKey] = { 
-          count: 0, 
-          totalWithdrawal: 0, 
-          totalDeposit: 0, 
-          deposits: [], 
-          withdrawals: [] 
-        };
-      }
-      report.byLocation[locKey].count += 1;
-      if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
-        report.byLocation[locKey].totalWithdrawal += tx.withdrawal_amount;
-        report.byLocation[locKey].withdrawals.push(tx);
-      } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
-        report.byLocation[locKey].totalDeposit += tx.deposit_amount;
-        report.byLocation[locKey].deposits.push(tx);
-      }
+  if (action?.toLowerCase() === 'delete') {
+    assertCanWrite(ledger);
+    const id = Number(rest[0]);
+    if (!Number.isSafeInteger(id) || id <= 0) {
+      return html`❌ استفاده صحیح: ${code('rule delete <شناسه>')}`;
     }
+    const deleted = await deleteTagRule(env.DB, ledger.dataChatId, id);
+    return deleted ? html`🗑 قاعده ${code(id)} حذف شد.` : html`❌ قاعده‌ای با شناسه ${code(id)} پیدا نشد.`;
+  }
 
-    return report;
+  return plain(formatTagRules(await listTagRules(env.DB, ledger.dataChatId)));
+}
+
+// A failing suggestion must never keep a transaction from being saved
+async function suggestTransactionTag(env: AppEnv, chatId: number, parsedData: TransactionData): Promise<TagSuggestion | null> {
+  try {
+    return await suggestTag(env.DB, chatId, parsedData);
   } catch (error) {
-    await sendLogToTelegram(
-      env,
-      chatId,
-      `❌ خطا در تولید گزارش: ${error.message}`,
-      'error'
-    );
-    throw new Error('Failed to generate report');
+    env.log.error('Failed to suggest a tag', { error });
+    return null;
   }
 }
 
-function parseCommandParams(params: string): { tag?: string; location?: string } {
-  const filters: { tag?: string; location?: string } = {};
-  const paramPairs = params.split(/\s+/).filter(p => p.includes('='));
-  for (const pair of paramPairs) {
-    const [key, value] = pair.split('=');
-    if (key.toLowerCase() === 'tag') {
-      filters.tag = value;
-    } else if (key.toLowerCase() === 'location') {
-      filters.location = value;
-    }
-  }
-  return filters;
-}
-
-function formatReport(report: TransactionReport): string {
-  let message = `📊 گزارش جامع تراکنش‌ها\n`;
-  message += `═══════════════════════\n`;
-
-  // Summary Section
-  message += `📋 خلاصه کلی:\n`;
-  message += `🔢 تعداد تراکنش‌ها: ${report.transactionCount.toLocaleString('fa-IR')}\n`;
-  message += `💸 مجموع برداشت: ${report.totalWithdrawal.toLocaleString('fa-IR')} ریال\n`;
-  message += `💰 مجموع واریز: ${report.totalDeposit.toLocaleString('fa-IR')} ریال\n`;
-  message += `📈 اثر خالص: ${report.totalAmount.toLocaleString('fa-IR')} ریال\n`;
-  message += `═══════════════════════\n`;
-
-  // Location Breakdown
-  message += `📍 جزئیات تراکنش‌ها بر اساس مکان:\n`;
-  if (Object.keys(report.byLocation).length === 0) {
-    message += `⚠️ هیچ تراکنشی یافت نشد.\n`;
-  } else {
-    for (const [loc, data] of Object.entries(report.byLocation)) {
-      message += `\n🏬 مکان: ${loc}\n`;
-      message += `🔢 تعداد تراکنش‌ها: ${data.count.toLocaleString('fa-IR')}\n`;
-      message += `💸 مجموع برداشت: ${data.totalWithdrawal.toLocaleString('fa-IR')} ریال\n`;
-      message += `💰 مجموع واریز: ${data.totalDeposit.toLocaleString('fa-IR')} ریال\n`;
-
-      // Deposits
-      if (data.deposits.length > 0) {
-        message += `\n  📥 واریز‌ها:\n`;
-        const maxDisplay = Math.min(data.deposits.length, 5);
-        for (let i = 0; i < maxDisplay; i++) {
-          const tx = data.deposits[i];
-          message += `  - ${tx.date} ${tx.time}: ${tx.deposit_amount?.toLocaleString('fa-IR')} ریال (\\#${tx.tag || 'بدون تگ'})\n`;
-        }
-        if (data.deposits.length > maxDisplay) {
-          message += `  و ${data.deposits.length - maxDisplay} واریز دیگر...\n`;
-        }
-      }
+function formatAppliedSuggestion(suggestion: TagSuggestion, savedData: TransactionData): Html {
+  const location = suggestion.location && savedData.location === suggestion.location && html` | 📍 ${suggestion.location}`;
+  return suggestion.source === 'rule'
+    ? html`🏷 تگ طبق قاعده: ${hashtag(suggestion.tag)}${location}`
+    : html`🏷 تگ پیشنهادی: ${hashtag(suggestion.tag)}${location} (اطمینان ${Math.round(suggestion.confidence * 100).toLocaleString('fa-IR')}٪)`;
+}
 
-      // Withdrawals
-      if (data.withdrawals.length > 0) {
-        message += `\n  📤 برداشت‌ها:\n`;
-        const maxDisplay = Math.min(data.withdrawals.length, 5);
-        for (let i = 0; i < maxDisplay; i++) {
-          const tx = data.withdrawals[i];
-          message += `  - ${tx.date} ${tx.time}: ${tx.withdrawal_amount?.toLocaleString('fa-IR')} ریال (\\#${tx.tag || 'بدون تگ'})\n`;
-        }
-        if (data.withdrawals.length > maxDisplay) {
-          message += `  و ${data.withdrawals.length - maxDisplay} برداشت دیگر...\n`;
-        }
-      }
-      message += `───────────────────\n`;
+function formatFilterError(error: FilterError, examples: string[]): Html {
+  return lines(html`❌ فیلتر نامعتبر: ${error.message}`, html`نمونه‌ها: ${examples.map(example => html`\n• ${code(example)}`)}`);
+}
+
+// Sends an inline keyboard with the chat's most used tags/locations for a transaction saved without them,
+// leading with the suggested tag so it can be confirmed in one tap.
+// Best effort: the transaction is already saved, so failures are only logged.
+async function offerTagging(
+  env: AppEnv,
+  chatId: number,
+  ledger: LedgerAccess,
+  transactionId: number,
+  parsedData: TransactionData,
+  suggestion: TagSuggestion | null
+): Promise<void> {
+  try {
+    const report = await generateTransactionReport(env, ledger.dataChatId);
+    const keyboard = buildTaggingKeyboard(transactionId, {
+      tags: parsedData.tag ? [] : mostUsed(report.byTag, 6),
+      locations: parsedData.location !== 'Unknown' ? [] : mostUsed(report.byLocation, 4),
+      suggestedTag: suggestion?.tag,
+    });
+    if (keyboard) {
+      const prompt = suggestion
+        ? html`🏷 تگ پیشنهادی تراکنش ${code(transactionId)} را تأیید کنید یا گزینه دیگری انتخاب کنید:`
+        : html`🏷 تگ یا مکان تراکنش ${code(transactionId)} را انتخاب کنید:`;
+      await enqueueMessage(env.DB, chatId, prompt, { replyMarkup: keyboard });
+    }
+  } catch (error) {
+    env.log.error('Failed to offer tagging keyboard', { error, transactionId });
+  }
+}
+
+// One message per report; its buttons browse locations, tags and transaction pages in place
+async function sendInteractiveReport(
+  env: AppEnv,
+  chatId: number,
+  ledger: LedgerAccess,
+  filters: ReportFilters,
+  title: string | null = null
+): Promise<void> {
+  const report = await generateTransactionReport(env, ledger.dataChatId, filters);
+  const viewId = await createReportView(env.DB, chatId, filters, title);
+  const { text, keyboard } = renderReportPage(report, viewId, undefined, title);
+  await enqueueMessage(env.DB, chatId, text, keyboard ? { replyMarkup: keyboard } : {});
+}
+
+async function handleReportCallback(
+  env: AppEnv,
+  chatId: number,
+  ledger: LedgerAccess,
+  query: TelegramCallbackQuery,
+  callback: { viewId: number; page: ReportPage }
+): Promise<void> {
+  const messageId = query.message?.message_id;
+  const view = await getReportView(env.DB, chatId, callback.viewId);
+  if (!view || !messageId) {
+    if (messageId) {
+      await editMessageReplyMarkup(env.TELEGRAM_TOKEN, chatId, messageId);
+    }
+    await answerCallbackQuery(env.TELEGRAM_TOKEN, query.id, '⌛ این گزارش منقضی شده است؛ دوباره show all بفرستید');
+    return;
+  }
+
+  const report = await buildTransactionReport(env.DB, ledger.dataChatId, view.filters);
+  const { text, keyboard } = renderReportPage(report, view.id, callback.page, view.title);
+  try {
+    await editMessageText(env.TELEGRAM_TOKEN, chatId, messageId, text.value, { replyMarkup: keyboard ?? undefined, parseMode: 'HTML' });
+  } catch (error) {
+    if (!isMessageNotModified(error)) {
+      throw error;
     }
   }
+  await answerCallbackQuery(env.TELEGRAM_TOKEN, query.id);
+}
+
+async function handleCallbackQuery(env: AppEnv, chatId: number, ledger: LedgerAccess, query: TelegramCallbackQuery): Promise<void> {
+  const reportCallback = parseReportCallback(query.data);
+  if (reportCallback) {
+    await handleReportCallback(env, chatId, ledger, query, reportCallback);
+    return;
+  }
+
+  const callback = parseTagCallback(query.data);
+  const messageId = query.message?.message_id;
+  if (!callback || !messageId) {
+    await answerCallbackQuery(env.TELEGRAM_TOKEN, query.id, '⚠️ دکمه نامعتبر است');
+    return;
+  }
+
+  if (callback.action === 'skip') {
+    await editMessageReplyMarkup(env.TELEGRAM_TOKEN, chatId, messageId);
+    await answerCallbackQuery(env.TELEGRAM_TOKEN, query.id);
+    return;
+  }
+  if (!canWrite(ledger)) {
+    await answerCallbackQuery(env.TELEGRAM_TOKEN, query.id, '⛔ دسترسی شما به این دفتر فقط خواندنی است');
+    return;
+  }
+
+  const updated = await updateTransaction(env.DB, ledger.dataChatId, callback.transactionId, { [callback.action]: callback.value });
+  if (!updated) {
+    await editMessageReplyMarkup(env.TELEGRAM_TOKEN, chatId, messageId);
+    await answerCallbackQuery(env.TELEGRAM_TOKEN, query.id, `❌ تراکنش ${callback.transactionId} پیدا نشد`);
+    return;
+  }
+
+  if (callback.action === 'tag') {
+    await notifyBudgetAlerts(env, chatId, ledger, updated);
+  }
+
+  const remaining = removeFieldButtons(query.message?.reply_markup, callback.action);
+  await editMessageReplyMarkup(env.TELEGRAM_TOKEN, chatId, messageId, remaining ?? undefined);
+  await answerCallbackQuery(
+    env.TELEGRAM_TOKEN,
+    query.id,
+    callback.action === 'tag' ? `✅ تگ #${callback.value} ثبت شد` : `✅ مکان ${callback.value} ثبت شد`
+  );
+}
+
+// Queues a user-facing reply for delivery by drainReplies. Build it with ./message so every user value is escaped;
+// internal details belong in env.log, never in the chat.
+async function sendReply(env: AppEnv, chatId: number, message: Html): Promise<void> {
+  if (!chatId) {
+    env.log.error('Cannot send reply: missing chat id');
+    return;
+  }
+
+  try {
+    await enqueueMessage(env.DB, chatId, message);
+  } catch (error) {
+    env.log.error('Failed to queue reply', { error });
+  }
+}
 
-  // Tag Breakdown
-  message += `\n📑 تفکیک بر اساس تگ:\n`;
-  if (Object.keys(report.byTag).length === 0) {
-    message += `⚠️ هیچ تگی یافت نشد.\n`;
-  } else {
-    for (const [tag, data] of Object.entries(report.byTag)) {
-      message += `- ${tag}: ${data.count.toLocaleString('fa-IR')} تراکنش، ` +
-        `برداشت: ${data.totalWithdrawal.toLocaleString('fa-IR')} ریال، ` +
-        `واریز: ${data.totalDeposit.toLocaleString('fa-IR')} ریال\n`;
+// Delivers queued replies; never throws, so it is safe to hand to waitUntil
+async function drainReplies(env: AppEnv): Promise<void> {
+  if (!env.DB || !env.TELEGRAM_TOKEN) {
+    return;
+  }
+  try {
+    await ensureSchema(env.DB);
+    const summary = await drainOutbox(env.DB, env.TELEGRAM_TOKEN, { deadline: Date.now() + DRAIN_TIME_BUDGET_MS, log: env.log });
+    if (summary.sent + summary.retried + summary.failed > 0) {
+      env.log.debug('Outbox drained', { ...summary });
     }
+  } catch (error) {
+    env.log.error('Failed to drain outbox', { error });
+  }
+}
+
+// Lets users quote a failure to the admin, who can find it in the logs table by request_id
+function formatTrackingCode(env: AppEnv): Html {
+  return html`کد پیگیری: ${code(env.log.requestId)}`;
+}
+
+async function saveMessageToD1(env: AppEnv, chatId: number, message: string): Promise<void> {
+  try {
+    const query = `
+      INSERT INTO messages (chat_id, message, timestamp)
+      VALUES (?, ?, ?);
+    `;
+    await env.DB.prepare(query)
+      .bind(chatId, message, Date.now())
+      .run();
+  } catch (error) {
+    env.log.error('Failed to save message', { error });
+    throw new Error('Failed to save message to database');
+  }
+}
+
+async function saveTransactionToD1(
+  env: AppEnv,
+  chatId: number,
+  parsedData: TransactionData,
+  suggestion: TagSuggestion | null = null
+): Promise<number> {
+  const isDuplicate = await checkForDuplicateTransaction(env.DB, chatId, parsedData);
+  if (isDuplicate) {
+    throw new DuplicateTransactionError();
+  }
+
+  try {
+    return await createTransaction(env.DB, chatId, parsedData, suggestion);
+  } catch (error) {
+    throw new Error(`Failed to save transaction to database: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Re-runs reconciliation for the account and returns the gaps next to the new row.
+// A failure here must not turn a saved transaction into an error reply.
+async function checkBalanceContinuity(env: AppEnv, chatId: number, accountNumber: string, transactionId: number): Promise<BalanceGap[]> {
+  try {
+    const gaps = await reconcileAccount(env.DB, chatId, accountNumber);
+    return gaps.filter(gap => gap.id === transactionId || gap.previousId === transactionId);
+  } catch (error) {
+    env.log.error('Balance reconciliation failed', { error, accountNumber });
+    return [];
+  }
+}
+
+// Pairs a new transaction with the other leg of a transfer between the chat's accounts and returns that leg.
+// Like reconciliation, a failure here must not turn a saved transaction into an error reply.
+async function pairTransfer(env: AppEnv, chatId: number, transactionId: number, occurredAt: number): Promise<StoredTransaction | null> {
+  try {
+    const counterpart = findCounterpart(await detectTransfers(env.DB, chatId, occurredAt), transactionId);
+    return counterpart ? await getTransaction(env.DB, chatId, counterpart) : null;
+  } catch (error) {
+    env.log.error('Transfer detection failed', { error, transactionId });
+    return null;
   }
+}
 
-  message += `═══════════════════════\n`;
-  return message;
-}
\ No newline at end of file
+// Logs the report's data warnings; they are about stored rows, not something the user can act on
+async function generateTransactionReport(
+  env: AppEnv,
+  chatId: number,
+  filters: ReportFilters = {}
+): Promise<TransactionReport> {
+  try {
+    const report = await buildTransactionReport(env.DB, chatId, filters);
+    if (report.warnings.length > 0) {
+      env.log.warn('Report contains transactions with an invalid transaction_type', { warnings: report.warnings });
+    }
+    return report;
+  } catch (error) {
+    env.log.error('Failed to generate report', { error, filters });
+    throw new Error('Failed to generate report');
+  }
+}
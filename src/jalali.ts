@@ -0,0 +1,220 @@
+export interface JalaliDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface GregorianDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// Asia/Tehran observed daylight saving (UTC+04:30) until 2022, so offsets come from the
+// runtime's time zone database instead of a fixed UTC+03:30
+const tehranFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Asia/Tehran',
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+// Years in which the 33-year leap cycle of the Jalali calendar is reset (jalaali-js algorithm)
+const BREAKS = [-61, 9, 38, 199, 426, 686, 756, 818, 1111, 1181, 1210, 1635, 2060, 2097, 2192, 2262, 2324, 2394, 2456, 3178];
+
+// Julian day number of 1970-01-01
+const UNIX_EPOCH_JDN = 2440588;
+
+export function isValidJalaliDate(year: number, month: number, day: number): boolean {
+  return (
+    Number.isInteger(year) && Number.isInteger(month) && Number.isInteger(day) &&
+    year >= BREAKS[0] + 1 && year < BREAKS[BREAKS.length - 1] &&
+    month >= 1 && month <= 12 &&
+    day >= 1 && day <= jalaliMonthLength(year, month)
+  );
+}
+
+export function isJalaliLeapYear(year: number): boolean {
+  return jalCal(year).leap === 0;
+}
+
+export function jalaliMonthLength(year: number, month: number): number {
+  if (month <= 6) return 31;
+  if (month <= 11) return 30;
+  return isJalaliLeapYear(year) ? 30 : 29;
+}
+
+export function toGregorian(date: JalaliDate): GregorianDate {
+  const { year, month, day } = julianDayToGregorian(jalaliToJulianDay(date));
+  return { year, month, day };
+}
+
+export function toJalali(date: GregorianDate): JalaliDate {
+  return julianDayToJalali(gregorianToJulianDay(date.year, date.month, date.day));
+}
+
+// Days since 1970-01-01, convenient for date arithmetic and Date.UTC round trips
+export function jalaliToEpochDay(date: JalaliDate): number {
+  return jalaliToJulianDay(date) - UNIX_EPOCH_JDN;
+}
+
+export function epochDayToJalali(epochDay: number): JalaliDate {
+  return julianDayToJalali(epochDay + UNIX_EPOCH_JDN);
+}
+
+export function addJalaliDays(date: JalaliDate, days: number): JalaliDate {
+  return epochDayToJalali(jalaliToEpochDay(date) + days);
+}
+
+export function tehranToday(now: number = Date.now()): JalaliDate {
+  const tehranMs = now + tehranOffsetMinutes(now) * 60000;
+  return epochDayToJalali(Math.floor(tehranMs / 86400000));
+}
+
+// Minutes since midnight on a clock in Tehran
+export function tehranMinuteOfDay(now: number = Date.now()): number {
+  const tehranMs = now + tehranOffsetMinutes(now) * 60000;
+  return Math.floor((((tehranMs % 86400000) + 86400000) % 86400000) / 60000);
+}
+
+// 0 for Saturday, the first day of the Iranian week, through 6 for Friday
+export function jalaliWeekday(date: JalaliDate): number {
+  // 1970-01-01 was a Thursday
+  return (((jalaliToEpochDay(date) + 5) % 7) + 7) % 7;
+}
+
+// Minutes Tehran wall-clock time is ahead of UTC at the given instant
+export function tehranOffsetMinutes(utcMs: number): number {
+  const parts: Record<string, number> = {};
+  for (const part of tehranFormatter.formatToParts(new Date(utcMs))) {
+    parts[part.type] = Number(part.value);
+  }
+  const wallClockMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClockMs - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+// Epoch milliseconds for a Jalali date (YYYY/MM/DD) and time (HH:MM[:SS]) read on a clock in Tehran
+export function jalaliDateTimeToEpoch(date: string, time: string): number {
+  const jalali = parseJalaliDate(date);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  if (!jalali || [hours, minutes, seconds].some(isNaN)) {
+    throw new Error(`Invalid Jalali date/time: ${date} ${time}`);
+  }
+
+  const wallClockMs = jalaliToEpochDay(jalali) * 86400000 + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  // Guess with the offset at the wall-clock instant, then correct once around DST switches
+  const guess = wallClockMs - tehranOffsetMinutes(wallClockMs) * 60000;
+  return wallClockMs - tehranOffsetMinutes(guess) * 60000;
+}
+
+export function formatJalaliDate(date: JalaliDate): string {
+  return `${date.year}/${pad(date.month)}/${pad(date.day)}`;
+}
+
+// Accepts YYYY/MM/DD or YYYY-MM-DD (single-digit month/day allowed); returns null for invalid dates
+export function parseJalaliDate(value: string): JalaliDate | null {
+  const match = value.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  return isValidJalaliDate(year, month, day) ? { year, month, day } : null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function div(a: number, b: number): number {
+  return ~~(a / b);
+}
+
+function mod(a: number, b: number): number {
+  return a - ~~(a / b) * b;
+}
+
+function jalCal(jy: number): { leap: number; gy: number; march: number } {
+  const gy = jy + 621;
+  let leapJ = -14;
+  let jp = BREAKS[0];
+  let jump = 0;
+
+  if (jy < jp || jy >= BREAKS[BREAKS.length - 1]) {
+    throw new Error(`Invalid Jalali year ${jy}`);
+  }
+
+  for (let i = 1; i < BREAKS.length; i++) {
+    const jm = BREAKS[i];
+    jump = jm - jp;
+    if (jy < jm) break;
+    leapJ = leapJ + div(jump, 33) * 8 + div(mod(jump, 33), 4);
+    jp = jm;
+  }
+
+  let n = jy - jp;
+  leapJ = leapJ + div(n, 33) * 8 + div(mod(n, 33) + 3, 4);
+  if (mod(jump, 33) === 4 && jump - n === 4) {
+    leapJ += 1;
+  }
+
+  const leapG = div(gy, 4) - div((div(gy, 100) + 1) * 3, 4) - 150;
+  const march = 20 + leapJ - leapG;
+
+  if (jump - n < 6) {
+    n = n - jump + div(jump + 4, 33) * 33;
+  }
+  let leap = mod(mod(n + 1, 33) - 1, 4);
+  if (leap === -1) {
+    leap = 4;
+  }
+
+  return { leap, gy, march };
+}
+
+function jalaliToJulianDay({ year, month, day }: JalaliDate): number {
+  const r = jalCal(year);
+  return gregorianToJulianDay(r.gy, 3, r.march) + (month - 1) * 31 - div(month, 7) * (month - 7) + day - 1;
+}
+
+function julianDayToJalali(jdn: number): JalaliDate {
+  const gy = julianDayToGregorian(jdn).year;
+  let jy = gy - 621;
+  const r = jalCal(jy);
+  const jdn1f = gregorianToJulianDay(gy, 3, r.march);
+  let k = jdn - jdn1f;
+
+  if (k >= 0) {
+    if (k <= 185) {
+      return { year: jy, month: 1 + div(k, 31), day: mod(k, 31) + 1 };
+    }
+    k -= 186;
+  } else {
+    jy -= 1;
+    k += 179;
+    if (r.leap === 1) {
+      k += 1;
+    }
+  }
+
+  return { year: jy, month: 7 + div(k, 30), day: mod(k, 30) + 1 };
+}
+
+function gregorianToJulianDay(gy: number, gm: number, gd: number): number {
+  let d = div((gy + div(gm - 8, 6) + 100100) * 1461, 4) + div(153 * mod(gm + 9, 12) + 2, 5) + gd - 34840408;
+  d = d - div(div(gy + 100100 + div(gm - 8, 6), 100) * 3, 4) + 752;
+  return d;
+}
+
+function julianDayToGregorian(jdn: number): GregorianDate {
+  let j = 4 * jdn + 139361631;
+  j = j + div(div(4 * jdn + 183187720, 146097) * 3, 4) * 4 - 3908;
+  const i = div(mod(j, 1461), 4) * 5 + 308;
+  const day = div(mod(i, 153), 5) + 1;
+  const month = mod(div(i, 153), 12) + 1;
+  const year = div(j, 1461) - 100100 + div(8 - month, 6);
+  return { year, month, day };
+}
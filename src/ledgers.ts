@@ -0,0 +1,291 @@
+import { bold, code, html, Html, lines } from './message';
+
+// A ledger lets several Telegram users share one set of transactions. Its rows stay under the chat_id of
+// the chat it was created in; every chat linked to it works on that chat_id, so the rest of the code keeps
+// filtering by a single chat_id. Chats that are not linked to a ledger work on their own chat_id as before.
+
+export type LedgerRole = 'owner' | 'member' | 'viewer';
+
+export interface Ledger {
+  id: number;
+  name: string;
+  home_chat_id: number;
+  created_by: number;
+  created_at: number;
+}
+
+export interface LedgerMember {
+  ledger_id: number;
+  user_id: number;
+  name: string | null;
+  role: LedgerRole;
+  joined_at: number;
+}
+
+// What a chat, and the user writing in it, may do with the data it sees
+export interface LedgerAccess {
+  ledger: Ledger | null;
+  // The chat_id the chat's transactions, budgets, rules and tokens are stored under
+  dataChatId: number;
+  role: LedgerRole;
+  userId: number | null;
+}
+
+export interface LedgerUser {
+  id: number;
+  name: string;
+}
+
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const ROLE_LABELS: Record<LedgerRole, string> = {
+  owner: 'مالک',
+  member: 'عضو',
+  viewer: 'فقط خواندنی',
+};
+
+// No 0/O or 1/I, so codes survive being read aloud or retyped
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_LENGTH = 10;
+
+export async function resolveLedger(db: D1Database, chatId: number, userId: number | null = null): Promise<LedgerAccess> {
+  const row = await db.prepare(`
+    SELECT l.*, m.role AS member_role
+    FROM ledger_chats c
+    JOIN ledgers l ON l.id = c.ledger_id
+    LEFT JOIN ledger_members m ON m.ledger_id = l.id AND m.user_id = ?
+    WHERE c.chat_id = ?
+  `).bind(userId, chatId).first<Ledger & { member_role: LedgerRole | null }>();
+
+  if (!row) {
+    return { ledger: null, dataChatId: chatId, role: 'owner', userId };
+  }
+  const { member_role, ...ledger } = row;
+  // Someone in a linked group chat who never joined the ledger can only look
+  return { ledger, dataChatId: ledger.home_chat_id, role: member_role ?? 'viewer', userId };
+}
+
+export function canWrite(access: LedgerAccess): boolean {
+  return access.role !== 'viewer';
+}
+
+export function assertCanWrite(access: LedgerAccess): void {
+  if (!canWrite(access)) {
+    throw new LedgerError('دسترسی شما به این دفتر فقط خواندنی است.');
+  }
+}
+
+export function parseLedgerRole(text: string | undefined): Exclude<LedgerRole, 'owner'> | null {
+  const value = (text || 'member').trim().toLowerCase();
+  if (value === 'member') {
+    return 'member';
+  }
+  return ['viewer', 'readonly', 'read-only'].includes(value) ? 'viewer' : null;
+}
+
+// Shares the chat's existing data as a new ledger owned by the user
+export async function createLedger(db: D1Database, chatId: number, owner: LedgerUser, name: string, now: number = Date.now()): Promise<number> {
+  if ((await resolveLedger(db, chatId)).ledger) {
+    throw new LedgerError('این گفتگو همین حالا به یک دفتر مشترک متصل است.');
+  }
+
+  const statements = [
+    db.prepare(`INSERT INTO ledgers (name, home_chat_id, created_by, created_at) VALUES (?, ?, ?, ?)`).bind(name, chatId, owner.id, now),
+    db.prepare(`INSERT INTO ledger_members (ledger_id, user_id, name, role, joined_at) SELECT id, ?, ?, 'owner', ? FROM ledgers WHERE home_chat_id = ?`)
+      .bind(owner.id, owner.name, now, chatId),
+    db.prepare(`INSERT INTO ledger_chats (chat_id, ledger_id, linked_by, linked_at) SELECT ?, id, ?, ? FROM ledgers WHERE home_chat_id = ?`)
+      .bind(chatId, owner.id, now, chatId),
+  ];
+  // Everything in a private chat was sent by its owner, so older rows can be attributed
+  if (chatId === owner.id) {
+    statements.push(db.prepare(`UPDATE transactions SET submitted_by = ? WHERE chat_id = ? AND submitted_by IS NULL`).bind(owner.id, chatId));
+  }
+  const [created] = await db.batch(statements);
+  return created.meta.last_row_id;
+}
+
+export async function createInvite(
+  db: D1Database,
+  access: LedgerAccess,
+  role: Exclude<LedgerRole, 'owner'>,
+  now: number = Date.now()
+): Promise<string> {
+  const ledger = requireOwner(access);
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_LENGTH));
+  const code = [...bytes].map(byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+  await db.prepare(`INSERT INTO ledger_invites (code, ledger_id, role, created_by, created_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)`)
+    .bind(code, ledger.id, role, access.userId, now, now + INVITE_TTL_MS)
+    .run();
+  return code;
+}
+
+// Redeems an invite: the user becomes a member and this chat switches to the ledger
+export async function joinLedger(db: D1Database, chatId: number, user: LedgerUser, code: string, now: number = Date.now()): Promise<Ledger> {
+  const current = await resolveLedger(db, chatId, user.id);
+  if (current.ledger && current.ledger.home_chat_id === chatId) {
+    throw new LedgerError('این گفتگو خودش یک دفتر مشترک دارد و نمی‌تواند به دفتر دیگری بپیوندد.');
+  }
+
+  // Linking a group shows the ledger to everyone in it, so only the owner may do that
+  if (chatId !== user.id) {
+    const owner = await db.prepare(`
+      SELECT 1 AS found FROM ledger_invites i
+      JOIN ledger_members m ON m.ledger_id = i.ledger_id AND m.user_id = ? AND m.role = 'owner'
+      WHERE i.code = ?
+    `).bind(user.id, code.trim().toUpperCase()).first();
+    if (!owner) {
+      throw new LedgerError('کد دعوت را در گفتگوی خصوصی خود با ربات بفرستید. فقط مالک دفتر می‌تواند یک گروه را به آن متصل کند.');
+    }
+  }
+
+  // Claimed before use, so a code works exactly once even when two people redeem it together
+  const claim = await db.prepare(`
+    UPDATE ledger_invites SET used_by = ?, used_at = ?
+    WHERE code = ? AND used_by IS NULL AND expires_at > ?
+  `).bind(user.id, now, code.trim().toUpperCase(), now).run();
+  if (claim.meta.changes === 0) {
+    throw new LedgerError('کد دعوت نامعتبر یا منقضی شده است.');
+  }
+
+  const invite = await db.prepare(`SELECT ledger_id, role FROM ledger_invites WHERE code = ?`)
+    .bind(code.trim().toUpperCase())
+    .first<{ ledger_id: number; role: LedgerRole }>();
+  await db.batch([
+    // An owner keeps their role when redeeming a code for their own ledger
+    db.prepare(`
+      INSERT INTO ledger_members (ledger_id, user_id, name, role, joined_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (ledger_id, user_id) DO UPDATE SET
+        name = excluded.name,
+        role = CASE WHEN ledger_members.role = 'owner' THEN 'owner' ELSE excluded.role END
+    `).bind(invite!.ledger_id, user.id, user.name, invite!.role, now),
+    db.prepare(`
+      INSERT INTO ledger_chats (chat_id, ledger_id, linked_by, linked_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (chat_id) DO UPDATE SET ledger_id = excluded.ledger_id, linked_by = excluded.linked_by, linked_at = excluded.linked_at
+    `).bind(chatId, invite!.ledger_id, user.id, now),
+  ]);
+  return (await db.prepare(`SELECT * FROM ledgers WHERE id = ?`).bind(invite!.ledger_id).first<Ledger>())!;
+}
+
+// The user leaves the ledger; chats they linked go back to their own data
+export async function leaveLedger(db: D1Database, access: LedgerAccess): Promise<Ledger> {
+  if (!access.ledger || access.userId === null) {
+    throw new LedgerError('این گفتگو به دفتر مشترکی متصل نیست.');
+  }
+  if (access.role === 'owner') {
+    throw new LedgerError('مالک نمی‌تواند دفتر را ترک کند.');
+  }
+  await deleteMembership(db, access.ledger.id, access.userId);
+  return access.ledger;
+}
+
+export async function removeMember(db: D1Database, access: LedgerAccess, userId: number): Promise<boolean> {
+  const ledger = requireOwner(access);
+  if (userId === access.userId) {
+    throw new LedgerError('مالک نمی‌تواند خودش را حذف کند.');
+  }
+  return deleteMembership(db, ledger.id, userId);
+}
+
+export async function setMemberRole(
+  db: D1Database,
+  access: LedgerAccess,
+  userId: number,
+  role: Exclude<LedgerRole, 'owner'>
+): Promise<boolean> {
+  const ledger = requireOwner(access);
+  const statements = [
+    db.prepare(`UPDATE ledger_members SET role = ? WHERE ledger_id = ? AND user_id = ? AND role != 'owner'`).bind(role, ledger.id, userId),
+  ];
+  // Tokens give write access through the API, which a read-only member no longer has
+  if (role === 'viewer') {
+    statements.push(revokeTokensStatement(db, ledger.id, userId));
+  }
+  const [updated] = await db.batch(statements);
+  return updated.meta.changes > 0;
+}
+
+export async function listMembers(db: D1Database, ledgerId: number): Promise<LedgerMember[]> {
+  const result = await db.prepare(`SELECT * FROM ledger_members WHERE ledger_id = ? ORDER BY joined_at, user_id`)
+    .bind(ledgerId)
+    .all<LedgerMember>();
+  return result.results;
+}
+
+// user_id -> display name for the members of the ledger stored under this chat_id, if any
+export async function getMemberNames(db: D1Database, chatId: number): Promise<Record<number, string>> {
+  const result = await db.prepare(`
+    SELECT m.user_id, m.name FROM ledgers l JOIN ledger_members m ON m.ledger_id = l.id WHERE l.home_chat_id = ?
+  `).bind(chatId).all<{ user_id: number; name: string | null }>();
+
+  const names: Record<number, string> = {};
+  for (const row of result.results) {
+    if (row.name) {
+      names[row.user_id] = row.name;
+    }
+  }
+  return names;
+}
+
+export function formatLedger(access: LedgerAccess, members: LedgerMember[]): Html {
+  if (!access.ledger) {
+    return lines(
+      '📒 این گفتگو دفتر شخصی خودش را دارد.',
+      '',
+      html`برای اشتراک آن با دیگران: ${code('/ledger new <نام>')}`,
+      html`برای پیوستن به دفتر دیگری: ${code('/ledger join <کد دعوت>')}`
+    );
+  }
+  return lines(
+    html`📒 ${bold(access.ledger.name)}`,
+    html`نقش شما: ${ROLE_LABELS[access.role]}`,
+    '',
+    bold('👥 اعضا:'),
+    ...members.map(member => html`• ${member.name || 'بی‌نام'} ${code(member.user_id)} | ${ROLE_LABELS[member.role]}`),
+    access.role === 'owner' && lines(
+      '',
+      html`دعوت: ${code('/ledger invite member')} یا ${code('/ledger invite viewer')}`,
+      html`تغییر نقش: ${code('/ledger role <شناسه کاربر> member|viewer')}`,
+      html`حذف عضو: ${code('/ledger remove <شناسه کاربر>')}`
+    ),
+    access.role !== 'owner' && html`\nترک دفتر: ${code('/ledger leave')}`
+  );
+}
+
+function requireOwner(access: LedgerAccess): Ledger {
+  if (!access.ledger) {
+    throw new LedgerError(`این گفتگو به دفتر مشترکی متصل نیست. ابتدا با /ledger new <نام> یک دفتر بسازید.`);
+  }
+  if (access.role !== 'owner') {
+    throw new LedgerError('فقط مالک دفتر می‌تواند این کار را انجام دهد.');
+  }
+  return access.ledger;
+}
+
+async function deleteMembership(db: D1Database, ledgerId: number, userId: number): Promise<boolean> {
+  const [removed] = await db.batch([
+    db.prepare(`DELETE FROM ledger_members WHERE ledger_id = ? AND user_id = ? AND role != 'owner'`).bind(ledgerId, userId),
+    revokeTokensStatement(db, ledgerId, userId),
+    // The home chat always stays linked
+    db.prepare(`
+      DELETE FROM ledger_chats
+      WHERE ledger_id = ? AND linked_by = ? AND chat_id != (SELECT home_chat_id FROM ledgers WHERE id = ?)
+    `).bind(ledgerId, userId, ledgerId),
+  ]);
+  return removed.meta.changes > 0;
+}
+
+// The user's API tokens for the ledger's data; the owner's are never touched
+function revokeTokensStatement(db: D1Database, ledgerId: number, userId: number): D1PreparedStatement {
+  return db.prepare(`
+    DELETE FROM api_tokens
+    WHERE chat_id = (SELECT home_chat_id FROM ledgers WHERE id = ?) AND created_by = ?
+      AND NOT EXISTS (SELECT 1 FROM ledger_members WHERE ledger_id = ? AND user_id = ? AND role = 'owner')
+  `).bind(ledgerId, userId, ledgerId, userId);
+}
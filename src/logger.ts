@@ -0,0 +1,128 @@
+import { sendMessage } from './telegram';
+
+// Operational logging: every entry goes to the console as one JSON line, entries at or above
+// LOG_LEVEL are stored in the D1 `logs` table and errors are forwarded to ADMIN_CHAT_ID.
+// Users' chats only ever get the friendly replies the handlers send themselves.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: number;
+  level: LogLevel;
+  requestId: string;
+  chatId: number | null;
+  message: string;
+  context?: Record<string, unknown>;
+}
+
+// The subset of the worker's Env logging needs; any binding may be missing when configuration is broken
+export interface LoggerEnv {
+  DB?: D1Database;
+  TELEGRAM_TOKEN?: string;
+  ADMIN_CHAT_ID?: string;
+  LOG_LEVEL?: string;
+}
+
+export interface Logger {
+  readonly requestId: string;
+  // Attached to every later entry once the update's chat is known
+  setChatId(chatId: number): void;
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+  // Waits for pending D1 writes and admin messages; pass to ctx.waitUntil
+  flush(): Promise<void>;
+}
+
+export const LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+const MAX_ADMIN_MESSAGE_LENGTH = 4000;
+
+export function createLogger(env: LoggerEnv, options: { requestId?: string; chatId?: number | null } = {}): Logger {
+  const requestId = options.requestId || crypto.randomUUID();
+  const minLevel = parseLogLevel(env.LOG_LEVEL);
+  const adminChatId = Number(env.ADMIN_CHAT_ID);
+  let chatId = options.chatId ?? null;
+  const pending: Promise<void>[] = [];
+
+  const write = (level: LogLevel, message: string, context?: Record<string, unknown>) => {
+    const entry: LogEntry = { timestamp: Date.now(), level, requestId, chatId, message, ...(context ? { context: serializeContext(context) } : {}) };
+    const line = JSON.stringify(entry);
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+
+    if (env.DB && LEVELS.indexOf(level) >= LEVELS.indexOf(minLevel)) {
+      pending.push(storeLogEntry(env.DB, entry).catch(error => {
+        console.error(JSON.stringify({ level: 'error', requestId, message: 'Failed to store log entry', error: serializeError(error) }));
+      }));
+    }
+    if (level === 'error' && env.TELEGRAM_TOKEN && Number.isSafeInteger(adminChatId) && adminChatId !== 0) {
+      pending.push(
+        sendMessage(env.TELEGRAM_TOKEN, adminChatId, formatAdminMessage(entry)).then(() => undefined, error => {
+          console.error(JSON.stringify({ level: 'error', requestId, message: 'Failed to forward log to admin chat', error: serializeError(error) }));
+        })
+      );
+    }
+  };
+
+  return {
+    requestId,
+    setChatId(id: number) {
+      chatId = id;
+    },
+    debug: (message, context) => write('debug', message, context),
+    info: (message, context) => write('info', message, context),
+    warn: (message, context) => write('warn', message, context),
+    error: (message, context) => write('error', message, context),
+    async flush() {
+      while (pending.length > 0) {
+        await Promise.all(pending.splice(0));
+      }
+    },
+  };
+}
+
+export function parseLogLevel(value: string | undefined): LogLevel {
+  const level = value?.trim().toLowerCase() as LogLevel;
+  return LEVELS.includes(level) ? level : 'info';
+}
+
+export async function storeLogEntry(db: D1Database, entry: LogEntry): Promise<void> {
+  await db.prepare(`INSERT INTO logs (timestamp, level, request_id, chat_id, message, context) VALUES (?, ?, ?, ?, ?, ?)`)
+    .bind(entry.timestamp, entry.level, entry.requestId, entry.chatId, entry.message, entry.context ? JSON.stringify(entry.context) : null)
+    .run();
+}
+
+export async function pruneLogs(db: D1Database, now: number = Date.now()): Promise<number> {
+  const result = await db.prepare(`DELETE FROM logs WHERE timestamp < ?`).bind(now - LOG_RETENTION_MS).run();
+  return result.meta.changes;
+}
+
+// Errors do not survive JSON.stringify, so they are flattened to name, message and stack
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { value: String(error) };
+}
+
+function serializeContext(context: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(context).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value])
+  );
+}
+
+function formatAdminMessage(entry: LogEntry): string {
+  const text = `🚨 ${entry.level.toUpperCase()} ${entry.message}\n` +
+    `request: ${entry.requestId}\n` +
+    (entry.chatId !== null ? `chat: ${entry.chatId}\n` : '') +
+    (entry.context ? `\n${JSON.stringify(entry.context, null, 2)}` : '');
+  return text.length > MAX_ADMIN_MESSAGE_LENGTH ? `${text.slice(0, MAX_ADMIN_MESSAGE_LENGTH - 1)}…` : text;
+}
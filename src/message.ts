@@ -0,0 +1,181 @@
+// Builds bot replies as Telegram HTML (parse_mode 'HTML'). Every value interpolated into html`` is escaped
+// unless it already is Html, so tags, locations and other user text can never break a message's markup.
+
+export class Html {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export type HtmlValue = Html | string | number | null | undefined | false | HtmlValue[];
+
+const LEFT_TO_RIGHT_ISOLATE = new Html('\u2066');
+const POP_DIRECTIONAL_ISOLATE = new Html('\u2069');
+
+// Telegram's HTML accepts only these entities, and numeric ones
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): Html {
+  return new Html(strings.reduce((result, part, i) => result + part + (i < values.length ? render(values[i]) : ''), ''));
+}
+
+// Plain text from other modules' formatters, escaped as a whole
+export function plain(text: string): Html {
+  return new Html(escapeHtml(text));
+}
+
+export function bold(value: HtmlValue): Html {
+  return html`<b>${value}</b>`;
+}
+
+export function italic(value: HtmlValue): Html {
+  return html`<i>${value}</i>`;
+}
+
+// Monospace, and tappable to copy in Telegram: ids, account numbers, commands, tokens
+export function code(value: HtmlValue): Html {
+  return ltr(html`<code>${value}</code>`);
+}
+
+// Multi-line details such as sample messages; kept left-to-right so their layout survives in an RTL chat
+export function pre(value: HtmlValue): Html {
+  return html`<pre>${value}</pre>`;
+}
+
+export function link(label: HtmlValue, url: string): Html {
+  return html`<a href="${url}">${label}</a>`;
+}
+
+// Latin text and digits inside a Persian line are isolated so they do not reorder the words around them
+export function ltr(value: HtmlValue): Html {
+  return html`${LEFT_TO_RIGHT_ISOLATE}${value}${POP_DIRECTIONAL_ISOLATE}`;
+}
+
+export function amount(value: number | null | undefined, unit: string = 'ریال'): Html {
+  return html`<b>${(value ?? 0).toLocaleString('fa-IR')}</b> ${unit}`;
+}
+
+export function hashtag(tag: string): Html {
+  return ltr(`#${tag}`);
+}
+
+// One line per part. false, null and undefined are dropped so optional lines can be written inline; '' is a blank line
+export function lines(...parts: HtmlValue[]): Html {
+  return new Html(parts.filter(part => part !== null && part !== undefined && part !== false).map(render).join('\n'));
+}
+
+// The first chunk splitHtml would make, marked with an ellipsis when anything was cut off
+export function truncateHtml(message: Html, maxLength: number): Html {
+  if (message.value.length <= maxLength) {
+    return message;
+  }
+  return new Html(`${splitHtml(message.value, maxLength - 1)[0]}…`);
+}
+
+// What Telegram shows for the message, for sending it again without parse_mode
+export function toPlainText(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, digits) => String.fromCodePoint(Number(digits)))
+    .replace(/&amp;/g, '&');
+}
+
+// Splits at line breaks into chunks of at most maxLength. Tags still open at a cut are closed at the end of
+// the chunk and opened again at the start of the next, so every chunk is valid markup on its own.
+export function splitHtml(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let open: string[] = [];
+  let current = '';
+  let hasContent = false;
+
+  const flush = () => {
+    chunks.push(current + closingTags(open));
+    current = open.join('');
+    hasContent = false;
+  };
+
+  for (const line of text.split('\n')) {
+    const pieces = cutLine(line, maxLength);
+    pieces.forEach((piece, i) => {
+      if (hasContent && (i > 0 || current.length + piece.length + 1 > maxLength)) {
+        flush();
+      }
+      current += (hasContent && i === 0 ? '\n' : '') + piece;
+      hasContent = true;
+      open = trackTags(open, piece);
+    });
+  }
+  if (hasContent || chunks.length === 0) {
+    chunks.push(current + closingTags(open));
+  }
+  return chunks;
+}
+
+function render(value: HtmlValue): string {
+  if (value === null || value === undefined || value === false) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(render).join('');
+  }
+  return value instanceof Html ? value.value : escapeHtml(String(value));
+}
+
+// A line longer than the limit is cut hard, but never inside a tag or an entity
+function cutLine(line: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > maxLength) {
+    let cut = maxLength;
+    const tagStart = rest.lastIndexOf('<', cut - 1);
+    if (tagStart > rest.lastIndexOf('>', cut - 1)) {
+      cut = tagStart;
+    }
+    const entityStart = rest.lastIndexOf('&', cut - 1);
+    if (entityStart > rest.lastIndexOf(';', cut - 1)) {
+      cut = entityStart;
+    }
+    if (cut <= 0) {
+      cut = maxLength;
+    }
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  pieces.push(rest);
+  return pieces;
+}
+
+function trackTags(open: string[], text: string): string[] {
+  const stack = [...open];
+  for (const match of text.matchAll(/<(\/?)([a-z-]+)[^>]*>/gi)) {
+    if (!match[1]) {
+      stack.push(match[0]);
+      continue;
+    }
+    const index = stack.map(tagName).lastIndexOf(match[2].toLowerCase());
+    if (index >= 0) {
+      stack.splice(index, 1);
+    }
+  }
+  return stack;
+}
+
+function closingTags(open: string[]): string {
+  return open.map(tag => `</${tagName(tag)}>`).reverse().join('');
+}
+
+function tagName(tag: string): string {
+  return tag.match(/^<([a-z-]+)/i)![1].toLowerCase();
+}
@@ -0,0 +1,205 @@
+import initial from '../migrations/0001_initial.sql';
+import transactionColumns from '../migrations/0002_transaction_columns.sql';
+import normalizeDates from '../migrations/0003_normalize_dates.sql';
+import accounts from '../migrations/0004_accounts.sql';
+import balanceGaps from '../migrations/0005_balance_gaps.sql';
+import occurredAt from '../migrations/0006_occurred_at.sql';
+import transactionAudit from '../migrations/0007_transaction_audit.sql';
+import tagSuggestions from '../migrations/0008_tag_suggestions.sql';
+import budgets from '../migrations/0009_budgets.sql';
+import subscriptions from '../migrations/0010_subscriptions.sql';
+import apiTokens from '../migrations/0011_api_tokens.sql';
+import reportViews from '../migrations/0012_report_views.sql';
+import logs from '../migrations/0013_logs.sql';
+import outbox from '../migrations/0014_outbox.sql';
+import ledgers from '../migrations/0015_ledgers.sql';
+import transfers from '../migrations/0016_transfers.sql';
+import recurring from '../migrations/0017_recurring.sql';
+import apiTokenOwner from '../migrations/0018_api_token_owner.sql';
+import transferDismissals from '../migrations/0019_transfer_dismissals.sql';
+import recurringChecks from '../migrations/0020_recurring_checks.sql';
+import { jalaliDateTimeToEpoch } from './jalali';
+import { detectTransfers } from './transfers';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  // Data fix-ups that SQL alone cannot express; runs after the statements, and a failure undoes the version claim
+  backfill?: (db: D1Database) => Promise<void>;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+// Keep this list in the same order as the numbered files in /migrations
+export const MIGRATIONS: Migration[] = [
+  { version: 1, name: '0001_initial', sql: initial },
+  { version: 2, name: '0002_transaction_columns', sql: transactionColumns },
+  { version: 3, name: '0003_normalize_dates', sql: normalizeDates },
+  { version: 4, name: '0004_accounts', sql: accounts },
+  { version: 5, name: '0005_balance_gaps', sql: balanceGaps },
+  { version: 6, name: '0006_occurred_at', sql: occurredAt, backfill: async db => { await backfillOccurredAt(db); } },
+  { version: 7, name: '0007_transaction_audit', sql: transactionAudit },
+  { version: 8, name: '0008_tag_suggestions', sql: tagSuggestions },
+  { version: 9, name: '0009_budgets', sql: budgets },
+  { version: 10, name: '0010_subscriptions', sql: subscriptions },
+  { version: 11, name: '0011_api_tokens', sql: apiTokens },
+  { version: 12, name: '0012_report_views', sql: reportViews },
+  { version: 13, name: '0013_logs', sql: logs },
+  { version: 14, name: '0014_outbox', sql: outbox },
+  { version: 15, name: '0015_ledgers', sql: ledgers },
+  { version: 16, name: '0016_transfers', sql: transfers },
+  { version: 17, name: '0017_recurring', sql: recurring },
+  { version: 18, name: '0018_api_token_owner', sql: apiTokenOwner },
+  // Pairing reads transfer_dismissals, so existing transfers are paired once that table exists
+  { version: 19, name: '0019_transfer_dismissals', sql: transferDismissals, backfill: backfillTransfers },
+  { version: 20, name: '0020_recurring_checks', sql: recurringChecks },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Cached per isolate so that only the first request pays for the version check
+let schemaReady: Promise<MigrationResult> | null = null;
+
+export function ensureSchema(db: D1Database): Promise<MigrationResult> {
+  if (!schemaReady) {
+    schemaReady = applyMigrations(db).catch(error => {
+      schemaReady = null;
+      throw error;
+    });
+  }
+  return schemaReady;
+}
+
+export async function getSchemaVersion(db: D1Database): Promise<number> {
+  await db.prepare(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `).run();
+
+  const row = await db.prepare(`SELECT MAX(version) as version FROM schema_version`).first<{ version: number | null }>();
+  return row?.version ?? 0;
+}
+
+export async function applyMigrations(db: D1Database, migrations: Migration[] = MIGRATIONS): Promise<MigrationResult> {
+  const fromVersion = await getSchemaVersion(db);
+  const applied: string[] = [];
+  let toVersion = fromVersion;
+
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) {
+      continue;
+    }
+
+    // The version is claimed before running, so when two isolates migrate at once only one runs each
+    // migration and its backfill; the other stops here and leaves the rest to it
+    const claimed = await db.prepare(`INSERT OR IGNORE INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)`)
+      .bind(migration.version, migration.name, Date.now())
+      .run();
+    if (claimed.meta.changes === 0) {
+      break;
+    }
+
+    try {
+      await runMigration(db, migration);
+    } catch (error) {
+      // Released so that the next request tries again
+      await db.prepare(`DELETE FROM schema_version WHERE version = ?`).bind(migration.version).run();
+      throw error;
+    }
+    applied.push(migration.name);
+    toVersion = migration.version;
+  }
+
+  return { fromVersion, toVersion, applied };
+}
+
+async function runMigration(db: D1Database, migration: Migration): Promise<void> {
+  for (const statement of splitStatements(migration.sql)) {
+    try {
+      await db.prepare(statement).run();
+    } catch (error) {
+      if (isDuplicateColumnError(statement, error)) {
+        continue;
+      }
+      throw new Error(`Migration ${migration.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (migration.backfill) {
+    await migration.backfill(db);
+  }
+}
+
+const BACKFILL_BATCH_SIZE = 500;
+
+// Fills occurred_at for rows saved before the column existed. Rows whose date or time
+// cannot be read are left NULL and reported in the returned count of skipped rows.
+export async function backfillOccurredAt(db: D1Database): Promise<{ updated: number; skipped: number }> {
+  let lastId = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  for (;;) {
+    const result = await db.prepare(`
+      SELECT id, date, time FROM transactions
+      WHERE occurred_at IS NULL AND id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `).bind(lastId, BACKFILL_BATCH_SIZE).all<{ id: number; date: string; time: string }>();
+
+    if (result.results.length === 0) {
+      break;
+    }
+
+    const updates: D1PreparedStatement[] = [];
+    for (const row of result.results) {
+      try {
+        updates.push(db.prepare(`UPDATE transactions SET occurred_at = ? WHERE id = ?`)
+          .bind(jalaliDateTimeToEpoch(row.date, row.time), row.id));
+      } catch {
+        skipped++;
+      }
+    }
+    if (updates.length > 0) {
+      await db.batch(updates);
+    }
+
+    updated += updates.length;
+    lastId = result.results[result.results.length - 1].id;
+  }
+
+  return { updated, skipped };
+}
+
+// Pairs up transfers already in the database, one chat at a time
+async function backfillTransfers(db: D1Database): Promise<void> {
+  const chats = await db.prepare(`SELECT DISTINCT chat_id FROM transactions`).all<{ chat_id: number }>();
+  for (const { chat_id } of chats.results) {
+    await detectTransfers(db, chat_id);
+  }
+}
+
+export function splitStatements(sql: string): string[] {
+  return sql
+    .split('\n')
+    .filter(line => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(';')
+    .map(statement => statement.trim())
+    .filter(statement => statement);
+}
+
+// Databases created before versioning may already have columns that a
+// migration adds, and SQLite has no ADD COLUMN IF NOT EXISTS.
+function isDuplicateColumnError(statement: string, error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /ADD\s+COLUMN/i.test(statement) && /duplicate column/i.test(message);
+}
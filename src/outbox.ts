@@ -0,0 +1,234 @@
+import { Logger } from './logger';
+import { Html, splitHtml, toPlainText } from './message';
+import { InlineKeyboardMarkup, sendMessage, TelegramError } from './telegram';
+
+// D1-backed queue for outgoing Telegram messages. Handlers enqueue and return; drainOutbox delivers in the
+// background after the response and from the cron. Every chunk is a row of its own that is claimed before it
+// is sent, so a delivered chunk is never sent again, and a chat's chunks go out strictly in order.
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+export type ParseMode = 'Markdown' | 'MarkdownV2' | 'HTML';
+
+export interface OutboxMessage {
+  id: number;
+  chat_id: number;
+  text: string;
+  fallback_text: string | null;
+  parse_mode: ParseMode | null;
+  reply_markup: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  claimed_at: number | null;
+  last_error: string | null;
+  created_at: number;
+  sent_at: number | null;
+}
+
+export interface DrainSummary {
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// Slightly below Telegram's 4096 limit for safety
+export const MAX_MESSAGE_LENGTH = 4000;
+export const MAX_DELIVERY_ATTEMPTS = 5;
+// A claim this old belongs to an invocation that died mid-send; the chunk may or may not have arrived
+export const STALE_CLAIM_MS = 2 * 60 * 1000;
+export const OUTBOX_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RETRY_BASE_MS = 2000;
+const DRAIN_BATCH_SIZE = 20;
+
+export function splitMessage(text: string, maxLength: number = MAX_MESSAGE_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const line of text.split('\n')) {
+    if (current && current.length + line.length + 1 > maxLength) {
+      chunks.push(current);
+      current = '';
+    }
+    // A single line longer than the limit is cut hard
+    for (let rest = line; ; rest = rest.slice(maxLength)) {
+      if (rest.length <= maxLength) {
+        current += (current ? '\n' : '') + rest;
+        break;
+      }
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      chunks.push(rest.slice(0, maxLength));
+    }
+  }
+  if (current || chunks.length === 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// Splits the message into numbered chunks and queues them; the keyboard goes on the last chunk.
+// Html is sent with parse_mode HTML and keeps its plain text as the fallback; strings are sent as they are.
+export async function enqueueMessage(
+  db: D1Database,
+  chatId: number,
+  message: string | Html,
+  options: { replyMarkup?: InlineKeyboardMarkup } = {},
+  now: number = Date.now()
+): Promise<number[]> {
+  const isHtml = message instanceof Html;
+  const chunks = isHtml ? splitHtml(message.value, MAX_MESSAGE_LENGTH) : splitMessage(message);
+  const statements = chunks.map((chunk, i) => {
+    const text = chunks.length > 1 ? `[${i + 1}/${chunks.length}] ${chunk}` : chunk;
+    const markup = i === chunks.length - 1 && options.replyMarkup ? JSON.stringify(options.replyMarkup) : null;
+    return db.prepare(
+      `INSERT INTO outbox (chat_id, text, fallback_text, parse_mode, reply_markup, next_attempt_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).bind(chatId, text, isHtml ? toPlainText(text) : null, isHtml ? 'HTML' : null, markup, now, now);
+  });
+  const results = await db.batch(statements);
+  return results.map(result => result.meta.last_row_id);
+}
+
+export async function drainOutbox(
+  db: D1Database,
+  token: string,
+  options: { deadline: number; log?: Logger; maxWaitMs?: number }
+): Promise<DrainSummary> {
+  const summary: DrainSummary = { sent: 0, retried: 0, failed: 0 };
+  await releaseStaleClaims(db, Date.now(), options.log);
+
+  while (Date.now() < options.deadline) {
+    const due = await dueMessages(db, Date.now());
+    if (due.length === 0) {
+      // Short rate-limit waits are sat out here, in the background, rather than left for the next cron run
+      const next = await nextAttemptAt(db);
+      const wait = next === null ? Infinity : next - Date.now();
+      if (wait > (options.maxWaitMs ?? 5000) || Date.now() + wait >= options.deadline) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.max(wait, 0)));
+      continue;
+    }
+
+    for (const message of due) {
+      if (Date.now() >= options.deadline) {
+        break;
+      }
+      const outcome = await deliver(db, token, message, options.log);
+      if (outcome) {
+        summary[outcome] += 1;
+      }
+    }
+  }
+  return summary;
+}
+
+export async function pruneOutbox(db: D1Database, now: number = Date.now()): Promise<number> {
+  const result = await db.prepare(`DELETE FROM outbox WHERE status IN ('sent', 'failed') AND created_at < ?`)
+    .bind(now - OUTBOX_RETENTION_MS)
+    .run();
+  return result.meta.changes;
+}
+
+export async function getOutboxMessages(db: D1Database, chatId: number): Promise<OutboxMessage[]> {
+  const result = await db.prepare(`SELECT * FROM outbox WHERE chat_id = ? ORDER BY id`).bind(chatId).all<OutboxMessage>();
+  return result.results;
+}
+
+// Only the oldest unsent chunk of each chat may go out; later chunks wait for it
+const CHAT_HEAD = `
+  o.status = 'pending' AND NOT EXISTS (
+    SELECT 1 FROM outbox AS earlier
+    WHERE earlier.chat_id = o.chat_id AND earlier.status IN ('pending', 'sending') AND earlier.id < o.id
+  )`;
+
+async function dueMessages(db: D1Database, now: number): Promise<OutboxMessage[]> {
+  const result = await db.prepare(`SELECT * FROM outbox AS o WHERE ${CHAT_HEAD} AND o.next_attempt_at <= ? ORDER BY o.id LIMIT ?`)
+    .bind(now, DRAIN_BATCH_SIZE)
+    .all<OutboxMessage>();
+  return result.results;
+}
+
+async function nextAttemptAt(db: D1Database): Promise<number | null> {
+  const row = await db.prepare(`SELECT MIN(o.next_attempt_at) AS next FROM outbox AS o WHERE ${CHAT_HEAD}`)
+    .first<{ next: number | null }>();
+  return row?.next ?? null;
+}
+
+// Resending could duplicate a chunk that did arrive, so interrupted sends are given up and logged instead
+async function releaseStaleClaims(db: D1Database, now: number, log?: Logger): Promise<void> {
+  const result = await db.prepare(
+    `UPDATE outbox SET status = 'failed', last_error = 'Interrupted while sending'
+     WHERE status = 'sending' AND claimed_at < ?`
+  ).bind(now - STALE_CLAIM_MS).run();
+  if (result.meta.changes > 0) {
+    log?.warn('Gave up on outbox messages interrupted while sending', { count: result.meta.changes });
+  }
+}
+
+async function deliver(
+  db: D1Database,
+  token: string,
+  message: OutboxMessage,
+  log?: Logger
+): Promise<keyof DrainSummary | null> {
+  const claimedAt = Date.now();
+  const claim = await db.prepare(`UPDATE outbox SET status = 'sending', claimed_at = ?, attempts = attempts + 1 WHERE id = ? AND status = 'pending'`)
+    .bind(claimedAt, message.id)
+    .run();
+  if (claim.meta.changes === 0) {
+    // Another drain got it first
+    return null;
+  }
+
+  const replyMarkup = message.reply_markup ? JSON.parse(message.reply_markup) as InlineKeyboardMarkup : undefined;
+  try {
+    try {
+      await sendMessage(token, message.chat_id, message.text, { replyMarkup, parseMode: message.parse_mode ?? undefined });
+    } catch (error) {
+      if (!(message.parse_mode && isEntityParseError(error))) {
+        throw error;
+      }
+      log?.warn('Telegram could not parse a formatted message; sending it as plain text', { outboxId: message.id, error });
+      await sendMessage(token, message.chat_id, message.fallback_text ?? message.text, { replyMarkup });
+    }
+  } catch (error) {
+    return await rescheduleOrFail(db, message, error, log);
+  }
+
+  await db.prepare(`UPDATE outbox SET status = 'sent', sent_at = ?, last_error = NULL WHERE id = ?`).bind(Date.now(), message.id).run();
+  return 'sent';
+}
+
+async function rescheduleOrFail(
+  db: D1Database,
+  message: OutboxMessage,
+  error: unknown,
+  log?: Logger
+): Promise<keyof DrainSummary> {
+  const attempts = message.attempts + 1;
+  const description = error instanceof Error ? error.message : String(error);
+  const rateLimited = error instanceof TelegramError && error.status === 429;
+  // 4xx other than 429 (blocked by the user, chat not found, bad request) will not get better with retries
+  const permanent = error instanceof TelegramError && error.status >= 400 && error.status < 500 && !rateLimited;
+
+  if (permanent || (!rateLimited && attempts >= MAX_DELIVERY_ATTEMPTS)) {
+    await db.prepare(`UPDATE outbox SET status = 'failed', last_error = ? WHERE id = ?`).bind(description, message.id).run();
+    log?.error('Outbox message could not be delivered', { outboxId: message.id, chatId: message.chat_id, attempts, error });
+    return 'failed';
+  }
+
+  const delay = rateLimited && error.retryAfter !== undefined
+    ? error.retryAfter * 1000
+    : RETRY_BASE_MS * 2 ** (attempts - 1);
+  await db.prepare(`UPDATE outbox SET status = 'pending', next_attempt_at = ?, last_error = ? WHERE id = ?`)
+    .bind(Date.now() + delay, description, message.id)
+    .run();
+  return 'retried';
+}
+
+function isEntityParseError(error: unknown): boolean {
+  return error instanceof TelegramError && error.status === 400 && /can't parse entities|can't find end of/i.test(error.message);
+}
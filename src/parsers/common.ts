@@ -0,0 +1,234 @@
+import { isValidJalaliDate } from '../jalali';
+
+export interface TransactionData {
+  bank_name: string;
+  account_number: string;
+  transaction_type: 'withdrawal' | 'deposit';
+  withdrawal_amount: number | null;
+  deposit_amount: number | null;
+  transaction_method: string;
+  branch_code: string | null;
+  balance: number;
+  date: string;
+  time: string;
+  location: string;
+  tag: string;
+  // When the SMS was received by us (ms since epoch)
+  timestamp: number;
+  // When the transaction happened: `date` and `time` read as Asia/Tehran local time (ms since epoch)
+  occurred_at: number;
+  // Telegram user who sent the SMS or file, when known
+  submitted_by?: number | null;
+  // Id of the other leg when this is a transfer between the chat's own accounts
+  transfer_id?: number | null;
+}
+
+// What a bank parser extracts; occurred_at is derived from date and time by parseTransaction
+export type ParsedTransaction = Omit<TransactionData, 'occurred_at'>;
+
+export interface ParseAttempt {
+  parser: string;
+  confidence: number;
+  reason: string;
+}
+
+export class ParseError extends Error {
+  attempts: ParseAttempt[];
+
+  constructor(message: string, attempts: ParseAttempt[] = []) {
+    super(message);
+    this.name = 'ParseError';
+    this.attempts = attempts;
+  }
+}
+
+export interface BankParser {
+  // Stable identifier used in error messages
+  name: string;
+  // Human readable (Persian) name shown in bot replies
+  label: string;
+  // Confidence between 0 (not this format) and 1 (certainly this format)
+  detect(lines: string[]): number;
+  parse(lines: string[]): ParsedTransaction;
+}
+
+export function buildTransaction(
+  fields: Omit<ParsedTransaction, 'withdrawal_amount' | 'deposit_amount' | 'timestamp'> & { amount: number }
+): ParsedTransaction {
+  const { amount, ...rest } = fields;
+  return {
+    ...rest,
+    withdrawal_amount: fields.transaction_type === 'withdrawal' ? amount : null,
+    deposit_amount: fields.transaction_type === 'deposit' ? amount : null,
+    timestamp: Date.now(),
+  };
+}
+
+// Returns the first capture group of the first line matching the pattern
+export function extractField(lines: string[], pattern: RegExp): string | undefined {
+  for (const line of lines) {
+    const match = line.match(pattern);
+    if (match) {
+      return match[1]?.trim();
+    }
+  }
+  return undefined;
+}
+
+// The optional trailing "Location #tag" line sits after the date/time line(s)
+export function parseTrailingLocationAndTag(lines: string[], dateTimeIndex: number): { location: string; tag: string } {
+  const line = lines[dateTimeIndex + 1];
+  return line ? parseLocationAndTag(line) : { location: 'Unknown', tag: '' };
+}
+
+export function findLineIndex(lines: string[], pattern: RegExp): number {
+  return lines.findIndex(line => pattern.test(line));
+}
+
+export function parseLocationAndTag(line: string): { location: string; tag: string } {
+  if (!line) {
+    return { location: 'Unknown', tag: '' };
+  }
+
+  const parts = line.trim().split(' ').filter(part => part);
+  if (parts.length === 0) {
+    return { location: 'Unknown', tag: '' };
+  }
+
+  // If the last part starts with '#', it's the tag
+  if (parts[parts.length - 1].startsWith('#')) {
+    const tag = parts[parts.length - 1].slice(1); // Remove '#'
+    const location = parts.slice(0, -1).join(' ') || 'Unknown';
+    return { location, tag };
+  }
+
+  // If no '#' is found, assume the entire line is the tag and location is Unknown
+  const tag = parts[0].startsWith('#') ? parts[0].slice(1) : parts[0];
+  const location = parts[0].startsWith('#') ? 'Unknown' : parts.join(' ');
+
+  return { location: location || 'Unknown', tag };
+}
+
+// Amounts are stored in rials; a تومان suffix is converted (1 toman = 10 rials)
+export function parseAmount(amountStr: string | undefined, expectCurrency: boolean): number {
+  if (!amountStr) {
+    throw new ParseError('Invalid amount format');
+  }
+
+  const isToman = /تومان/.test(amountStr);
+  let cleaned = amountStr.replace(/,/g, '').trim();
+  if (expectCurrency || isToman) {
+    cleaned = cleaned.replace(/\s*(ریال|تومان)\s*$/, '');
+  }
+
+  if (!/^\d+$/.test(cleaned)) {
+    throw new ParseError('Invalid amount: must be a positive number');
+  }
+
+  const amount = parseInt(cleaned, 10);
+  return isToman ? amount * 10 : amount;
+}
+
+// Amounts written as "1,250,000-" or "+1,250,000"; the sign decides the transaction type
+export function parseSignedAmount(amountStr: string | undefined): { amount: number; type: 'withdrawal' | 'deposit' } | null {
+  const match = amountStr?.trim().match(/^([+-])?\s*([\d,]+(?:\s*(?:ریال|تومان))?)\s*([+-])?$/);
+  const sign = match?.[1] || match?.[3];
+  if (!match || !sign) {
+    return null;
+  }
+  return { amount: parseAmount(match[2], true), type: sign === '-' ? 'withdrawal' : 'deposit' };
+}
+
+export function parseDateTime(dateStr: string, timeStr: string): { date: string; time: string } {
+  const time = timeStr.trim();
+  const parts = dateStr.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (!parts) {
+    throw new ParseError('Invalid date format: expected YYYY-MM-DD or YYYY/MM/DD');
+  }
+  // Statements often write 1404/2/5; stored dates are zero-padded so that they compare as strings
+  const date = `${parts[1]}/${parts[2].padStart(2, '0')}/${parts[3].padStart(2, '0')}`;
+
+  if (!/^\d{2}:\d{2}(:\d{2})?$/.test(time)) {
+    throw new ParseError('Invalid time format: expected HH:MM or HH:MM:SS');
+  }
+
+  validateJalaliDate(date);
+  validateTime(time);
+
+  const normalizedTime = time.length === 5 ? `${time}:00` : time;
+  return { date, time: normalizedTime };
+}
+
+export function parseCompactDateTime(dateTimeStr: string): { date: string; time: string } {
+  const trimmed = dateTimeStr.trim();
+  if (!/^\d{2}\/\d{2}\/\d{2}-\d{2}:\d{2}$/.test(trimmed)) {
+    throw new ParseError('Invalid date-time format: expected YY/MM/DD-HH:MM');
+  }
+
+  const [datePart, timePart] = trimmed.split('-');
+  const [year, month, day] = datePart.split('/');
+
+  const fullYear = `14${year}`;
+  const normalizedDate = `${fullYear}/${month}/${day}`;
+  const normalizedTime = `${timePart}:00`;
+  validateJalaliDate(normalizedDate);
+  validateTime(timePart);
+
+  return { date: normalizedDate, time: normalizedTime };
+}
+
+// Finds a date (YYYY/MM/DD, YYYY.MM.DD, YYYY-MM-DD or two-digit-year YY/MM/DD) and an
+// HH:MM time anywhere in a line, as used by the single-line layouts of most banks.
+export function parseInlineDateTime(line: string | undefined): { date: string; time: string } {
+  const match = line?.match(/(\d{2}|\d{4})[/.-](\d{1,2})[/.-](\d{1,2})\D+?(\d{2}:\d{2}(?::\d{2})?)/);
+  if (!match) {
+    throw new ParseError('Invalid date-time format: expected a date followed by HH:MM');
+  }
+
+  const [, year, month, day, time] = match;
+  const fullYear = year.length === 2 ? `14${year}` : year;
+  // parseDateTime zero-pads a one-digit month or day
+  return parseDateTime(`${fullYear}/${month}/${day}`, time);
+}
+
+function validateJalaliDate(date: string): void {
+  const [year, month, day] = date.split(/[/-]/).map(Number);
+  if (!isValidJalaliDate(year, month, day)) {
+    throw new ParseError(`Invalid date: ${date} is not a valid Jalali date`);
+  }
+}
+
+function validateTime(time: string): void {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    throw new ParseError(`Invalid time: ${time} is out of range`);
+  }
+}
+
+export function validateBankName(bankName: string | undefined): string {
+  if (!bankName?.trim()) {
+    throw new ParseError('Bank name is required');
+  }
+  return bankName.trim();
+}
+
+export function validateAccountNumber(accountNumber: string | undefined): string {
+  if (!accountNumber?.trim()) {
+    throw new ParseError('Account number is required');
+  }
+  return accountNumber.trim();
+}
+
+export function validateTransactionMethod(method: string | undefined): string {
+  if (!method?.trim()) {
+    throw new ParseError('Transaction method is required');
+  }
+  return method.trim();
+}
+
+export function validateBranchCode(branchCode: string | undefined): string {
+  if (!branchCode?.trim()) {
+    throw new ParseError('Branch code is required');
+  }
+  return branchCode.trim();
+}
@@ -0,0 +1,84 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  parseAmount,
+  parseCompactDateTime,
+  parseLocationAndTag,
+  validateAccountNumber,
+} from './common';
+
+// Compact layout without a bank header:
+//   حساب1234 / برداشت|واریز1,000,000 / مانده5,000,000 / YY/MM/DD-HH:MM / [Location #tag]
+export const compactParser: BankParser = {
+  name: 'compact',
+  label: 'قالب فشرده (قالب ۲)',
+
+  detect(lines: string[]): number {
+    if (!lines[0].startsWith('حساب')) {
+      return 0;
+    }
+    return /^(برداشت|واریز)/.test(lines[1] || '') ? 0.9 : 0.5;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    const isDeposit = lines.some(line => line.includes('واریز'));
+    return isDeposit ? parseDeposit(lines) : parseWithdrawal(lines);
+  },
+};
+
+function parseWithdrawal(lines: string[]): ParsedTransaction {
+  if (lines.length < 5) {
+    throw new ParseError('Invalid Format 2: requires at least 5 lines');
+  }
+
+  const accountNumber = validateAccountNumber(lines[0].replace('حساب', '').trim());
+  const withdrawalAmount = parseAmount(lines[1].replace('برداشت', '').trim(), false);
+  const balance = parseAmount(lines[2].replace('مانده', '').trim(), false);
+  const { date, time } = parseCompactDateTime(lines[3]);
+  const { location, tag } = parseLocationAndTag(lines[4]);
+
+  return {
+    bank_name: 'Unknown',
+    account_number: accountNumber,
+    transaction_type: 'withdrawal',
+    withdrawal_amount: withdrawalAmount,
+    deposit_amount: null,
+    transaction_method: 'Unknown',
+    branch_code: null,
+    balance,
+    date,
+    time,
+    location,
+    tag,
+    timestamp: Date.now(),
+  };
+}
+
+function parseDeposit(lines: string[]): ParsedTransaction {
+  if (lines.length < 4) {
+    throw new ParseError('Invalid Pattern 1: requires at least 4 lines');
+  }
+
+  const accountNumber = validateAccountNumber(lines[0].replace('حساب', '').trim());
+  const depositAmount = parseAmount(lines[1].replace('واریز', '').trim(), false);
+  const balance = parseAmount(lines[2].replace('مانده', '').trim(), false);
+  const { date, time } = parseCompactDateTime(lines[3]);
+  const { location, tag } = lines[4] ? parseLocationAndTag(lines[4]) : { location: 'Unknown', tag: '' };
+
+  return {
+    bank_name: 'Unknown',
+    account_number: accountNumber,
+    transaction_type: 'deposit',
+    withdrawal_amount: null,
+    deposit_amount: depositAmount,
+    transaction_method: 'Unknown',
+    branch_code: null,
+    balance,
+    date,
+    time,
+    location,
+    tag,
+    timestamp: Date.now(),
+  };
+}
@@ -0,0 +1,29 @@
+import { BankParser } from './common';
+import { compactParser } from './compact';
+import { mellatParser } from './mellat';
+import { melliParser } from './melli';
+import { pasargadParser } from './pasargad';
+import { saderatParser } from './saderat';
+import { samanParser } from './saman';
+import { tejaratParser } from './tejarat';
+
+const registry: BankParser[] = [
+  tejaratParser,
+  compactParser,
+  mellatParser,
+  melliParser,
+  saderatParser,
+  pasargadParser,
+  samanParser,
+];
+
+export function registerParser(parser: BankParser): void {
+  if (registry.some(existing => existing.name === parser.name)) {
+    throw new Error(`Parser "${parser.name}" is already registered`);
+  }
+  registry.push(parser);
+}
+
+export function getParsers(): readonly BankParser[] {
+  return registry;
+}
@@ -0,0 +1,50 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  buildTransaction,
+  extractField,
+  findLineIndex,
+  parseAmount,
+  parseInlineDateTime,
+  parseSignedAmount,
+  parseTrailingLocationAndTag,
+  validateAccountNumber,
+} from './common';
+
+// Bank Mellat: signed amount, date and time on one line
+//   بانک ملت / حساب:5012345678 / مبلغ:1,250,000- / مانده:8,750,000 / 1404/02/10-14:22 / [Location #tag]
+export const mellatParser: BankParser = {
+  name: 'mellat',
+  label: 'بانک ملت',
+
+  detect(lines: string[]): number {
+    return lines[0].includes('ملت') ? 0.95 : 0;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    if (lines.length < 5) {
+      throw new ParseError('Invalid Mellat format: requires at least 5 lines');
+    }
+
+    const signed = parseSignedAmount(extractField(lines, /^مبلغ\s*:?\s*(.+)$/));
+    if (!signed) {
+      throw new ParseError('Invalid Mellat amount: expected "مبلغ:" followed by an amount with + or - sign');
+    }
+    const dateTimeIndex = findLineIndex(lines, /\d{2}:\d{2}/);
+    const { date, time } = parseInlineDateTime(lines[dateTimeIndex]);
+
+    return buildTransaction({
+      bank_name: 'بانک ملت',
+      account_number: validateAccountNumber(extractField(lines, /^حساب\s*:?\s*(.+)$/)),
+      transaction_type: signed.type,
+      amount: signed.amount,
+      transaction_method: 'Unknown',
+      branch_code: null,
+      balance: parseAmount(extractField(lines, /^مانده\s*:?\s*(.+)$/), true),
+      date,
+      time,
+      ...parseTrailingLocationAndTag(lines, dateTimeIndex),
+    });
+  },
+};
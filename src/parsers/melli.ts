@@ -0,0 +1,50 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  buildTransaction,
+  extractField,
+  findLineIndex,
+  parseAmount,
+  parseInlineDateTime,
+  parseTrailingLocationAndTag,
+  validateAccountNumber,
+} from './common';
+
+// Bank Melli: the direction and account share a line, balance is called موجودی
+//   بانک ملی ایران / برداشت از حساب 0101234567008 / مبلغ 2,000,000 ریال / موجودی 15,000,000 ریال /
+//   تاریخ 1404/02/11 ساعت 09:15 / [Location #tag]
+export const melliParser: BankParser = {
+  name: 'melli',
+  label: 'بانک ملی',
+
+  detect(lines: string[]): number {
+    return lines[0].includes('ملی') ? 0.95 : 0;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    if (lines.length < 5) {
+      throw new ParseError('Invalid Melli format: requires at least 5 lines');
+    }
+
+    const directionLine = lines.find(line => /^(برداشت|واریز)\s+(از|به)\s+حساب/.test(line));
+    if (!directionLine) {
+      throw new ParseError('Invalid Melli format: expected "برداشت از حساب" or "واریز به حساب" line');
+    }
+    const dateTimeIndex = findLineIndex(lines, /\d{2}:\d{2}/);
+    const { date, time } = parseInlineDateTime(lines[dateTimeIndex]);
+
+    return buildTransaction({
+      bank_name: 'بانک ملی',
+      account_number: validateAccountNumber(directionLine.replace(/^(برداشت|واریز)\s+(از|به)\s+حساب/, '')),
+      transaction_type: directionLine.startsWith('واریز') ? 'deposit' : 'withdrawal',
+      amount: parseAmount(extractField(lines, /^مبلغ\s*:?\s*(.+)$/), true),
+      transaction_method: 'Unknown',
+      branch_code: null,
+      balance: parseAmount(extractField(lines, /^موجودی\s*:?\s*(.+)$/), true),
+      date,
+      time,
+      ...parseTrailingLocationAndTag(lines, dateTimeIndex),
+    });
+  },
+};
@@ -0,0 +1,52 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  buildTransaction,
+  extractField,
+  findLineIndex,
+  parseAmount,
+  parseInlineDateTime,
+  parseTrailingLocationAndTag,
+  validateAccountNumber,
+} from './common';
+
+const WITHDRAWAL_KINDS = ['خرید', 'برداشت', 'انتقال'];
+
+// Bank Pasargad: the second line names the operation, the account uses dotted notation
+//   بانک پاسارگاد / خرید|برداشت|انتقال|واریز / مبلغ: 780,000 ریال / از|به: 207.8000.12345678.1 /
+//   مانده: 12,340,000 ریال / 1404.02.13 18:40 / [Location #tag]
+export const pasargadParser: BankParser = {
+  name: 'pasargad',
+  label: 'بانک پاسارگاد',
+
+  detect(lines: string[]): number {
+    return lines[0].includes('پاسارگاد') ? 0.95 : 0;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    if (lines.length < 6) {
+      throw new ParseError('Invalid Pasargad format: requires at least 6 lines');
+    }
+
+    const kind = lines[1];
+    if (kind !== 'واریز' && !WITHDRAWAL_KINDS.includes(kind)) {
+      throw new ParseError(`Invalid Pasargad format: unknown operation "${kind}"`);
+    }
+    const dateTimeIndex = findLineIndex(lines, /\d{2}:\d{2}/);
+    const { date, time } = parseInlineDateTime(lines[dateTimeIndex]);
+
+    return buildTransaction({
+      bank_name: 'بانک پاسارگاد',
+      account_number: validateAccountNumber(extractField(lines, /^(?:از|به)\s*:\s*(.+)$/)),
+      transaction_type: kind === 'واریز' ? 'deposit' : 'withdrawal',
+      amount: parseAmount(extractField(lines, /^مبلغ\s*:?\s*(.+)$/), true),
+      transaction_method: kind,
+      branch_code: null,
+      balance: parseAmount(extractField(lines, /^مانده\s*:?\s*(.+)$/), true),
+      date,
+      time,
+      ...parseTrailingLocationAndTag(lines, dateTimeIndex),
+    });
+  },
+};
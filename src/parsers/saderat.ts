@@ -0,0 +1,50 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  buildTransaction,
+  extractField,
+  findLineIndex,
+  parseAmount,
+  parseInlineDateTime,
+  parseTrailingLocationAndTag,
+  validateAccountNumber,
+} from './common';
+
+// Bank Saderat: account is labelled سپرده, amount line is labelled with the direction
+//   بانک صادرات / سپرده 0212345678001 / برداشت: 500,000 / مانده: 3,200,000 / 1404/02/12 10:05 / [Location #tag]
+export const saderatParser: BankParser = {
+  name: 'saderat',
+  label: 'بانک صادرات',
+
+  detect(lines: string[]): number {
+    return lines[0].includes('صادرات') ? 0.95 : 0;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    if (lines.length < 5) {
+      throw new ParseError('Invalid Saderat format: requires at least 5 lines');
+    }
+
+    const withdrawal = extractField(lines, /^برداشت\s*:?\s*(.+)$/);
+    const deposit = extractField(lines, /^واریز\s*:?\s*(.+)$/);
+    if (!withdrawal && !deposit) {
+      throw new ParseError('Invalid Saderat format: expected a "برداشت:" or "واریز:" line');
+    }
+    const dateTimeIndex = findLineIndex(lines, /\d{2}:\d{2}/);
+    const { date, time } = parseInlineDateTime(lines[dateTimeIndex]);
+
+    return buildTransaction({
+      bank_name: 'بانک صادرات',
+      account_number: validateAccountNumber(extractField(lines, /^سپرده\s*:?\s*(.+)$/)),
+      transaction_type: deposit ? 'deposit' : 'withdrawal',
+      amount: parseAmount(deposit || withdrawal, true),
+      transaction_method: 'Unknown',
+      branch_code: null,
+      balance: parseAmount(extractField(lines, /^مانده\s*:?\s*(.+)$/), true),
+      date,
+      time,
+      ...parseTrailingLocationAndTag(lines, dateTimeIndex),
+    });
+  },
+};
@@ -0,0 +1,54 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  buildTransaction,
+  extractField,
+  findLineIndex,
+  parseAmount,
+  parseInlineDateTime,
+  parseSignedAmount,
+  parseTrailingLocationAndTag,
+  validateAccountNumber,
+} from './common';
+
+// Bank Saman: operation and account on one line, signed amount, two-digit year
+//   بانک سامان / انتقال از حساب 821-800-1234567-1 / مبلغ: 3,000,000- / مانده: 45,000,000 / 04/02/14 20:10 / [Location #tag]
+export const samanParser: BankParser = {
+  name: 'saman',
+  label: 'بانک سامان',
+
+  detect(lines: string[]): number {
+    return lines[0].includes('سامان') ? 0.95 : 0;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    if (lines.length < 5) {
+      throw new ParseError('Invalid Saman format: requires at least 5 lines');
+    }
+
+    const operation = lines[1].match(/^(\S+)\s+(?:از|به)\s+حساب\s+(.+)$/);
+    if (!operation) {
+      throw new ParseError('Invalid Saman format: expected "<operation> از|به حساب <account>" line');
+    }
+    const signed = parseSignedAmount(extractField(lines, /^مبلغ\s*:?\s*(.+)$/));
+    if (!signed) {
+      throw new ParseError('Invalid Saman amount: expected "مبلغ:" followed by an amount with + or - sign');
+    }
+    const dateTimeIndex = findLineIndex(lines, /\d{2}:\d{2}/);
+    const { date, time } = parseInlineDateTime(lines[dateTimeIndex]);
+
+    return buildTransaction({
+      bank_name: 'بانک سامان',
+      account_number: validateAccountNumber(operation[2]),
+      transaction_type: signed.type,
+      amount: signed.amount,
+      transaction_method: operation[1],
+      branch_code: null,
+      balance: parseAmount(extractField(lines, /^مانده\s*:?\s*(.+)$/), true),
+      date,
+      time,
+      ...parseTrailingLocationAndTag(lines, dateTimeIndex),
+    });
+  },
+};
@@ -0,0 +1,96 @@
+import {
+  BankParser,
+  ParseError,
+  ParsedTransaction,
+  parseAmount,
+  parseDateTime,
+  parseLocationAndTag,
+  validateAccountNumber,
+  validateBankName,
+  validateBranchCode,
+  validateTransactionMethod,
+} from './common';
+
+// Bank Tejarat's long "label: value" layout:
+//   *بانک تجارت* / حساب: ... / برداشت|واریز: ... ریال / از طریق: ... / [کدشعبه: ...] / مانده: ... / date / time / [Location #tag]
+export const tejaratParser: BankParser = {
+  name: 'tejarat',
+  label: 'بانک تجارت (قالب ۱)',
+
+  detect(lines: string[]): number {
+    if (lines[0].includes('تجارت')) {
+      return 0.95;
+    }
+    if (lines[1]?.startsWith('حساب:')) {
+      return 0.6;
+    }
+    // Kept as the catch-all for unlabelled "label: value" messages, as before the registry existed
+    return lines[0].startsWith('حساب') ? 0 : 0.1;
+  },
+
+  parse(lines: string[]): ParsedTransaction {
+    const isDeposit = lines.some(line => line.includes('واریز'));
+    return isDeposit ? parseDeposit(lines) : parseWithdrawal(lines);
+  },
+};
+
+function parseWithdrawal(lines: string[]): ParsedTransaction {
+  if (lines.length < 7) {
+    throw new ParseError('Invalid Format 1: requires at least 7 lines');
+  }
+
+  const bankName = validateBankName(lines[0]);
+  const accountNumber = validateAccountNumber(lines[1].split(':')[1]?.trim());
+  const withdrawalAmount = parseAmount(lines[2].split(':')[1]?.trim(), true);
+  const transactionMethod = validateTransactionMethod(lines[3].split(':')[1]?.trim());
+  const balance = parseAmount(lines[4].split(':')[1]?.trim(), true);
+  const { date, time } = parseDateTime(lines[5], lines[6]);
+  const { location, tag } = lines[7] ? parseLocationAndTag(lines[7]) : { location: 'Unknown', tag: '' };
+
+  return {
+    bank_name: bankName,
+    account_number: accountNumber,
+    transaction_type: 'withdrawal',
+    withdrawal_amount: withdrawalAmount,
+    deposit_amount: null,
+    transaction_method: transactionMethod,
+    branch_code: null,
+    balance,
+    date,
+    time,
+    location,
+    tag,
+    timestamp: Date.now(),
+  };
+}
+
+function parseDeposit(lines: string[]): ParsedTransaction {
+  if (lines.length < 8) {
+    throw new ParseError('Invalid Pattern 2: requires at least 8 lines');
+  }
+
+  const bankName = validateBankName(lines[0]);
+  const accountNumber = validateAccountNumber(lines[1].split(':')[1]?.trim());
+  const depositAmount = parseAmount(lines[2].split(':')[1]?.trim(), true);
+  const transactionMethod = validateTransactionMethod(lines[3].split(':')[1]?.trim());
+  const branchCode = validateBranchCode(lines[4].split(':')[1]?.trim());
+  const balance = parseAmount(lines[5].split(':')[1]?.trim(), true);
+  const { date, time } = parseDateTime(lines[6], lines[7]);
+  const { location, tag } = lines[8] ? parseLocationAndTag(lines[8]) : { location: 'Unknown', tag: '' };
+
+  return {
+    bank_name: bankName,
+    account_number: accountNumber,
+    transaction_type: 'deposit',
+    withdrawal_amount: null,
+    deposit_amount: depositAmount,
+    transaction_method: transactionMethod,
+    branch_code: branchCode,
+    balance,
+    date,
+    time,
+    location,
+    tag,
+    timestamp: Date.now(),
+  };
+}
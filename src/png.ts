@@ -0,0 +1,192 @@
+import { crc32 } from './xlsx';
+
+// Minimal RGB raster and PNG encoder for chart images. Shapes only: drawing Persian text would need
+// an embedded font and a shaping engine, so chart labels travel in the photo caption instead.
+
+export type Color = [number, number, number];
+
+export interface Raster {
+  width: number;
+  height: number;
+  // RGB, row by row
+  pixels: Uint8Array;
+}
+
+export const PNG_MIME_TYPE = 'image/png';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function createRaster(width: number, height: number, background: Color = [255, 255, 255]): Raster {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let i = 0; i < pixels.length; i += 3) {
+    pixels.set(background, i);
+  }
+  return { width, height, pixels };
+}
+
+export function fillRect(raster: Raster, x: number, y: number, width: number, height: number, color: Color): void {
+  const x0 = clamp(Math.round(x), 0, raster.width);
+  const x1 = clamp(Math.round(x + width), 0, raster.width);
+  const y0 = clamp(Math.round(y), 0, raster.height);
+  const y1 = clamp(Math.round(y + height), 0, raster.height);
+  for (let row = y0; row < y1; row++) {
+    for (let col = x0; col < x1; col++) {
+      raster.pixels.set(color, (row * raster.width + col) * 3);
+    }
+  }
+}
+
+// Even-odd scanline fill, sampling at pixel centres
+export function fillPolygon(raster: Raster, points: [number, number][], color: Color): void {
+  if (points.length < 3) {
+    return;
+  }
+  const ys = points.map(([, y]) => y);
+  const top = clamp(Math.floor(Math.min(...ys)), 0, raster.height);
+  const bottom = clamp(Math.ceil(Math.max(...ys)), 0, raster.height);
+
+  for (let row = top; row < bottom; row++) {
+    const y = row + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0; i < points.length; i++) {
+      const [xa, ya] = points[i];
+      const [xb, yb] = points[(i + 1) % points.length];
+      if ((ya <= y && yb > y) || (yb <= y && ya > y)) {
+        crossings.push(xa + ((y - ya) / (yb - ya)) * (xb - xa));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const from = clamp(Math.ceil(crossings[i] - 0.5), 0, raster.width);
+      const to = clamp(Math.floor(crossings[i + 1] - 0.5), -1, raster.width - 1);
+      for (let col = from; col <= to; col++) {
+        raster.pixels.set(color, (row * raster.width + col) * 3);
+      }
+    }
+  }
+}
+
+export function fillCircle(raster: Raster, cx: number, cy: number, radius: number, color: Color): void {
+  fillPolygon(raster, arcPoints(cx, cy, radius, 0, Math.PI * 2), color);
+}
+
+// A pie slice from startAngle to endAngle, in radians clockwise from 12 o'clock
+export function fillSector(
+  raster: Raster,
+  cx: number,
+  cy: number,
+  radius: number,
+  startAngle: number,
+  endAngle: number,
+  color: Color
+): void {
+  fillPolygon(raster, [[cx, cy], ...arcPoints(cx, cy, radius, startAngle, endAngle)], color);
+}
+
+export function drawLine(
+  raster: Raster,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  color: Color,
+  thickness: number = 1
+): void {
+  const length = Math.hypot(x1 - x0, y1 - y0) || 1;
+  const nx = (-(y1 - y0) / length) * (thickness / 2);
+  const ny = ((x1 - x0) / length) * (thickness / 2);
+  fillPolygon(raster, [[x0 + nx, y0 + ny], [x1 + nx, y1 + ny], [x1 - nx, y1 - ny], [x0 - nx, y0 - ny]], color);
+}
+
+// Connected segments with round joins
+export function drawPolyline(raster: Raster, points: [number, number][], color: Color, thickness: number = 1): void {
+  for (let i = 0; i + 1 < points.length; i++) {
+    drawLine(raster, points[i][0], points[i][1], points[i + 1][0], points[i + 1][1], color, thickness);
+  }
+  for (const [x, y] of points) {
+    fillCircle(raster, x, y, thickness / 2, color);
+  }
+}
+
+// Box-filter downscale; drawing at 2x and shrinking is a cheap way to smooth edges
+export function downsample(raster: Raster, factor: number): Raster {
+  const width = Math.floor(raster.width / factor);
+  const height = Math.floor(raster.height / factor);
+  const pixels = new Uint8Array(width * height * 3);
+  const area = factor * factor;
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      for (let channel = 0; channel < 3; channel++) {
+        let sum = 0;
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            sum += raster.pixels[((row * factor + dy) * raster.width + col * factor + dx) * 3 + channel];
+          }
+        }
+        pixels[(row * width + col) * 3 + channel] = Math.round(sum / area);
+      }
+    }
+  }
+  return { width, height, pixels };
+}
+
+// 8-bit truecolour PNG; CompressionStream('deflate') produces the zlib stream IDAT expects
+export async function encodePng(raster: Raster): Promise<Uint8Array> {
+  const stride = raster.width * 3;
+  const scanlines = new Uint8Array((stride + 1) * raster.height);
+  for (let row = 0; row < raster.height; row++) {
+    // Each scanline starts with its filter type; 0 means unfiltered
+    scanlines.set(raster.pixels.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+  }
+
+  const header = new DataView(new ArrayBuffer(13));
+  header.setUint32(0, raster.width);
+  header.setUint32(4, raster.height);
+  header.setUint8(8, 8);
+  header.setUint8(9, 2);
+
+  const compressed = new Blob([scanlines]).stream().pipeThrough(new CompressionStream('deflate'));
+  const data = new Uint8Array(await new Response(compressed).arrayBuffer());
+
+  return concat([
+    new Uint8Array(PNG_SIGNATURE),
+    chunk('IHDR', new Uint8Array(header.buffer)),
+    chunk('IDAT', data),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const typeAndData = concat([new TextEncoder().encode(type), data]);
+  const result = new Uint8Array(typeAndData.length + 8);
+  const view = new DataView(result.buffer);
+  view.setUint32(0, data.length);
+  result.set(typeAndData, 4);
+  view.setUint32(typeAndData.length + 4, crc32(typeAndData));
+  return result;
+}
+
+function arcPoints(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): [number, number][] {
+  const steps = Math.max(2, Math.ceil((Math.abs(endAngle - startAngle) * radius) / 4));
+  const points: [number, number][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const angle = startAngle + ((endAngle - startAngle) * i) / steps;
+    points.push([cx + radius * Math.sin(angle), cy - radius * Math.cos(angle)]);
+  }
+  return points;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
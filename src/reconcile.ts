@@ -0,0 +1,112 @@
+import { formatAccountLabel, getAccountNicknames } from './accounts';
+
+export interface ReconcileRow {
+  id: number;
+  account_number: string;
+  transaction_type: 'withdrawal' | 'deposit';
+  withdrawal_amount: number | null;
+  deposit_amount: number | null;
+  balance: number;
+  date: string;
+  time: string;
+}
+
+export interface BalanceGap {
+  id: number;
+  previousId: number;
+  accountNumber: string;
+  previousDate: string;
+  previousTime: string;
+  date: string;
+  time: string;
+  expectedBalance: number;
+  actualBalance: number;
+  // Positive when a deposit is probably missing, negative for a missing withdrawal
+  missingAmount: number;
+}
+
+// Rows must belong to one account and be ordered oldest first
+export function findBalanceGaps(rows: ReconcileRow[]): BalanceGap[] {
+  const gaps: BalanceGap[] = [];
+
+  for (let i = 1; i < rows.length; i++) {
+    const previous = rows[i - 1];
+    const current = rows[i];
+    const amount = current.transaction_type === 'deposit' ? current.deposit_amount ?? 0 : -(current.withdrawal_amount ?? 0);
+    const expectedBalance = previous.balance + amount;
+
+    if (expectedBalance !== current.balance) {
+      gaps.push({
+        id: current.id,
+        previousId: previous.id,
+        accountNumber: current.account_number,
+        previousDate: previous.date,
+        previousTime: previous.time,
+        date: current.date,
+        time: current.time,
+        expectedBalance,
+        actualBalance: current.balance,
+        missingAmount: current.balance - expectedBalance,
+      });
+    }
+  }
+
+  return gaps;
+}
+
+export async function reconcileAccount(db: D1Database, chatId: number, accountNumber: string): Promise<BalanceGap[]> {
+  const result = await db.prepare(`
+    SELECT id, account_number, transaction_type, withdrawal_amount, deposit_amount, balance, date, time
+    FROM transactions
+    WHERE chat_id = ? AND account_number = ?
+    ORDER BY occurred_at ASC, id ASC
+  `).bind(chatId, accountNumber).all<ReconcileRow>();
+
+  const gaps = findBalanceGaps(result.results);
+
+  // Recompute every flag so that a late-forwarded SMS clears the gap it filled
+  await db.batch([
+    db.prepare(`UPDATE transactions SET balance_gap = NULL WHERE chat_id = ? AND account_number = ? AND balance_gap IS NOT NULL`)
+      .bind(chatId, accountNumber),
+    ...gaps.map(gap => db.prepare(`UPDATE transactions SET balance_gap = ? WHERE id = ?`).bind(gap.missingAmount, gap.id)),
+  ]);
+
+  return gaps;
+}
+
+export async function reconcileChat(db: D1Database, chatId: number, accountNumber?: string): Promise<BalanceGap[]> {
+  if (accountNumber) {
+    return reconcileAccount(db, chatId, accountNumber);
+  }
+
+  const accounts = await db.prepare(`SELECT DISTINCT account_number FROM transactions WHERE chat_id = ?`)
+    .bind(chatId)
+    .all<{ account_number: string }>();
+
+  const gaps: BalanceGap[] = [];
+  for (const { account_number } of accounts.results) {
+    gaps.push(...await reconcileAccount(db, chatId, account_number));
+  }
+  return gaps;
+}
+
+export function formatBalanceGap(gap: BalanceGap, nickname?: string | null): string {
+  const kind = gap.missingAmount > 0 ? 'واریز' : 'برداشت';
+  return `💳 ${formatAccountLabel(gap.accountNumber, nickname)}: ` +
+    `بین ${gap.previousDate} ${gap.previousTime} و ${gap.date} ${gap.time} ` +
+    `احتمالاً ${kind}ی به مبلغ ${Math.abs(gap.missingAmount).toLocaleString('fa-IR')} ریال ثبت نشده است ` +
+    `(مانده مورد انتظار ${gap.expectedBalance.toLocaleString('fa-IR')}، مانده پیامک ${gap.actualBalance.toLocaleString('fa-IR')})`;
+}
+
+export async function formatReconcileReport(db: D1Database, chatId: number, gaps: BalanceGap[]): Promise<string> {
+  if (gaps.length === 0) {
+    return `✅ مانده همه حساب‌ها پیوسته است و پیامک گم‌شده‌ای پیدا نشد.`;
+  }
+
+  const nicknames = await getAccountNicknames(db, chatId);
+  let message = `⚠️ ${gaps.length.toLocaleString('fa-IR')} ناپیوستگی در مانده حساب‌ها پیدا شد:\n`;
+  for (const gap of gaps) {
+    message += `\n- ${formatBalanceGap(gap, nicknames[gap.accountNumber])}\n`;
+  }
+  return message;
+}
@@ -0,0 +1,308 @@
+import { formatAccountLabel } from './accounts';
+import {
+  epochDayToJalali,
+  formatJalaliDate,
+  JalaliDate,
+  jalaliMonthLength,
+  jalaliToEpochDay,
+  parseJalaliDate,
+  tehranToday,
+} from './jalali';
+
+// Salary, rent and subscriptions show up as the same deposit or withdrawal every week or month. A series is
+// a run of transactions of one account in one direction with the same location (or tag, or exact amount
+// when neither is known) and similar amounts, at least MIN_OCCURRENCES times at a regular interval.
+
+export type RecurringFrequency = 'weekly' | 'monthly';
+
+export interface RecurringRow {
+  id: number;
+  account_number: string;
+  transaction_type: 'withdrawal' | 'deposit';
+  withdrawal_amount: number | null;
+  deposit_amount: number | null;
+  date: string;
+  location: string | null;
+  tag: string | null;
+}
+
+export interface RecurringSeries {
+  key: string;
+  accountNumber: string;
+  transactionType: 'withdrawal' | 'deposit';
+  location: string | null;
+  tag: string | null;
+  frequency: RecurringFrequency;
+  count: number;
+  // Amount of the latest occurrence, which the next one is expected to repeat
+  amount: number;
+  lastDate: string;
+  nextDate: string;
+}
+
+export interface RecurringAlert {
+  kind: 'missing' | 'changed';
+  series: RecurringSeries;
+  // What arrived instead of series.amount; only for 'changed'
+  actualAmount: number | null;
+}
+
+export const MIN_OCCURRENCES = 3;
+// Amounts this close to each other can be the same salary or bill
+export const AMOUNT_TOLERANCE = 0.25;
+// An occurrence further than this from the previous amount is reported as changed
+export const AMOUNT_CHANGE_THRESHOLD = 0.05;
+export const RECURRING_HISTORY_DAYS = 400;
+// The cron looks for overdue transactions once a day, on its first run from 09:00 in Tehran
+export const RECURRING_CHECK_MINUTE = 9 * 60;
+
+// Interval between occurrences, how late one may be before it is missing, and how far from the expected
+// date a transaction still counts as the expected one
+const FREQUENCIES: Record<RecurringFrequency, { minDays: number; maxDays: number; graceDays: number; matchDays: number }> = {
+  weekly: { minDays: 6, maxDays: 8, graceDays: 1, matchDays: 2 },
+  monthly: { minDays: 26, maxDays: 35, graceDays: 3, matchDays: 7 },
+};
+
+const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  weekly: 'هفتگی',
+  monthly: 'ماهانه',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows must be ordered oldest first. Series that missed more than one occurrence are taken to have ended.
+export function findRecurringSeries(rows: RecurringRow[], today: JalaliDate): RecurringSeries[] {
+  const groups = new Map<string, RecurringRow[]>();
+  for (const row of rows) {
+    const amount = amountOf(row);
+    if (!amount || !parseJalaliDate(row.date)) {
+      continue;
+    }
+    const key = seriesKey(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const series: RecurringSeries[] = [];
+  for (const [key, group] of groups) {
+    for (const cluster of clusterByAmount(group)) {
+      const found = describeSeries(key, cluster, jalaliToEpochDay(today));
+      if (found) {
+        series.push(found);
+      }
+    }
+  }
+  return series.sort((a, b) => a.nextDate.localeCompare(b.nextDate) || a.key.localeCompare(b.key));
+}
+
+// Series whose next occurrence is more than its grace period overdue
+export function findMissing(series: RecurringSeries[], today: JalaliDate): RecurringSeries[] {
+  const todayDay = jalaliToEpochDay(today);
+  return series.filter(s => todayDay > epochDay(s.nextDate) + FREQUENCIES[s.frequency].graceDays);
+}
+
+// The series a newly saved transaction is the expected occurrence of, if any
+export function matchSeries(series: RecurringSeries[], row: RecurringRow): RecurringSeries | null {
+  const key = seriesKey(row);
+  const day = epochDay(row.date);
+  return series.find(s => s.key === key && Math.abs(day - epochDay(s.nextDate)) <= FREQUENCIES[s.frequency].matchDays) || null;
+}
+
+export function hasAmountChanged(series: RecurringSeries, amount: number): boolean {
+  return Math.abs(amount - series.amount) > series.amount * AMOUNT_CHANGE_THRESHOLD;
+}
+
+export async function detectRecurring(
+  db: D1Database,
+  chatId: number,
+  now: number = Date.now(),
+  excludeId: number | null = null
+): Promise<RecurringSeries[]> {
+  const result = await db.prepare(`
+    SELECT id, account_number, transaction_type, withdrawal_amount, deposit_amount, date, location, tag
+    FROM transactions
+    WHERE chat_id = ? AND transfer_id IS NULL AND occurred_at >= ? AND id != ?
+    ORDER BY occurred_at ASC, id ASC
+  `).bind(chatId, now - RECURRING_HISTORY_DAYS * DAY_MS, excludeId ?? 0).all<RecurringRow>();
+  return findRecurringSeries(result.results, tehranToday(now));
+}
+
+// Overdue occurrences not announced yet; claiming the alert row first keeps overlapping runs from repeating one
+export async function checkMissingRecurring(db: D1Database, chatId: number, now: number = Date.now()): Promise<RecurringAlert[]> {
+  const alerts: RecurringAlert[] = [];
+  for (const series of findMissing(await detectRecurring(db, chatId, now), tehranToday(now))) {
+    if (await claimAlert(db, chatId, series, 'missing', now)) {
+      alerts.push({ kind: 'missing', series, actualAmount: null });
+    }
+  }
+  return alerts;
+}
+
+// Compares a just-saved transaction with the series it continues, judged by the history before it
+export async function checkRecurringArrival(
+  db: D1Database,
+  chatId: number,
+  row: RecurringRow,
+  now: number = Date.now()
+): Promise<RecurringAlert | null> {
+  const amount = amountOf(row);
+  if (!amount) {
+    return null;
+  }
+  const series = matchSeries(await detectRecurring(db, chatId, now, row.id), row);
+  if (!series || !hasAmountChanged(series, amount) || !(await claimAlert(db, chatId, series, 'changed', now))) {
+    return null;
+  }
+  return { kind: 'changed', series, actualAmount: amount };
+}
+
+// Chats the daily check has not looked at yet today
+export async function listChatsDueForCheck(db: D1Database, now: number = Date.now()): Promise<number[]> {
+  const result = await db.prepare(`
+    SELECT DISTINCT t.chat_id FROM transactions t
+    LEFT JOIN recurring_checks c ON c.chat_id = t.chat_id
+    WHERE c.last_day IS NULL OR c.last_day < ?
+  `).bind(formatJalaliDate(tehranToday(now))).all<{ chat_id: number }>();
+  return result.results.map(row => row.chat_id);
+}
+
+// Records today's check of a chat; false when another run already did, so overlapping runs check it once
+export async function claimDailyCheck(db: D1Database, chatId: number, now: number = Date.now()): Promise<boolean> {
+  const claimed = await db.prepare(`
+    INSERT INTO recurring_checks (chat_id, last_day) VALUES (?, ?)
+    ON CONFLICT (chat_id) DO UPDATE SET last_day = excluded.last_day WHERE recurring_checks.last_day < excluded.last_day
+  `).bind(chatId, formatJalaliDate(tehranToday(now))).run();
+  return claimed.meta.changes > 0;
+}
+
+export function formatRecurringAlert(alert: RecurringAlert, nicknames: Record<string, string> = {}): string {
+  const { series } = alert;
+  const title = `${series.transactionType === 'deposit' ? 'واریز' : 'برداشت'} ${FREQUENCY_LABELS[series.frequency]} «${seriesLabel(series)}»`;
+  const account = formatAccountLabel(series.accountNumber, nicknames[series.accountNumber] || null);
+  if (alert.kind === 'missing') {
+    return `⏰ ${title} که حدود ${series.nextDate} انتظار می‌رفت هنوز ثبت نشده است.\n` +
+      `💳 حساب: ${account} | 💰 مبلغ معمول: ${series.amount.toLocaleString('fa-IR')} ریال`;
+  }
+  const actual = alert.actualAmount ?? 0;
+  const percent = Math.round(((actual - series.amount) / series.amount) * 100);
+  return `⚠️ مبلغ ${title} تغییر کرده است.\n` +
+    `💰 ${actual.toLocaleString('fa-IR')} ریال به جای ${series.amount.toLocaleString('fa-IR')} ریال ` +
+    `(${percent > 0 ? '+' : ''}${percent.toLocaleString('fa-IR')}٪)\n` +
+    `💳 حساب: ${account}`;
+}
+
+export function formatRecurring(series: RecurringSeries[], nicknames: Record<string, string> = {}): string {
+  if (series.length === 0) {
+    return `⚠️ هنوز تراکنش تکراری‌ای پیدا نشد.\n\n` +
+      `تراکنشی که دست‌کم ${MIN_OCCURRENCES.toLocaleString('fa-IR')} بار با مبلغ مشابه و فاصله هفتگی یا ماهانه ثبت شود، اینجا نمایش داده می‌شود.`;
+  }
+
+  let message = `🔁 تراکنش‌های تکراری:\n`;
+  message += `═══════════════════════\n`;
+  for (const s of series) {
+    message += `\n${s.transactionType === 'deposit' ? '📥' : '📤'} ${seriesLabel(s)} | ${FREQUENCY_LABELS[s.frequency]}\n`;
+    message += `💳 حساب: ${formatAccountLabel(s.accountNumber, nicknames[s.accountNumber] || null)}\n`;
+    message += `💰 مبلغ: ${s.amount.toLocaleString('fa-IR')} ریال | 🔢 ${s.count.toLocaleString('fa-IR')} بار\n`;
+    message += `🗓 آخرین: ${s.lastDate} | بعدی: ${s.nextDate}\n`;
+  }
+  return message;
+}
+
+function amountOf(row: RecurringRow): number | null {
+  return row.transaction_type === 'deposit' ? row.deposit_amount : row.withdrawal_amount;
+}
+
+function hasLocation(location: string | null): location is string {
+  return !!location && location !== 'Unknown';
+}
+
+// Without a location or tag only the exact amount ties transactions together
+function seriesKey(row: RecurringRow): string {
+  const label = hasLocation(row.location) ? `@${row.location}` : row.tag ? `#${row.tag}` : `=${amountOf(row)}`;
+  return `${row.account_number}|${row.transaction_type}|${label}`;
+}
+
+function seriesLabel(series: RecurringSeries): string {
+  const parts = [hasLocation(series.location) ? series.location : null, series.tag ? `#${series.tag}` : null].filter(part => part);
+  return parts.join(' ') || `${series.amount.toLocaleString('fa-IR')} ریال`;
+}
+
+// Groups of similar amounts, each returned oldest first
+function clusterByAmount(rows: RecurringRow[]): RecurringRow[][] {
+  const byAmount = [...rows].sort((a, b) => amountOf(a)! - amountOf(b)!);
+  const clusters: RecurringRow[][] = [];
+  let start = 0;
+  for (const row of byAmount) {
+    if (clusters.length === 0 || amountOf(row)! > start * (1 + AMOUNT_TOLERANCE)) {
+      clusters.push([]);
+      start = amountOf(row)!;
+    }
+    clusters[clusters.length - 1].push(row);
+  }
+  const order = new Map(rows.map((row, i) => [row.id, i]));
+  return clusters.map(cluster => cluster.sort((a, b) => order.get(a.id)! - order.get(b.id)!));
+}
+
+function describeSeries(key: string, rows: RecurringRow[], todayDay: number): RecurringSeries | null {
+  if (rows.length < MIN_OCCURRENCES) {
+    return null;
+  }
+  const days = rows.map(row => epochDay(row.date));
+  const intervals = days.slice(1).map((day, i) => day - days[i]);
+  const frequency = (Object.keys(FREQUENCIES) as RecurringFrequency[]).find(candidate => {
+    const { minDays, maxDays } = FREQUENCIES[candidate];
+    // One irregular interval, such as a salary paid early before a holiday, is tolerated in longer histories
+    return intervals.filter(interval => interval >= minDays && interval <= maxDays).length >= Math.ceil((intervals.length * 2) / 3);
+  });
+  if (!frequency) {
+    return null;
+  }
+
+  const last = rows[rows.length - 1];
+  const nextDate = frequency === 'weekly'
+    ? epochDayToJalali(days[days.length - 1] + 7)
+    : nextMonthlyDate(parseJalaliDate(last.date)!, rows.map(row => parseJalaliDate(row.date)!.day));
+  // A series that skipped a whole period after its due date has most likely stopped
+  if (todayDay > jalaliToEpochDay(nextDate) + FREQUENCIES[frequency].maxDays) {
+    return null;
+  }
+
+  return {
+    key,
+    accountNumber: last.account_number,
+    transactionType: last.transaction_type,
+    location: hasLocation(last.location) ? last.location : null,
+    tag: last.tag || null,
+    frequency,
+    count: rows.length,
+    amount: amountOf(last)!,
+    lastDate: last.date,
+    nextDate: formatJalaliDate(nextDate),
+  };
+}
+
+// The usual day of the month in the month after the last occurrence, moved back in shorter months
+function nextMonthlyDate(last: JalaliDate, daysOfMonth: number[]): JalaliDate {
+  const year = last.month === 12 ? last.year + 1 : last.year;
+  const month = last.month === 12 ? 1 : last.month + 1;
+  const sorted = [...daysOfMonth].sort((a, b) => a - b);
+  const usualDay = sorted[Math.floor(sorted.length / 2)];
+  return { year, month, day: Math.min(usualDay, jalaliMonthLength(year, month)) };
+}
+
+function epochDay(date: string): number {
+  return jalaliToEpochDay(parseJalaliDate(date)!);
+}
+
+async function claimAlert(
+  db: D1Database,
+  chatId: number,
+  series: RecurringSeries,
+  kind: RecurringAlert['kind'],
+  now: number
+): Promise<boolean> {
+  const claimed = await db.prepare(`
+    INSERT OR IGNORE INTO recurring_alerts (chat_id, series_key, expected_date, kind, sent_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(chatId, series.key, series.nextDate, kind, now).run();
+  return claimed.meta.changes > 0;
+}
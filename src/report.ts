@@ -0,0 +1,160 @@
+import { getAccountNicknames } from './accounts';
+import { ReportFilters } from './filters';
+import { getMemberNames } from './ledgers';
+import { TransactionData } from './parser';
+import { queryTransactions } from './transactions';
+
+export interface TransactionReport {
+  totalAmount: number;
+  totalWithdrawal: number;
+  totalDeposit: number;
+  transactionCount: number;
+  period: string;
+  transactions: TransactionData[];
+  byTag: Record<string, { count: number; totalWithdrawal: number; totalDeposit: number }>;
+  byLocation: Record<string, { count: number; totalWithdrawal: number; totalDeposit: number; deposits: TransactionData[]; withdrawals: TransactionData[] }>;
+  byAccount: Record<string, {
+    nickname: string | null;
+    bankName: string;
+    count: number;
+    totalWithdrawal: number;
+    totalDeposit: number;
+    latestBalance: number;
+    latestDate: string;
+    latestTime: string;
+  }>;
+  // Keyed by the submitting Telegram user id, or 'unknown' for rows saved before it was recorded
+  byMember: Record<string, { name: string | null; count: number; totalWithdrawal: number; totalDeposit: number }>;
+  // Transfers between the chat's own accounts. They count towards byAccount but not the totals above or the
+  // tag, location and member breakdowns, since no money entered or left the household.
+  transfers: { count: number; totalWithdrawal: number; totalDeposit: number };
+  // Rows with a missing transaction_type, described in English for the logs
+  warnings: string[];
+}
+
+export async function buildTransactionReport(
+  db: D1Database,
+  chatId: number,
+  filters: ReportFilters = {}
+): Promise<TransactionReport> {
+  let transactions: TransactionData[] = await queryTransactions(db, chatId, filters);
+
+  // Handle NULL transaction_type by inferring from amounts
+  const warnings: string[] = [];
+  transactions = transactions.map(tx => {
+    if (!tx.transaction_type) {
+      if (tx.withdrawal_amount != null && tx.deposit_amount == null) {
+        warnings.push(`Transaction at ${tx.date} ${tx.time} has NULL transaction_type; assuming withdrawal`);
+        return { ...tx, transaction_type: 'withdrawal' };
+      } else if (tx.deposit_amount != null && tx.withdrawal_amount == null) {
+        warnings.push(`Transaction at ${tx.date} ${tx.time} has NULL transaction_type; assuming deposit`);
+        return { ...tx, transaction_type: 'deposit' };
+      } else {
+        warnings.push(`Transaction at ${tx.date} ${tx.time} has ambiguous transaction_type; skipping`);
+        return tx;
+      }
+    }
+    return tx;
+  });
+
+  const report: TransactionReport = {
+    totalAmount: 0,
+    totalWithdrawal: 0,
+    totalDeposit: 0,
+    transactionCount: transactions.length,
+    period: filters.period || 'همه تراکنش‌ها',
+    transactions,
+    byTag: {},
+    byLocation: {},
+    byAccount: {},
+    byMember: {},
+    transfers: { count: 0, totalWithdrawal: 0, totalDeposit: 0 },
+    warnings,
+  };
+  const nicknames = await getAccountNicknames(db, chatId);
+  const memberNames = await getMemberNames(db, chatId);
+
+  for (const tx of transactions) {
+    // Transactions are sorted newest first, so the first row seen per account carries its latest balance
+    const accountKey = tx.account_number;
+    if (!report.byAccount[accountKey]) {
+      report.byAccount[accountKey] = {
+        nickname: nicknames[accountKey] || null,
+        bankName: tx.bank_name,
+        count: 0,
+        totalWithdrawal: 0,
+        totalDeposit: 0,
+        latestBalance: tx.balance,
+        latestDate: tx.date,
+        latestTime: tx.time,
+      };
+    }
+    report.byAccount[accountKey].count += 1;
+    if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+      report.byAccount[accountKey].totalWithdrawal += tx.withdrawal_amount;
+    } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+      report.byAccount[accountKey].totalDeposit += tx.deposit_amount;
+    }
+
+    if (tx.transfer_id != null) {
+      report.transfers.count += 1;
+      if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+        report.transfers.totalWithdrawal += tx.withdrawal_amount;
+      } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+        report.transfers.totalDeposit += tx.deposit_amount;
+      }
+      continue;
+    }
+
+    if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+      report.totalWithdrawal += tx.withdrawal_amount;
+      report.totalAmount -= tx.withdrawal_amount;
+    } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+      report.totalDeposit += tx.deposit_amount;
+      report.totalAmount += tx.deposit_amount;
+    }
+
+    const tagKey = tx.tag || 'No Tag';
+    if (!report.byTag[tagKey]) {
+      report.byTag[tagKey] = { count: 0, totalWithdrawal: 0, totalDeposit: 0 };
+    }
+    report.byTag[tagKey].count += 1;
+    if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+      report.byTag[tagKey].totalWithdrawal += tx.withdrawal_amount;
+    } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+      report.byTag[tagKey].totalDeposit += tx.deposit_amount;
+    }
+
+    const locKey = tx.location || 'No Location';
+    if (!report.byLocation[locKey]) {
+      report.byLocation[locKey] = {
+        count: 0,
+        totalWithdrawal: 0,
+        totalDeposit: 0,
+        deposits: [],
+        withdrawals: []
+      };
+    }
+    report.byLocation[locKey].count += 1;
+    if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+      report.byLocation[locKey].totalWithdrawal += tx.withdrawal_amount;
+      report.byLocation[locKey].withdrawals.push(tx);
+    } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+      report.byLocation[locKey].totalDeposit += tx.deposit_amount;
+      report.byLocation[locKey].deposits.push(tx);
+    }
+
+    const memberKey = tx.submitted_by != null ? String(tx.submitted_by) : 'unknown';
+    if (!report.byMember[memberKey]) {
+      report.byMember[memberKey] = { name: tx.submitted_by != null ? memberNames[tx.submitted_by] || null : null, count: 0, totalWithdrawal: 0, totalDeposit: 0 };
+    }
+    report.byMember[memberKey].count += 1;
+    if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+      report.byMember[memberKey].totalWithdrawal += tx.withdrawal_amount;
+    } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+      report.byMember[memberKey].totalDeposit += tx.deposit_amount;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,214 @@
+import { buildDashboardData } from './dashboard';
+import {
+  Color,
+  createRaster,
+  downsample,
+  drawLine,
+  drawPolyline,
+  encodePng,
+  fillCircle,
+  fillRect,
+  fillSector,
+  Raster,
+} from './png';
+import { TransactionReport } from './report';
+
+export type ChartKind = 'pie' | 'bar' | 'line';
+
+export interface ChartImage {
+  kind: ChartKind;
+  png: Uint8Array;
+  caption: string;
+}
+
+export const CHART_KINDS: ChartKind[] = ['pie', 'bar', 'line'];
+
+// Each colour has a matching emoji square, so the caption doubles as the chart's legend
+const PALETTE: { color: Color; key: string }[] = [
+  { color: [30, 136, 229], key: '🟦' },
+  { color: [229, 57, 53], key: '🟥' },
+  { color: [67, 160, 71], key: '🟩' },
+  { color: [251, 140, 0], key: '🟧' },
+  { color: [142, 36, 170], key: '🟪' },
+  { color: [253, 216, 53], key: '🟨' },
+  { color: [109, 76, 65], key: '🟫' },
+];
+const OTHER = { color: [66, 66, 66] as Color, key: '⬛' };
+const WITHDRAWAL = PALETTE[1];
+const DEPOSIT = PALETTE[2];
+const GRID: Color = [225, 225, 225];
+const AXIS: Color = [150, 150, 150];
+
+const WIDTH = 800;
+const HEIGHT = 500;
+// Shapes are drawn at twice the size and scaled down to smooth their edges
+const SCALE = 2;
+const MAX_MONTHS = 12;
+const MAX_CAPTION_LENGTH = 1024;
+
+// "/chart pie month=1404/02": an optional chart kind followed by the report filters; no kind means all of them
+export function parseChartParams(params: string): { kinds: ChartKind[]; params: string } {
+  const match = params.trim().match(/^(pie|bar|line)\b\s*(.*)$/is);
+  return match
+    ? { kinds: [match[1].toLowerCase() as ChartKind], params: match[2] }
+    : { kinds: CHART_KINDS, params };
+}
+
+// Returns null when the report has nothing to draw for that chart
+export function buildChart(kind: ChartKind, report: TransactionReport): Promise<ChartImage | null> {
+  switch (kind) {
+    case 'pie':
+      return tagPieChart(report);
+    case 'bar':
+      return monthlyBarChart(report);
+    case 'line':
+      return balanceLineChart(report);
+  }
+}
+
+// Withdrawals by tag; tags beyond the palette are merged into one slice
+export async function tagPieChart(report: TransactionReport): Promise<ChartImage | null> {
+  const slices = Object.entries(report.byTag)
+    .map(([tag, data]) => ({ label: tag === 'No Tag' ? 'بدون تگ' : `#${tag}`, value: data.totalWithdrawal }))
+    .filter(slice => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+  if (slices.length === 0) {
+    return null;
+  }
+  const shown = slices.length > PALETTE.length ? slices.slice(0, PALETTE.length - 1) : slices;
+  const rest = slices.slice(shown.length).reduce((sum, slice) => sum + slice.value, 0);
+  const parts = shown.map((slice, i) => ({ ...slice, ...PALETTE[i] }));
+  if (rest > 0) {
+    parts.push({ label: 'سایر', value: rest, ...OTHER });
+  }
+  const total = parts.reduce((sum, part) => sum + part.value, 0);
+
+  const raster = createRaster(WIDTH * SCALE, HEIGHT * SCALE);
+  const radius = (HEIGHT / 2 - 30) * SCALE;
+  let angle = 0;
+  for (const part of parts) {
+    const sweep = (part.value / total) * Math.PI * 2;
+    fillSector(raster, (WIDTH / 2) * SCALE, (HEIGHT / 2) * SCALE, radius, angle, angle + sweep, part.color);
+    angle += sweep;
+  }
+
+  const lines = parts.map(part =>
+    `${part.key} ${part.label}: ${Math.round((part.value / total) * 100).toLocaleString('fa-IR')}٪ (${part.value.toLocaleString('fa-IR')} ریال)`
+  );
+  return image('pie', raster, `🥧 برداشت‌ها بر اساس تگ | 🗓 ${report.period}`, lines);
+}
+
+// Deposits next to withdrawals for each Jalali month, oldest on the left
+export async function monthlyBarChart(report: TransactionReport): Promise<ChartImage | null> {
+  const months = new Map<string, { deposit: number; withdrawal: number }>();
+  for (const tx of report.transactions) {
+    if (tx.transfer_id != null) {
+      continue;
+    }
+    const month = tx.date.slice(0, 7);
+    const totals = months.get(month) || { deposit: 0, withdrawal: 0 };
+    if (tx.transaction_type === 'withdrawal' && tx.withdrawal_amount != null) {
+      totals.withdrawal += tx.withdrawal_amount;
+    } else if (tx.transaction_type === 'deposit' && tx.deposit_amount != null) {
+      totals.deposit += tx.deposit_amount;
+    }
+    months.set(month, totals);
+  }
+  const entries = [...months.entries()].sort(([a], [b]) => a.localeCompare(b)).slice(-MAX_MONTHS);
+  const max = Math.max(...entries.map(([, totals]) => Math.max(totals.deposit, totals.withdrawal)), 0);
+  if (max === 0) {
+    return null;
+  }
+
+  const raster = createRaster(WIDTH * SCALE, HEIGHT * SCALE);
+  const plot = drawFrame(raster);
+  const groupWidth = plot.width / entries.length;
+  const barWidth = Math.min(groupWidth * 0.35, 60 * SCALE);
+  entries.forEach(([, totals], i) => {
+    const centre = plot.left + groupWidth * (i + 0.5);
+    for (const [value, offset, color] of [
+      [totals.deposit, -barWidth, DEPOSIT.color],
+      [totals.withdrawal, 0, WITHDRAWAL.color],
+    ] as [number, number, Color][]) {
+      const height = (value / max) * plot.height;
+      fillRect(raster, centre + offset, plot.bottom - height, barWidth, height, color);
+    }
+  });
+
+  const lines = entries.map(([month, totals], i) =>
+    `${(i + 1).toLocaleString('fa-IR')}. ${month}: ${DEPOSIT.key} ${totals.deposit.toLocaleString('fa-IR')} | ${WITHDRAWAL.key} ${totals.withdrawal.toLocaleString('fa-IR')}`
+  );
+  return image('bar', raster, `📊 واریز ${DEPOSIT.key} و برداشت ${WITHDRAWAL.key} ماهانه (ریال، از چپ به راست) | 🗓 ${report.period}`, lines);
+}
+
+// Balance of each account over time, from the same series the dashboard draws
+export async function balanceLineChart(report: TransactionReport): Promise<ChartImage | null> {
+  const series = buildDashboardData(report).balanceHistory
+    .filter(line => line.points.length > 0)
+    .slice(0, PALETTE.length);
+  const points = series.flatMap(line => line.points);
+  if (points.length === 0) {
+    return null;
+  }
+
+  const minX = Math.min(...points.map(point => point.x));
+  const maxX = Math.max(...points.map(point => point.x));
+  // Balances rarely approach zero, so the axis is fitted to the data to keep changes visible
+  const low = Math.min(...points.map(point => point.y));
+  const high = Math.max(...points.map(point => point.y));
+  const padding = Math.max((high - low) * 0.05, 1);
+  const minY = low - padding;
+  const maxY = high + padding;
+
+  const raster = createRaster(WIDTH * SCALE, HEIGHT * SCALE);
+  const plot = drawFrame(raster);
+  const scaleX = (x: number) => plot.left + (maxX === minX ? plot.width / 2 : ((x - minX) / (maxX - minX)) * plot.width);
+  const scaleY = (y: number) => plot.bottom - ((y - minY) / (maxY - minY)) * plot.height;
+  series.forEach((line, i) => {
+    const scaled = line.points.map(point => [scaleX(point.x), scaleY(point.y)] as [number, number]);
+    drawPolyline(raster, scaled, PALETTE[i].color, 3 * SCALE);
+    for (const [x, y] of scaled) {
+      fillCircle(raster, x, y, 4 * SCALE, PALETTE[i].color);
+    }
+  });
+
+  const lines = series.map((line, i) => {
+    const balances = line.points.map(point => point.y);
+    return `${PALETTE[i].key} ${line.name}: ${balances[balances.length - 1].toLocaleString('fa-IR')} ریال ` +
+      `(کمینه ${Math.min(...balances).toLocaleString('fa-IR')}، بیشینه ${Math.max(...balances).toLocaleString('fa-IR')})`;
+  });
+  return image('line', raster, `📈 مانده حساب‌ها در طول زمان | 🗓 ${report.period}`, lines);
+}
+
+// Axes and four horizontal grid lines; returns the plot area in raster pixels
+function drawFrame(raster: Raster): { left: number; right: number; bottom: number; width: number; height: number } {
+  const left = 40 * SCALE;
+  const right = raster.width - 20 * SCALE;
+  const top = 20 * SCALE;
+  const bottom = raster.height - 30 * SCALE;
+  for (let i = 1; i <= 4; i++) {
+    const y = bottom - ((bottom - top) * i) / 4;
+    drawLine(raster, left, y, right, y, GRID, SCALE);
+  }
+  drawLine(raster, left, bottom, right, bottom, AXIS, 2 * SCALE);
+  drawLine(raster, left, top, left, bottom, AXIS, 2 * SCALE);
+  return { left, right, bottom, width: right - left, height: bottom - top };
+}
+
+async function image(kind: ChartKind, raster: Raster, title: string, lines: string[]): Promise<ChartImage> {
+  return { kind, png: await encodePng(downsample(raster, SCALE)), caption: fitCaption(title, lines) };
+}
+
+// Telegram rejects photo captions over 1024 characters
+function fitCaption(title: string, lines: string[]): string {
+  let caption = title;
+  for (const [i, line] of lines.entries()) {
+    const remaining = lines.length - i - 1;
+    const more = remaining > 0 ? `\n… و ${remaining.toLocaleString('fa-IR')} مورد دیگر` : '';
+    if (caption.length + line.length + 1 + more.length > MAX_CAPTION_LENGTH) {
+      return `${caption}\n… و ${(lines.length - i).toLocaleString('fa-IR')} مورد دیگر`;
+    }
+    caption += `\n${line}`;
+  }
+  return caption;
+}
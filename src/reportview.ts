@@ -0,0 +1,319 @@
+import { formatAccountLabel } from './accounts';
+import { ReportFilters } from './filters';
+import { amount, bold, hashtag, html, Html, lines, ltr, truncateHtml } from './message';
+import { TransactionData } from './parser';
+import { TransactionReport } from './report';
+import { InlineKeyboardButton, InlineKeyboardMarkup } from './telegram';
+
+// s: summary, L/T: list of locations/tags, l/t: one location/tag, x: every transaction
+export type ReportScreen = 's' | 'L' | 'T' | 'l' | 't' | 'x';
+
+export interface ReportPage {
+  screen: ReportScreen;
+  // Position of the location or tag in its sorted list (l and t screens only)
+  index: number;
+  page: number;
+}
+
+export interface ReportView {
+  id: number;
+  chat_id: number;
+  filters: ReportFilters;
+  title: string | null;
+  created_at: number;
+}
+
+export interface RenderedReportPage {
+  text: Html;
+  keyboard: InlineKeyboardMarkup | null;
+}
+
+// Buttons of older report messages stop working after this
+export const REPORT_VIEW_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const LIST_PAGE_SIZE = 8;
+const TRANSACTION_PAGE_SIZE = 10;
+const MAX_TEXT_LENGTH = 4000;
+const DIVIDER = '═══════════════════════';
+const MAX_BUTTON_LABEL = 28;
+
+export async function createReportView(
+  db: D1Database,
+  chatId: number,
+  filters: ReportFilters,
+  title: string | null = null,
+  now: number = Date.now()
+): Promise<number> {
+  const [, inserted] = await db.batch([
+    db.prepare(`DELETE FROM report_views WHERE created_at < ?`).bind(now - REPORT_VIEW_TTL_MS),
+    db.prepare(`INSERT INTO report_views (chat_id, filters, title, created_at) VALUES (?, ?, ?, ?)`)
+      .bind(chatId, JSON.stringify(filters), title, now),
+  ]);
+  return inserted.meta.last_row_id;
+}
+
+export async function getReportView(db: D1Database, chatId: number, id: number): Promise<ReportView | null> {
+  const row = await db.prepare(`SELECT id, chat_id, filters, title, created_at FROM report_views WHERE chat_id = ? AND id = ?`)
+    .bind(chatId, id)
+    .first<Omit<ReportView, 'filters'> & { filters: string }>();
+  return row ? { ...row, filters: JSON.parse(row.filters) as ReportFilters } : null;
+}
+
+export function encodeReportCallback(viewId: number, page: ReportPage): string {
+  return `rp:${viewId}:${page.screen}:${page.index}:${page.page}`;
+}
+
+export function parseReportCallback(data: string | undefined): { viewId: number; page: ReportPage } | null {
+  const match = data?.match(/^rp:(\d+):([sLTltx]):(\d+):(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    viewId: Number(match[1]),
+    page: { screen: match[2] as ReportScreen, index: Number(match[3]), page: Number(match[4]) },
+  };
+}
+
+export function renderReportPage(
+  report: TransactionReport,
+  viewId: number,
+  page: ReportPage = { screen: 's', index: 0, page: 0 },
+  title: string | null = null
+): RenderedReportPage {
+  const rendered = renderScreen(report, viewId, page);
+  const text = title ? lines(title, '', rendered.text) : rendered.text;
+  return { text: truncateHtml(text, MAX_TEXT_LENGTH), keyboard: rendered.keyboard };
+}
+
+function renderScreen(report: TransactionReport, viewId: number, page: ReportPage): RenderedReportPage {
+  switch (page.screen) {
+    case 'L':
+      return renderGroupList(report, viewId, 'location', page.page);
+    case 'T':
+      return renderGroupList(report, viewId, 'tag', page.page);
+    case 'l':
+      return renderGroup(report, viewId, 'location', page.index, page.page);
+    case 't':
+      return renderGroup(report, viewId, 'tag', page.index, page.page);
+    case 'x':
+      return renderTransactions(report, viewId, page.page);
+    default:
+      return renderSummary(report, viewId);
+  }
+}
+
+function renderSummary(report: TransactionReport, viewId: number): RenderedReportPage {
+  const summary = lines(
+    bold('📊 گزارش جامع تراکنش‌ها'),
+    html`🗓 بازه: ${report.period}`,
+    DIVIDER,
+    bold('📋 خلاصه کلی:'),
+    html`🔢 تعداد تراکنش‌ها: ${count(report.transactionCount)}`,
+    html`💸 مجموع برداشت: ${amount(report.totalWithdrawal)}`,
+    html`💰 مجموع واریز: ${amount(report.totalDeposit)}`,
+    html`📈 اثر خالص: ${amount(report.totalAmount)}`,
+    report.transfers.count > 0 &&
+      html`🔁 انتقال بین حساب‌های خودی (خارج از مجموع‌ها): ${count(report.transfers.count)} تراکنش | 💸 ${bold(count(report.transfers.totalWithdrawal))} | 💰 ${amount(report.transfers.totalDeposit)}`
+  );
+
+  const accounts = Object.entries(report.byAccount);
+  const byAccount = accounts.length > 0 && lines(
+    DIVIDER,
+    bold('🏦 تفکیک بر اساس حساب:'),
+    ...accounts.map(([account, data]) => lines(
+      '',
+      html`💳 حساب: ${bold(formatAccountLabel(account, data.nickname))}`,
+      html`🔢 تعداد تراکنش‌ها: ${count(data.count)}`,
+      html`💸 مجموع برداشت: ${amount(data.totalWithdrawal)}`,
+      html`💰 مجموع واریز: ${amount(data.totalDeposit)}`,
+      html`🏧 آخرین مانده: ${amount(data.latestBalance)} (${ltr(`${data.latestDate} ${data.latestTime}`)})`
+    ))
+  );
+
+  // Only worth a section once more than one person has added transactions
+  const members = Object.entries(report.byMember);
+  const byMember = members.length > 1 && lines(
+    DIVIDER,
+    bold('👥 تفکیک بر اساس عضو:'),
+    ...members.map(([userId, data]) => lines(
+      '',
+      html`👤 ${bold(userId === 'unknown' ? 'نامشخص' : data.name || `کاربر ${userId}`)}: ${count(data.count)} تراکنش`,
+      html`💸 برداشت: ${amount(data.totalWithdrawal)} | 💰 واریز: ${amount(data.totalDeposit)}`
+    ))
+  );
+
+  const text = lines(summary, byAccount, byMember);
+  if (report.transactionCount === 0) {
+    return { text: lines(text, '', '⚠️ هیچ تراکنشی یافت نشد.'), keyboard: null };
+  }
+  return {
+    text,
+    keyboard: {
+      inline_keyboard: [
+        [
+          button(`📍 مکان‌ها (${count(groupKeys(report, 'location').length)})`, viewId, { screen: 'L', index: 0, page: 0 }),
+          button(`📑 تگ‌ها (${count(groupKeys(report, 'tag').length)})`, viewId, { screen: 'T', index: 0, page: 0 }),
+        ],
+        [button(`🧾 همه تراکنش‌ها (${count(report.transactionCount)})`, viewId, { screen: 'x', index: 0, page: 0 })],
+      ],
+    },
+  };
+}
+
+function renderGroupList(report: TransactionReport, viewId: number, field: 'location' | 'tag', requestedPage: number): RenderedReportPage {
+  const keys = groupKeys(report, field);
+  const { page, pageCount, start } = paginate(keys.length, LIST_PAGE_SIZE, requestedPage);
+  const breakdown = field === 'location' ? report.byLocation : report.byTag;
+
+  const rows: InlineKeyboardButton[][] = [];
+  const groups = keys.slice(start, start + LIST_PAGE_SIZE).map((key, i) => {
+    const data = breakdown[key];
+    rows.push([button(groupLabel(field, key), viewId, { screen: field === 'location' ? 'l' : 't', index: start + i, page: 0 })]);
+    return lines(
+      '',
+      bold(groupLabel(field, key)),
+      html`🔢 ${count(data.count)} تراکنش | 💸 ${bold(count(data.totalWithdrawal))} | 💰 ${bold(count(data.totalDeposit))}`
+    );
+  });
+
+  return {
+    text: lines(
+      html`${bold(field === 'location' ? '📍 تفکیک بر اساس مکان' : '📑 تفکیک بر اساس تگ')} | 🗓 ${report.period}`,
+      pageLabel(page, pageCount),
+      DIVIDER,
+      ...groups
+    ),
+    keyboard: {
+      inline_keyboard: [
+        ...rows,
+        ...navigationRow(viewId, { screen: field === 'location' ? 'L' : 'T', index: 0, page }, pageCount),
+        [button('🔙 خلاصه', viewId, { screen: 's', index: 0, page: 0 })],
+      ],
+    },
+  };
+}
+
+function renderGroup(
+  report: TransactionReport,
+  viewId: number,
+  field: 'location' | 'tag',
+  index: number,
+  requestedPage: number
+): RenderedReportPage {
+  const keys = groupKeys(report, field);
+  const key = keys[index];
+  if (key === undefined) {
+    // The data changed since the message was sent; fall back to the list
+    return renderGroupList(report, viewId, field, 0);
+  }
+  const data = (field === 'location' ? report.byLocation : report.byTag)[key];
+  // Transfers are not part of the location and tag totals, so they are not listed under them either
+  const transactions = report.transactions.filter(tx => tx.transfer_id == null && groupKey(tx, field) === key);
+  const { page, pageCount, start } = paginate(transactions.length, TRANSACTION_PAGE_SIZE, requestedPage);
+
+  return {
+    text: lines(
+      html`${bold(groupLabel(field, key))} | 🗓 ${report.period}`,
+      html`🔢 تعداد تراکنش‌ها: ${count(data.count)}`,
+      html`💸 مجموع برداشت: ${amount(data.totalWithdrawal)}`,
+      html`💰 مجموع واریز: ${amount(data.totalDeposit)}`,
+      DIVIDER,
+      transactionLines(transactions.slice(start, start + TRANSACTION_PAGE_SIZE)),
+      '',
+      pageLabel(page, pageCount)
+    ),
+    keyboard: {
+      inline_keyboard: [
+        ...navigationRow(viewId, { screen: field === 'location' ? 'l' : 't', index, page }, pageCount),
+        [button(
+          field === 'location' ? '🔙 مکان‌ها' : '🔙 تگ‌ها',
+          viewId,
+          { screen: field === 'location' ? 'L' : 'T', index: 0, page: Math.floor(index / LIST_PAGE_SIZE) }
+        )],
+      ],
+    },
+  };
+}
+
+function renderTransactions(report: TransactionReport, viewId: number, requestedPage: number): RenderedReportPage {
+  const { page, pageCount, start } = paginate(report.transactions.length, TRANSACTION_PAGE_SIZE, requestedPage);
+
+  return {
+    text: lines(
+      html`${bold('🧾 همه تراکنش‌ها')} | 🗓 ${report.period}`,
+      DIVIDER,
+      transactionLines(report.transactions.slice(start, start + TRANSACTION_PAGE_SIZE)),
+      '',
+      pageLabel(page, pageCount)
+    ),
+    keyboard: {
+      inline_keyboard: [
+        ...navigationRow(viewId, { screen: 'x', index: 0, page }, pageCount),
+        [button('🔙 خلاصه', viewId, { screen: 's', index: 0, page: 0 })],
+      ],
+    },
+  };
+}
+
+function transactionLines(transactions: TransactionData[]): Html {
+  if (transactions.length === 0) {
+    return html`⚠️ هیچ تراکنشی یافت نشد.`;
+  }
+  return lines(...transactions.map(tx => {
+    const isDeposit = tx.transaction_type === 'deposit';
+    const icon = tx.transfer_id != null ? '🔁' : isDeposit ? '📥' : '📤';
+    return lines(
+      html`${icon} ${ltr(`${tx.date} ${tx.time}`)}: ${amount(isDeposit ? tx.deposit_amount : tx.withdrawal_amount)}`,
+      html`   📍 ${tx.location || 'نامشخص'} | ${hashtag(tx.tag || 'بدون_تگ')}`
+    );
+  }));
+}
+
+// Most used first, so the first page of a list shows where the money went
+function groupKeys(report: TransactionReport, field: 'location' | 'tag'): string[] {
+  const breakdown = field === 'location' ? report.byLocation : report.byTag;
+  return Object.entries(breakdown)
+    .sort(([keyA, a], [keyB, b]) => b.count - a.count || keyA.localeCompare(keyB))
+    .map(([key]) => key);
+}
+
+// Must match the keys buildTransactionReport groups by
+function groupKey(tx: TransactionData, field: 'location' | 'tag'): string {
+  return field === 'location' ? tx.location || 'No Location' : tx.tag || 'No Tag';
+}
+
+function groupLabel(field: 'location' | 'tag', key: string): string {
+  if (field === 'location') {
+    return `🏬 ${key === 'No Location' ? 'نامشخص' : key}`;
+  }
+  return key === 'No Tag' ? '🏷 بدون تگ' : `🏷 #${key}`;
+}
+
+function count(value: number): string {
+  return value.toLocaleString('fa-IR');
+}
+
+function pageLabel(page: number, pageCount: number): string {
+  return `صفحه ${count(page + 1)} از ${count(pageCount)}`;
+}
+
+function paginate(total: number, size: number, requested: number): { page: number; pageCount: number; start: number } {
+  const pageCount = Math.max(1, Math.ceil(total / size));
+  const page = Math.min(Math.max(requested, 0), pageCount - 1);
+  return { page, pageCount, start: page * size };
+}
+
+function navigationRow(viewId: number, current: ReportPage, pageCount: number): InlineKeyboardButton[][] {
+  const row: InlineKeyboardButton[] = [];
+  if (current.page > 0) {
+    row.push(button('« قبلی', viewId, { ...current, page: current.page - 1 }));
+  }
+  if (current.page < pageCount - 1) {
+    row.push(button('بعدی »', viewId, { ...current, page: current.page + 1 }));
+  }
+  return row.length > 0 ? [row] : [];
+}
+
+function button(label: string, viewId: number, page: ReportPage): InlineKeyboardButton {
+  const text = label.length > MAX_BUTTON_LABEL ? `${label.slice(0, MAX_BUTTON_LABEL - 1)}…` : label;
+  return { text, callback_data: encodeReportCallback(viewId, page) };
+}
@@ -0,0 +1,5 @@
+// Migration files are bundled as text (see the "rules" entry in wrangler.jsonc)
+declare module '*.sql' {
+  const content: string;
+  export default content;
+}
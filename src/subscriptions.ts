@@ -0,0 +1,161 @@
+import {
+  addJalaliDays,
+  formatJalaliDate,
+  JalaliDate,
+  jalaliMonthLength,
+  jalaliWeekday,
+  tehranMinuteOfDay,
+  tehranToday,
+} from './jalali';
+import { normalizeDigits } from './parser';
+
+export type SummaryFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface Subscription {
+  chat_id: number;
+  frequency: SummaryFrequency;
+  // HH:MM on a clock in Tehran
+  send_time: string;
+  last_period: string | null;
+  created_at: number;
+}
+
+export interface SummaryPeriod {
+  // Sortable within a frequency: YYYY/MM/DD for days and weeks (first day), YYYY/MM for months
+  key: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+export const DEFAULT_SEND_TIME = '21:00';
+
+const FREQUENCIES: SummaryFrequency[] = ['daily', 'weekly', 'monthly'];
+
+const FREQUENCY_LABELS: Record<SummaryFrequency, string> = {
+  daily: 'روزانه',
+  weekly: 'هفتگی',
+  monthly: 'ماهانه',
+};
+
+const FRIDAY = 6;
+
+// "daily 21:00" -> { frequency: 'daily', sendTime: '21:00' }; the time is optional
+export function parseSubscribeParams(params: string): { frequency: SummaryFrequency; sendTime: string } {
+  const [rawFrequency, rawTime] = normalizeDigits(params).trim().toLowerCase().split(/\s+/);
+  const frequency = FREQUENCIES.find(candidate => candidate === rawFrequency);
+  if (!frequency) {
+    throw new SubscriptionError('استفاده صحیح: /subscribe daily|weekly|monthly [HH:MM]');
+  }
+
+  if (!rawTime) {
+    return { frequency, sendTime: DEFAULT_SEND_TIME };
+  }
+  const match = rawTime.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new SubscriptionError(`ساعت «${rawTime}» نامعتبر است. مثال: 21:00`);
+  }
+  return { frequency, sendTime: `${match[1].padStart(2, '0')}:${match[2]}` };
+}
+
+export function parseFrequency(value: string): SummaryFrequency | null {
+  return FREQUENCIES.find(candidate => candidate === value.trim().toLowerCase()) || null;
+}
+
+// The most recent period whose summary was due by `now`: a day, a Saturday–Friday week or a Jalali month,
+// each sent on its last day at the subscription's time in Tehran.
+export function duePeriod(frequency: SummaryFrequency, sendTime: string, now: number = Date.now()): SummaryPeriod {
+  const today = tehranToday(now);
+  const [hours, minutes] = sendTime.split(':').map(Number);
+  const reached = tehranMinuteOfDay(now) >= hours * 60 + minutes;
+
+  if (frequency === 'daily') {
+    const day = formatJalaliDate(reached ? today : addJalaliDays(today, -1));
+    return { key: day, from: day, to: day, label: `روز ${day}` };
+  }
+
+  if (frequency === 'weekly') {
+    const daysSinceFriday = (jalaliWeekday(today) - FRIDAY + 7) % 7;
+    let friday = addJalaliDays(today, -daysSinceFriday);
+    if (daysSinceFriday === 0 && !reached) {
+      friday = addJalaliDays(friday, -7);
+    }
+    const from = formatJalaliDate(addJalaliDays(friday, -6));
+    const to = formatJalaliDate(friday);
+    return { key: from, from, to, label: `هفته ${from} تا ${to}` };
+  }
+
+  const isLastDay = today.day === jalaliMonthLength(today.year, today.month);
+  const month: JalaliDate = isLastDay && reached
+    ? today
+    : today.month === 1 ? { year: today.year - 1, month: 12, day: 1 } : { year: today.year, month: today.month - 1, day: 1 };
+  const from = formatJalaliDate({ ...month, day: 1 });
+  const to = formatJalaliDate({ ...month, day: jalaliMonthLength(month.year, month.month) });
+  return { key: from.slice(0, 7), from, to, label: `ماه ${from.slice(0, 7)}` };
+}
+
+// The period that is already due when subscribing is marked as sent, so the first summary is the next one
+export async function subscribe(
+  db: D1Database,
+  chatId: number,
+  frequency: SummaryFrequency,
+  sendTime: string,
+  now: number = Date.now()
+): Promise<void> {
+  await db.prepare(`
+    INSERT INTO subscriptions (chat_id, frequency, send_time, last_period, created_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (chat_id, frequency) DO UPDATE SET
+      send_time = excluded.send_time,
+      last_period = MAX(COALESCE(last_period, ''), excluded.last_period)
+  `).bind(chatId, frequency, sendTime, duePeriod(frequency, sendTime, now).key, now).run();
+}
+
+// Without a frequency every subscription of the chat is removed
+export async function unsubscribe(db: D1Database, chatId: number, frequency?: SummaryFrequency): Promise<number> {
+  const result = frequency
+    ? await db.prepare(`DELETE FROM subscriptions WHERE chat_id = ? AND frequency = ?`).bind(chatId, frequency).run()
+    : await db.prepare(`DELETE FROM subscriptions WHERE chat_id = ?`).bind(chatId).run();
+  return result.meta.changes;
+}
+
+export async function listSubscriptions(db: D1Database, chatId?: number): Promise<Subscription[]> {
+  const statement = chatId === undefined
+    ? db.prepare(`SELECT * FROM subscriptions ORDER BY chat_id, frequency`)
+    : db.prepare(`SELECT * FROM subscriptions WHERE chat_id = ? ORDER BY frequency`).bind(chatId);
+  return (await statement.all<Subscription>()).results;
+}
+
+// Marks the period as sent; false when it already was, e.g. by an overlapping cron run
+export async function claimPeriod(db: D1Database, subscription: Subscription, periodKey: string): Promise<boolean> {
+  const result = await db.prepare(`
+    UPDATE subscriptions SET last_period = ?
+    WHERE chat_id = ? AND frequency = ? AND (last_period IS NULL OR last_period < ?)
+  `).bind(periodKey, subscription.chat_id, subscription.frequency, periodKey).run();
+  return result.meta.changes > 0;
+}
+
+export function formatSummaryTitle(frequency: SummaryFrequency): string {
+  return `⏰ خلاصه ${FREQUENCY_LABELS[frequency]}`;
+}
+
+export function formatSubscriptions(subscriptions: Subscription[]): string {
+  if (subscriptions.length === 0) {
+    return `⚠️ هیچ گزارش زمان‌بندی‌شده‌ای فعال نیست.\n\nبرای فعال‌سازی: /subscribe daily|weekly|monthly [HH:MM]`;
+  }
+
+  let message = `⏰ گزارش‌های زمان‌بندی‌شده (به وقت تهران):\n`;
+  for (const subscription of subscriptions) {
+    message += `\n• ${FREQUENCY_LABELS[subscription.frequency]} ساعت ${subscription.send_time}`;
+  }
+  message += `\n\nگزارش هفتگی جمعه‌ها و گزارش ماهانه در روز آخر ماه ارسال می‌شود.\n`;
+  message += `برای لغو: /unsubscribe daily|weekly|monthly یا /unsubscribe برای همه\n`;
+  return message;
+}
@@ -0,0 +1,202 @@
+import { TransactionData } from './parser';
+
+export type TagSource = 'user' | 'rule' | 'suggested';
+export type RuleField = 'location' | 'method';
+
+export interface TagRule {
+  id: number;
+  chat_id: number;
+  field: RuleField;
+  pattern: string;
+  tag: string;
+  created_at: number;
+}
+
+export interface TagSuggestion {
+  tag: string;
+  // Only set when the transaction itself has no location
+  location: string | null;
+  confidence: number;
+  source: Exclude<TagSource, 'user'>;
+}
+
+export interface HistoryRow {
+  tag: string;
+  location: string;
+  transaction_type: 'withdrawal' | 'deposit';
+  transaction_method: string;
+  withdrawal_amount: number | null;
+  deposit_amount: number | null;
+}
+
+// Suggestions below this confidence are offered on the keyboard but not applied
+export const SUGGESTION_THRESHOLD = 0.5;
+
+const HISTORY_LIMIT = 500;
+const MIN_SIMILARITY = 0.25;
+const RULE_FIELDS: RuleField[] = ['location', 'method'];
+
+export async function listTagRules(db: D1Database, chatId: number): Promise<TagRule[]> {
+  const result = await db.prepare(`SELECT * FROM tag_rules WHERE chat_id = ? ORDER BY id ASC`)
+    .bind(chatId)
+    .all<TagRule>();
+  return result.results;
+}
+
+export async function addTagRule(db: D1Database, chatId: number, field: RuleField, pattern: string, tag: string): Promise<number> {
+  const result = await db.prepare(`
+    INSERT INTO tag_rules (chat_id, field, pattern, tag, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).bind(chatId, field, pattern, tag, Date.now()).run();
+  return result.meta.last_row_id;
+}
+
+export async function deleteTagRule(db: D1Database, chatId: number, id: number): Promise<boolean> {
+  const result = await db.prepare(`DELETE FROM tag_rules WHERE chat_id = ? AND id = ?`).bind(chatId, id).run();
+  return result.meta.changes > 0;
+}
+
+// "location=Snapp tag=transport" -> { field: 'location', pattern: 'Snapp', tag: 'transport' }
+export function parseRuleParams(params: string): { field: RuleField; pattern: string; tag: string } | null {
+  const values: Record<string, string> = {};
+  for (const match of params.matchAll(/(\w+)=(.*?)(?=\s+\w+=|$)/g)) {
+    values[match[1].toLowerCase()] = match[2].trim();
+  }
+
+  const field = RULE_FIELDS.find(candidate => values[candidate]);
+  const tag = values.tag?.replace(/^#/, '');
+  if (!field || !tag) {
+    return null;
+  }
+  return { field, pattern: values[field], tag };
+}
+
+export function matchRule(rules: TagRule[], tx: TransactionData): TagRule | null {
+  for (const rule of rules) {
+    const text = rule.field === 'location' ? tx.location : tx.transaction_method;
+    if (text && text.toLowerCase().includes(rule.pattern.toLowerCase())) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+// Weighs past transactions of the same account by how much they resemble the new one
+// (merchant text, method and amount) and returns the tag with the strongest support.
+export function suggestFromHistory(tx: TransactionData, history: HistoryRow[]): TagSuggestion | null {
+  const hasLocation = isKnown(tx.location);
+  const weights = hasLocation ? { location: 0.6, method: 0.15, amount: 0.25 } : { location: 0, method: 0.35, amount: 0.65 };
+  const amount = transactionAmount(tx);
+
+  const byTag: Record<string, { total: number; best: number; locations: Record<string, number> }> = {};
+  let total = 0;
+
+  for (const row of history) {
+    if (!row.tag || row.transaction_type !== tx.transaction_type) {
+      continue;
+    }
+
+    const similarity =
+      weights.location * textSimilarity(tx.location, row.location) +
+      weights.method * (isKnown(tx.transaction_method) && tx.transaction_method === row.transaction_method ? 1 : 0) +
+      weights.amount * amountSimilarity(amount, transactionAmount(row));
+    if (similarity < MIN_SIMILARITY) {
+      continue;
+    }
+
+    const entry = byTag[row.tag] ||= { total: 0, best: 0, locations: {} };
+    entry.total += similarity;
+    entry.best = Math.max(entry.best, similarity);
+    if (isKnown(row.location)) {
+      entry.locations[row.location] = (entry.locations[row.location] || 0) + 1;
+    }
+    total += similarity;
+  }
+
+  const [top] = Object.entries(byTag).sort(([, a], [, b]) => b.total - a.total);
+  if (!top) {
+    return null;
+  }
+
+  const [tag, entry] = top;
+  const [location] = Object.entries(entry.locations).sort(([, a], [, b]) => b - a)[0] || [null];
+  return {
+    tag,
+    location: hasLocation ? null : location,
+    confidence: Math.round((entry.total / total) * entry.best * 100) / 100,
+    source: 'suggested',
+  };
+}
+
+export async function suggestTag(db: D1Database, chatId: number, tx: TransactionData): Promise<TagSuggestion | null> {
+  const rule = matchRule(await listTagRules(db, chatId), tx);
+  if (rule) {
+    return { tag: rule.tag, location: null, confidence: 1, source: 'rule' };
+  }
+
+  const history = await db.prepare(`
+    SELECT tag, location, transaction_type, transaction_method, withdrawal_amount, deposit_amount
+    FROM transactions
+    WHERE chat_id = ? AND account_number = ? AND tag IS NOT NULL AND tag != ''
+    ORDER BY occurred_at DESC
+    LIMIT ?
+  `).bind(chatId, tx.account_number, HISTORY_LIMIT).all<HistoryRow>();
+
+  return suggestFromHistory(tx, history.results);
+}
+
+export function formatTagRules(rules: TagRule[]): string {
+  if (rules.length === 0) {
+    return `⚠️ هنوز هیچ قاعده‌ای تعریف نشده است.\n\n` +
+      `برای افزودن: rule add location=<متن> tag=<تگ>\n` +
+      `یا: rule add method=<روش> tag=<تگ>`;
+  }
+
+  let message = `📐 قواعد تگ‌گذاری:\n`;
+  message += `═══════════════════════\n`;
+  for (const rule of rules) {
+    const field = rule.field === 'location' ? '📍 مکان' : '💳 روش';
+    message += `\n🆔 ${rule.id} | ${field} شامل «${rule.pattern}» ← #${rule.tag}`;
+  }
+  message += `\n\nبرای افزودن: rule add location=<متن> tag=<تگ>\n`;
+  message += `برای حذف: rule delete <شناسه>\n`;
+  return message;
+}
+
+function isKnown(value: string | null | undefined): value is string {
+  return !!value && value !== 'Unknown';
+}
+
+function transactionAmount(row: Pick<HistoryRow, 'transaction_type' | 'withdrawal_amount' | 'deposit_amount'>): number {
+  return (row.transaction_type === 'deposit' ? row.deposit_amount : row.withdrawal_amount) ?? 0;
+}
+
+function textSimilarity(a: string, b: string): number {
+  if (!isKnown(a) || !isKnown(b)) {
+    return 0;
+  }
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  if (left === right) {
+    return 1;
+  }
+  if (left.includes(right) || right.includes(left)) {
+    return 0.8;
+  }
+
+  const leftWords = new Set(left.split(/\s+/));
+  const rightWords = new Set(right.split(/\s+/));
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  return shared / new Set([...leftWords, ...rightWords]).size;
+}
+
+function amountSimilarity(a: number, b: number): number {
+  if (!a || !b) {
+    return 0;
+  }
+  const difference = Math.abs(a - b) / Math.max(a, b);
+  if (difference === 0) return 1;
+  if (difference <= 0.05) return 0.7;
+  if (difference <= 0.2) return 0.3;
+  return 0;
+}
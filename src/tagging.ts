@@ -0,0 +1,99 @@
+import { InlineKeyboardButton, InlineKeyboardMarkup, MAX_CALLBACK_DATA_BYTES } from './telegram';
+
+export type TagField = 'tag' | 'location';
+
+export interface TagCallback {
+  action: TagField | 'skip';
+  transactionId: number;
+  value: string;
+}
+
+// Short prefixes leave more of the 64-byte callback_data for the (often Persian) value
+const ACTION_PREFIXES: Record<TagCallback['action'], string> = {
+  tag: 'tg',
+  location: 'lc',
+  skip: 'sk',
+};
+
+// Report keys that are placeholders rather than values a user picked
+const PLACEHOLDER_KEYS = ['No Tag', 'No Location', 'Unknown', ''];
+
+const MAX_TAG_BUTTONS = 6;
+const MAX_LOCATION_BUTTONS = 4;
+
+export function encodeTagCallback(action: TagCallback['action'], transactionId: number, value: string = ''): string | null {
+  const data = `${ACTION_PREFIXES[action]}:${transactionId}:${value}`;
+  return new TextEncoder().encode(data).length <= MAX_CALLBACK_DATA_BYTES ? data : null;
+}
+
+export function parseTagCallback(data: string | undefined): TagCallback | null {
+  const match = data?.match(/^(tg|lc|sk):(\d+):(.*)$/s);
+  if (!match) {
+    return null;
+  }
+  const action = (Object.keys(ACTION_PREFIXES) as TagCallback['action'][]).find(key => ACTION_PREFIXES[key] === match[1])!;
+  return { action, transactionId: Number(match[2]), value: match[3] };
+}
+
+// Most used keys of a report breakdown (byTag / byLocation), placeholders excluded
+export function mostUsed(breakdown: Record<string, { count: number }>, limit: number): string[] {
+  return Object.entries(breakdown)
+    .filter(([key]) => !PLACEHOLDER_KEYS.includes(key))
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+export function buildTaggingKeyboard(
+  transactionId: number,
+  options: { tags: string[]; locations: string[]; suggestedTag?: string }
+): InlineKeyboardMarkup | null {
+  // Confirming a suggestion is just picking it, so it shares the tag callback and leads the list
+  const { suggestedTag } = options;
+  const tags = suggestedTag ? [suggestedTag, ...options.tags.filter(tag => tag !== suggestedTag)] : options.tags;
+  const tagButtons = buttonsFor('tag', transactionId, tags.slice(0, MAX_TAG_BUTTONS), tag =>
+    tag === suggestedTag ? `✅ #${tag}` : `#${tag}`
+  );
+  const locationButtons = buttonsFor('location', transactionId, options.locations.slice(0, MAX_LOCATION_BUTTONS), loc => `📍 ${loc}`);
+  if (tagButtons.length === 0 && locationButtons.length === 0) {
+    return null;
+  }
+
+  return {
+    inline_keyboard: [
+      ...chunk(tagButtons, 3),
+      ...chunk(locationButtons, 2),
+      [{ text: '❌ بعداً', callback_data: encodeTagCallback('skip', transactionId)! }],
+    ],
+  };
+}
+
+// Drops the buttons for a field that has just been set; returns null once only "skip" is left
+export function removeFieldButtons(markup: InlineKeyboardMarkup | undefined, field: TagField): InlineKeyboardMarkup | null {
+  const prefix = `${ACTION_PREFIXES[field]}:`;
+  const rows = (markup?.inline_keyboard || [])
+    .map(row => row.filter(button => !button.callback_data?.startsWith(prefix)))
+    .filter(row => row.length > 0);
+
+  const hasChoices = rows.some(row => row.some(button => !button.callback_data?.startsWith(`${ACTION_PREFIXES.skip}:`)));
+  return hasChoices ? { inline_keyboard: rows } : null;
+}
+
+function buttonsFor(field: TagField, transactionId: number, values: string[], label: (value: string) => string): InlineKeyboardButton[] {
+  const buttons: InlineKeyboardButton[] = [];
+  for (const value of values) {
+    const data = encodeTagCallback(field, transactionId, value);
+    if (data) {
+      buttons.push({ text: label(value), callback_data: data });
+    }
+  }
+  return buttons;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    rows.push(items.slice(i, i + size));
+  }
+  return rows;
+}
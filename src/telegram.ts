@@ -0,0 +1,174 @@
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: { id: number };
+  message?: {
+    message_id: number;
+    chat: { id: number };
+    reply_markup?: InlineKeyboardMarkup;
+  };
+  data?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+}
+
+export interface TelegramDocument {
+  file_id: string;
+  file_name?: string;
+  mime_type?: string;
+  file_size?: number;
+}
+
+export class TelegramError extends Error {
+  status: number;
+  retryAfter?: number;
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = 'TelegramError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Telegram limits callback_data to 64 bytes
+export const MAX_CALLBACK_DATA_BYTES = 64;
+
+// File uploads go out as multipart FormData, everything else as JSON
+export async function callTelegram<T = unknown>(token: string, method: string, body: Record<string, unknown> | FormData): Promise<T> {
+  const response = await fetch(`https://api.telegram.org/bot${token}/${method}`, {
+    method: 'POST',
+    ...(body instanceof FormData
+      ? { body }
+      : { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+  });
+
+  const payload = await response.json<{
+    ok: boolean;
+    result?: T;
+    description?: string;
+    parameters?: { retry_after?: number };
+  }>().catch(() => null);
+
+  if (!response.ok || !payload?.ok) {
+    throw new TelegramError(
+      `Telegram ${method} failed with status ${response.status}: ${payload?.description || 'no description'}`,
+      response.status,
+      payload?.parameters?.retry_after
+    );
+  }
+  return payload.result as T;
+}
+
+export function sendMessage(
+  token: string,
+  chatId: number,
+  text: string,
+  options: { replyMarkup?: InlineKeyboardMarkup; parseMode?: 'Markdown' | 'MarkdownV2' | 'HTML' } = {}
+): Promise<TelegramMessage> {
+  return callTelegram<TelegramMessage>(token, 'sendMessage', {
+    chat_id: chatId,
+    text,
+    ...(options.parseMode ? { parse_mode: options.parseMode } : {}),
+    ...(options.replyMarkup ? { reply_markup: options.replyMarkup } : {}),
+  });
+}
+
+export function answerCallbackQuery(token: string, callbackQueryId: string, text?: string): Promise<boolean> {
+  return callTelegram<boolean>(token, 'answerCallbackQuery', {
+    callback_query_id: callbackQueryId,
+    ...(text ? { text } : {}),
+  });
+}
+
+// Passing no markup removes the keyboard from the message
+export function editMessageReplyMarkup(
+  token: string,
+  chatId: number,
+  messageId: number,
+  replyMarkup?: InlineKeyboardMarkup
+): Promise<unknown> {
+  return callTelegram(token, 'editMessageReplyMarkup', {
+    chat_id: chatId,
+    message_id: messageId,
+    reply_markup: replyMarkup ?? { inline_keyboard: [] },
+  });
+}
+
+// Passing no markup removes the keyboard, as with editMessageReplyMarkup
+export function editMessageText(
+  token: string,
+  chatId: number,
+  messageId: number,
+  text: string,
+  options: { replyMarkup?: InlineKeyboardMarkup; parseMode?: 'Markdown' | 'MarkdownV2' | 'HTML' } = {}
+): Promise<unknown> {
+  return callTelegram(token, 'editMessageText', {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    ...(options.parseMode ? { parse_mode: options.parseMode } : {}),
+    reply_markup: options.replyMarkup ?? { inline_keyboard: [] },
+  });
+}
+
+// Telegram answers 400 when an edit would leave the message as it was, e.g. a double tap
+export function isMessageNotModified(error: unknown): boolean {
+  return error instanceof TelegramError && error.status === 400 && /message is not modified/i.test(error.message);
+}
+
+export function sendDocument(
+  token: string,
+  chatId: number,
+  file: { name: string; content: string | Uint8Array; type: string },
+  options: { caption?: string } = {}
+): Promise<TelegramMessage> {
+  const form = new FormData();
+  form.append('chat_id', String(chatId));
+  form.append('document', new File([file.content], file.name, { type: file.type }));
+  if (options.caption) {
+    form.append('caption', options.caption);
+  }
+  return callTelegram<TelegramMessage>(token, 'sendDocument', form);
+}
+
+export function sendPhoto(
+  token: string,
+  chatId: number,
+  photo: { name: string; content: Uint8Array; type: string },
+  options: { caption?: string } = {}
+): Promise<TelegramMessage> {
+  const form = new FormData();
+  form.append('chat_id', String(chatId));
+  form.append('photo', new File([photo.content], photo.name, { type: photo.type }));
+  if (options.caption) {
+    form.append('caption', options.caption);
+  }
+  return callTelegram<TelegramMessage>(token, 'sendPhoto', form);
+}
+
+// Bots may download files of up to 20 MB
+export async function downloadFile(token: string, fileId: string): Promise<ArrayBuffer> {
+  const file = await callTelegram<{ file_path?: string }>(token, 'getFile', { file_id: fileId });
+  if (!file.file_path) {
+    throw new TelegramError('Telegram getFile returned no file_path', 200);
+  }
+
+  const response = await fetch(`https://api.telegram.org/file/bot${token}/${file.file_path}`);
+  if (!response.ok) {
+    throw new TelegramError(`Telegram file download failed with status ${response.status}`, response.status);
+  }
+  return response.arrayBuffer();
+}
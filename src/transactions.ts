@@ -0,0 +1,326 @@
+import { ReportFilters } from './filters';
+import { TransactionData } from './parser';
+import { TagSource, TagSuggestion } from './suggestions';
+
+export interface StoredTransaction extends TransactionData {
+  id: number;
+  chat_id: number;
+  balance_gap: number | null;
+  tag_source: TagSource | null;
+  tag_confidence: number | null;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// Fields a user may change after a transaction was saved
+export interface TransactionEdit {
+  tag?: string;
+  location?: string;
+}
+
+const EDITABLE_FIELDS: (keyof TransactionEdit)[] = ['tag', 'location'];
+
+export class DuplicateTransactionError extends Error {
+  constructor() {
+    super('Duplicate transaction');
+    this.name = 'DuplicateTransactionError';
+  }
+}
+
+export function auditStatement(
+  db: D1Database,
+  chatId: number,
+  transactionId: number,
+  action: AuditAction,
+  before: object | null,
+  after: object | null
+): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO transaction_audit (transaction_id, chat_id, action, before_json, after_json, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).bind(
+    transactionId,
+    chatId,
+    action,
+    before ? JSON.stringify(before) : null,
+    after ? JSON.stringify(after) : null,
+    Date.now()
+  );
+}
+
+export async function getTransaction(db: D1Database, chatId: number, id: number): Promise<StoredTransaction | null> {
+  return db.prepare(`SELECT * FROM transactions WHERE chat_id = ? AND id = ?`)
+    .bind(chatId, id)
+    .first<StoredTransaction>();
+}
+
+// With submittedBy, only that user's transactions count, so a member cannot undo someone else's
+export async function getLastTransaction(
+  db: D1Database,
+  chatId: number,
+  submittedBy?: number | null
+): Promise<StoredTransaction | null> {
+  if (submittedBy === undefined) {
+    return db.prepare(`SELECT * FROM transactions WHERE chat_id = ? ORDER BY id DESC LIMIT 1`)
+      .bind(chatId)
+      .first<StoredTransaction>();
+  }
+  return db.prepare(`SELECT * FROM transactions WHERE chat_id = ? AND submitted_by = ? ORDER BY id DESC LIMIT 1`)
+    .bind(chatId, submittedBy)
+    .first<StoredTransaction>();
+}
+
+export async function checkForDuplicateTransaction(
+  d1Database: D1Database,
+  chatId: number,
+  parsedData: TransactionData
+): Promise<boolean> {
+  let query = `
+    SELECT COUNT(*) as count
+    FROM transactions
+    WHERE chat_id = ?
+      AND account_number = ?
+      AND transaction_type = ?
+      AND occurred_at = ?
+      AND balance = ?`;
+  const params: unknown[] = [
+    chatId,
+    parsedData.account_number,
+    parsedData.transaction_type,
+    parsedData.occurred_at,
+    parsedData.balance,
+  ];
+
+  if (parsedData.transaction_type === 'withdrawal') {
+    query += ` AND withdrawal_amount = ?`;
+    params.push(parsedData.withdrawal_amount);
+  } else {
+    query += ` AND deposit_amount = ?`;
+    params.push(parsedData.deposit_amount);
+  }
+
+  const result = await d1Database.prepare(query)
+    .bind(...params)
+    .first<{ count: number }>();
+
+  return (result?.count ?? 0) > 0;
+}
+
+// Keys of the rows among `rows` that the chat already has, compared like checkForDuplicateTransaction.
+// One query per call keeps large imports within the per-invocation query limit.
+export async function findDuplicateTransactions(
+  db: D1Database,
+  chatId: number,
+  rows: TransactionData[]
+): Promise<Set<string>> {
+  const times = [...new Set(rows.map(row => row.occurred_at))];
+  if (times.length === 0) {
+    return new Set();
+  }
+  const result = await db.prepare(`
+    SELECT account_number, transaction_type, occurred_at, balance, withdrawal_amount, deposit_amount
+    FROM transactions
+    WHERE chat_id = ? AND occurred_at IN (${times.map(() => '?').join(', ')})
+  `).bind(chatId, ...times).all<TransactionData>();
+  return new Set(result.results.map(duplicateKey));
+}
+
+export function duplicateKey(data: TransactionData): string {
+  const amount = data.transaction_type === 'withdrawal' ? data.withdrawal_amount : data.deposit_amount;
+  return `${data.account_number}|${data.transaction_type}|${data.occurred_at}|${data.balance}|${amount}`;
+}
+
+// tag_source is 'user' for tags typed in the message, otherwise the suggestion's source
+export function insertTransactionStatement(
+  db: D1Database,
+  chatId: number,
+  data: TransactionData,
+  suggestion: TagSuggestion | null = null
+): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO transactions (
+      chat_id, bank_name, account_number, transaction_type,
+      withdrawal_amount, deposit_amount, transaction_method, branch_code,
+      balance, date, time, location, tag, timestamp, occurred_at,
+      tag_source, tag_confidence, submitted_by
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    chatId,
+    data.bank_name,
+    data.account_number,
+    data.transaction_type,
+    data.withdrawal_amount,
+    data.deposit_amount,
+    data.transaction_method,
+    data.branch_code,
+    data.balance,
+    data.date,
+    data.time,
+    data.location,
+    data.tag,
+    data.timestamp,
+    data.occurred_at,
+    data.tag ? (suggestion ? suggestion.source : 'user') : null,
+    suggestion ? suggestion.confidence : null,
+    data.submitted_by ?? null
+  );
+}
+
+// The 'create' audit entry for the row inserted by the statement right before it in the same batch, so a
+// transaction is never saved without its history
+export function createAuditStatement(db: D1Database): D1PreparedStatement {
+  return db.prepare(`
+    INSERT INTO transaction_audit (transaction_id, chat_id, action, before_json, after_json, created_at)
+    SELECT id, chat_id, 'create', NULL, json_object(
+      'id', id,
+      'chat_id', chat_id,
+      'bank_name', bank_name,
+      'account_number', account_number,
+      'transaction_type', transaction_type,
+      'withdrawal_amount', withdrawal_amount,
+      'deposit_amount', deposit_amount,
+      'transaction_method', transaction_method,
+      'branch_code', branch_code,
+      'balance', balance,
+      'date', date,
+      'time', time,
+      'location', location,
+      'tag', tag,
+      'timestamp', timestamp,
+      'occurred_at', occurred_at,
+      'tag_source', tag_source,
+      'tag_confidence', tag_confidence,
+      'submitted_by', submitted_by
+    ), ?
+    FROM transactions
+    WHERE id = last_insert_rowid()
+  `).bind(Date.now());
+}
+
+// Transactions of a chat matching the report filters, newest first
+export async function queryTransactions(
+  db: D1Database,
+  chatId: number,
+  filters: ReportFilters = {},
+  page: { limit?: number; offset?: number } = {}
+): Promise<StoredTransaction[]> {
+  const { where, params } = filterClause(chatId, filters);
+  let query = `SELECT * FROM transactions WHERE ${where} ORDER BY occurred_at DESC, id DESC`;
+  if (page.limit !== undefined) {
+    query += ` LIMIT ? OFFSET ?`;
+    params.push(page.limit, page.offset || 0);
+  }
+
+  const result = await db.prepare(query).bind(...params).all<StoredTransaction>();
+  return result.results;
+}
+
+export async function countTransactions(db: D1Database, chatId: number, filters: ReportFilters = {}): Promise<number> {
+  const { where, params } = filterClause(chatId, filters);
+  const result = await db.prepare(`SELECT COUNT(*) as count FROM transactions WHERE ${where}`)
+    .bind(...params)
+    .first<{ count: number }>();
+  return result?.count ?? 0;
+}
+
+// Inserts the row and its 'create' audit entry; duplicates must be ruled out by the caller
+export async function createTransaction(
+  db: D1Database,
+  chatId: number,
+  data: TransactionData,
+  suggestion: TagSuggestion | null = null
+): Promise<number> {
+  const [inserted] = await db.batch([insertTransactionStatement(db, chatId, data, suggestion), createAuditStatement(db)]);
+  return inserted.meta.last_row_id;
+}
+
+// "tag=food location=Cafe Lamiz" -> { tag: 'food', location: 'Cafe Lamiz' }; values run until the next key=
+export function parseEditParams(params: string): TransactionEdit {
+  const edit: TransactionEdit = {};
+  for (const match of params.matchAll(/(\w+)=(.*?)(?=\s+\w+=|$)/g)) {
+    const key = match[1].toLowerCase() as keyof TransactionEdit;
+    const value = match[2].trim();
+    if (EDITABLE_FIELDS.includes(key) && value) {
+      edit[key] = key === 'tag' ? value.replace(/^#/, '') : value;
+    }
+  }
+  return edit;
+}
+
+export async function updateTransaction(
+  db: D1Database,
+  chatId: number,
+  id: number,
+  edit: TransactionEdit
+): Promise<StoredTransaction | null> {
+  const before = await getTransaction(db, chatId, id);
+  if (!before) {
+    return null;
+  }
+
+  const after: StoredTransaction = { ...before, ...edit };
+  // A tag the user set or confirmed is no longer a suggestion
+  if (edit.tag !== undefined) {
+    after.tag_source = 'user';
+    after.tag_confidence = null;
+  }
+
+  await db.batch([
+    db.prepare(`UPDATE transactions SET tag = ?, location = ?, tag_source = ?, tag_confidence = ? WHERE chat_id = ? AND id = ?`)
+      .bind(after.tag, after.location, after.tag_source, after.tag_confidence, chatId, id),
+    auditStatement(db, chatId, id, 'update', before, after),
+  ]);
+  return after;
+}
+
+export async function deleteTransaction(db: D1Database, chatId: number, id: number): Promise<StoredTransaction | null> {
+  const before = await getTransaction(db, chatId, id);
+  if (!before) {
+    return null;
+  }
+
+  await db.batch([
+    db.prepare(`DELETE FROM transactions WHERE chat_id = ? AND id = ?`).bind(chatId, id),
+    // The other leg of a transfer counts as ordinary income or spending again
+    db.prepare(`UPDATE transactions SET transfer_id = NULL WHERE chat_id = ? AND transfer_id = ?`).bind(chatId, id),
+    db.prepare(`DELETE FROM transfer_dismissals WHERE chat_id = ? AND ? IN (withdrawal_id, deposit_id)`).bind(chatId, id),
+    auditStatement(db, chatId, id, 'delete', before, null),
+  ]);
+  return before;
+}
+
+export function describeTransaction(tx: StoredTransaction): string {
+  const amountField = tx.transaction_type === 'deposit' ? 'واریز' : 'برداشت';
+  const amountValue = tx.transaction_type === 'deposit' ? tx.deposit_amount : tx.withdrawal_amount;
+  return `🆔 ${tx.id} | ${tx.date} ${tx.time} | ${amountField}: ${amountValue?.toLocaleString('fa-IR')} ریال | ` +
+    `📍 ${tx.location || 'Unknown'} | #${tx.tag || 'بدون تگ'}`;
+}
+
+function filterClause(chatId: number, filters: ReportFilters): { where: string; params: unknown[] } {
+  let where = `chat_id = ?`;
+  const params: unknown[] = [chatId];
+
+  if (filters.tag) {
+    where += ` AND tag = ?`;
+    params.push(filters.tag);
+  }
+  if (filters.location) {
+    where += ` AND location = ?`;
+    params.push(filters.location);
+  }
+  if (filters.account) {
+    where += ` AND (account_number = ? OR account_number IN (SELECT account_number FROM accounts WHERE chat_id = ? AND nickname = ?))`;
+    params.push(filters.account, chatId, filters.account);
+  }
+  // Dates are stored as zero-padded YYYY/MM/DD, so string comparison orders them correctly
+  if (filters.from) {
+    where += ` AND date >= ?`;
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    where += ` AND date <= ?`;
+    params.push(filters.to);
+  }
+  return { where, params };
+}
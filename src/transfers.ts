@@ -0,0 +1,173 @@
+import { formatAccountLabel, getAccountNicknames } from './accounts';
+import { getTransaction, StoredTransaction } from './transactions';
+
+// Money moved between two of a chat's own accounts arrives as a withdrawal on one and a deposit of the same
+// amount on the other. Such pairs are linked through transfer_id and reported apart from income and spending.
+
+// How far apart the two SMS of one transfer may be; interbank transfers can take a while to land
+export const TRANSFER_WINDOW_MS = 30 * 60 * 1000;
+
+export interface TransferRow {
+  id: number;
+  account_number: string;
+  transaction_type: 'withdrawal' | 'deposit';
+  withdrawal_amount: number | null;
+  deposit_amount: number | null;
+  occurred_at: number;
+}
+
+export interface TransferPair {
+  withdrawalId: number;
+  depositId: number;
+  amount: number;
+}
+
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+// Rows must be ordered oldest first. Each withdrawal takes the closest unpaired deposit of the same amount
+// into another account, so two transfers of the same amount in one window pair up in order. Pairs in
+// `dismissed` ("withdrawalId:depositId") were unlinked by the user and are never proposed again.
+export function findTransferPairs(
+  rows: TransferRow[],
+  windowMs: number = TRANSFER_WINDOW_MS,
+  dismissed: Set<string> = new Set()
+): TransferPair[] {
+  const depositsByAmount = new Map<number, TransferRow[]>();
+  for (const row of rows) {
+    if (row.transaction_type === 'deposit' && row.deposit_amount) {
+      depositsByAmount.set(row.deposit_amount, [...(depositsByAmount.get(row.deposit_amount) || []), row]);
+    }
+  }
+
+  const pairs: TransferPair[] = [];
+  const paired = new Set<number>();
+  for (const withdrawal of rows) {
+    if (withdrawal.transaction_type !== 'withdrawal' || !withdrawal.withdrawal_amount) {
+      continue;
+    }
+    let match: TransferRow | null = null;
+    for (const deposit of depositsByAmount.get(withdrawal.withdrawal_amount) || []) {
+      const distance = Math.abs(deposit.occurred_at - withdrawal.occurred_at);
+      if (
+        !paired.has(deposit.id) &&
+        !dismissed.has(`${withdrawal.id}:${deposit.id}`) &&
+        deposit.account_number !== withdrawal.account_number &&
+        distance <= windowMs &&
+        (!match || distance < Math.abs(match.occurred_at - withdrawal.occurred_at))
+      ) {
+        match = deposit;
+      }
+    }
+    if (match) {
+      paired.add(match.id);
+      pairs.push({ withdrawalId: withdrawal.id, depositId: match.id, amount: withdrawal.withdrawal_amount });
+    }
+  }
+  return pairs;
+}
+
+// Links the chat's unpaired transfers. With `around`, only rows within the window of that moment are
+// looked at, which is all a newly saved transaction can pair with.
+export async function detectTransfers(
+  db: D1Database,
+  chatId: number,
+  around: number | null = null,
+  windowMs: number = TRANSFER_WINDOW_MS
+): Promise<TransferPair[]> {
+  let query = `
+    SELECT id, account_number, transaction_type, withdrawal_amount, deposit_amount, occurred_at
+    FROM transactions
+    WHERE chat_id = ? AND transfer_id IS NULL AND occurred_at IS NOT NULL`;
+  const params: unknown[] = [chatId];
+  if (around !== null) {
+    query += ` AND occurred_at BETWEEN ? AND ?`;
+    params.push(around - windowMs, around + windowMs);
+  }
+  const result = await db.prepare(`${query} ORDER BY occurred_at ASC, id ASC`).bind(...params).all<TransferRow>();
+  const dismissals = await db.prepare(`SELECT withdrawal_id, deposit_id FROM transfer_dismissals WHERE chat_id = ?`)
+    .bind(chatId)
+    .all<{ withdrawal_id: number; deposit_id: number }>();
+
+  const dismissed = new Set(dismissals.results.map(row => `${row.withdrawal_id}:${row.deposit_id}`));
+  const pairs = findTransferPairs(result.results, windowMs, dismissed);
+  if (pairs.length > 0) {
+    await db.batch(pairs.flatMap(pair => linkStatements(db, chatId, pair.withdrawalId, pair.depositId)));
+  }
+  return pairs;
+}
+
+// The other leg of a transfer the transaction was just paired into, if any
+export function findCounterpart(pairs: TransferPair[], transactionId: number): number | null {
+  const pair = pairs.find(p => p.withdrawalId === transactionId || p.depositId === transactionId);
+  if (!pair) {
+    return null;
+  }
+  return pair.withdrawalId === transactionId ? pair.depositId : pair.withdrawalId;
+}
+
+// Marks two transactions as one transfer by hand, for pairs the time window missed
+export async function linkTransfer(db: D1Database, chatId: number, firstId: number, secondId: number): Promise<TransferPair> {
+  const first = await getTransaction(db, chatId, firstId);
+  const second = await getTransaction(db, chatId, secondId);
+  if (!first || !second) {
+    throw new TransferError(`تراکنشی با شناسه ${first ? secondId : firstId} پیدا نشد.`);
+  }
+  if (first.transfer_id || second.transfer_id) {
+    throw new TransferError(`تراکنش ${first.transfer_id ? firstId : secondId} همین حالا بخشی از یک انتقال است.`);
+  }
+  const withdrawal = first.transaction_type === 'withdrawal' ? first : second;
+  const deposit = withdrawal === first ? second : first;
+  if (deposit.transaction_type !== 'deposit' || withdrawal.transaction_type !== 'withdrawal') {
+    throw new TransferError('یک انتقال از یک برداشت و یک واریز تشکیل می‌شود.');
+  }
+  if (withdrawal.account_number === deposit.account_number) {
+    throw new TransferError('برداشت و واریز یک انتقال باید از دو حساب متفاوت باشند.');
+  }
+  if (withdrawal.withdrawal_amount !== deposit.deposit_amount) {
+    throw new TransferError('مبلغ برداشت و واریز برابر نیست.');
+  }
+
+  await db.batch([
+    ...linkStatements(db, chatId, withdrawal.id, deposit.id),
+    db.prepare(`DELETE FROM transfer_dismissals WHERE chat_id = ? AND withdrawal_id = ? AND deposit_id = ?`).bind(chatId, withdrawal.id, deposit.id),
+  ]);
+  return { withdrawalId: withdrawal.id, depositId: deposit.id, amount: withdrawal.withdrawal_amount ?? 0 };
+}
+
+// Counts both legs as ordinary income and spending again and remembers not to pair them again; returns the
+// other leg's id
+export async function unlinkTransfer(db: D1Database, chatId: number, id: number, now: number = Date.now()): Promise<number | null> {
+  const transaction = await getTransaction(db, chatId, id);
+  if (!transaction?.transfer_id) {
+    return null;
+  }
+  const [withdrawalId, depositId] = transaction.transaction_type === 'withdrawal'
+    ? [id, transaction.transfer_id]
+    : [transaction.transfer_id, id];
+  await db.batch([
+    db.prepare(`UPDATE transactions SET transfer_id = NULL WHERE chat_id = ? AND id IN (?, ?)`).bind(chatId, id, transaction.transfer_id),
+    db.prepare(`
+      INSERT OR IGNORE INTO transfer_dismissals (chat_id, withdrawal_id, deposit_id, dismissed_at) VALUES (?, ?, ?, ?)
+    `).bind(chatId, withdrawalId, depositId, now),
+  ]);
+  return transaction.transfer_id;
+}
+
+export async function formatTransfer(db: D1Database, chatId: number, counterpart: StoredTransaction): Promise<string> {
+  const nicknames = await getAccountNicknames(db, chatId);
+  const direction = counterpart.transaction_type === 'deposit' ? 'به' : 'از';
+  return `🔁 انتقال داخلی ${direction} حساب ${formatAccountLabel(counterpart.account_number, nicknames[counterpart.account_number] || null)} ` +
+    `(تراکنش ${counterpart.id}); در مجموع درآمد و هزینه حساب نمی‌شود.`;
+}
+
+function linkStatements(db: D1Database, chatId: number, withdrawalId: number, depositId: number): D1PreparedStatement[] {
+  return [
+    db.prepare(`UPDATE transactions SET transfer_id = ? WHERE chat_id = ? AND id = ?`).bind(depositId, chatId, withdrawalId),
+    db.prepare(`UPDATE transactions SET transfer_id = ? WHERE chat_id = ? AND id = ?`).bind(withdrawalId, chatId, depositId),
+  ];
+}
@@ -0,0 +1,54 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import { listAccounts, removeAccountNickname, setAccountNickname } from '../src/accounts';
+
+async function insertTransaction(accountNumber: string, balance: number, date: string, time: string) {
+  await env.DB.prepare(`
+    INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+      transaction_method, branch_code, balance, date, time, location, tag, timestamp, occurred_at)
+    VALUES (1, 'Unknown', ?, 'withdrawal', 1000, NULL, 'Unknown', NULL, ?, ?, ?, 'Cafe', 'cafe', 0, ?)
+  `).bind(accountNumber, balance, date, time, jalaliDateTimeToEpoch(date, time)).run();
+}
+
+describe('Accounts', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('lists each account with its latest balance and nickname', async () => {
+    await insertTransaction('1111', 5000, '1404/02/01', '10:00:00');
+    await insertTransaction('1111', 4000, '1404/02/03', '09:00:00');
+    await insertTransaction('2222', 9000, '1404/02/02', '12:00:00');
+    await setAccountNickname(env.DB, 1, '2222', 'Joint');
+
+    const accounts = await listAccounts(env.DB, 1);
+    expect(accounts).toEqual([
+      expect.objectContaining({ account_number: '1111', nickname: null, transaction_count: 2, balance: 4000, last_date: '1404/02/03' }),
+      expect.objectContaining({ account_number: '2222', nickname: 'Joint', transaction_count: 1, balance: 9000 }),
+    ]);
+    expect(await listAccounts(env.DB, 2)).toEqual([]);
+  });
+
+  it('takes the last activity from occurred_at rather than the date text', async () => {
+    await insertTransaction('1111', 5000, '1404/02/05', '08:00:00');
+    // Saved before dates were normalized; as text it sorts before 1404/02/05
+    await insertTransaction('2222', 7000, '1404-02-06', '08:00:00');
+
+    const accounts = await listAccounts(env.DB, 1);
+    expect(accounts.map(account => account.account_number)).toEqual(['2222', '1111']);
+    expect(accounts[0]).toMatchObject({ balance: 7000, last_date: '1404-02-06', last_time: '08:00:00' });
+  });
+
+  it('updates and removes nicknames', async () => {
+    await insertTransaction('1111', 5000, '1404/02/01', '10:00:00');
+    await setAccountNickname(env.DB, 1, '1111', 'Salary');
+    await setAccountNickname(env.DB, 1, '1111', 'Main');
+    expect((await listAccounts(env.DB, 1))[0].nickname).toBe('Main');
+
+    expect(await removeAccountNickname(env.DB, 1, '1111')).toBe(true);
+    expect(await removeAccountNickname(env.DB, 1, '1111')).toBe(false);
+    expect((await listAccounts(env.DB, 1))[0].nickname).toBeNull();
+  });
+});
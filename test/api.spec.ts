@@ -0,0 +1,94 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { handleApiRequest } from '../src/api';
+import { createApiToken, revokeApiToken } from '../src/auth';
+
+const SMS = `*بانک تجارت*
+حساب: 0177018376691
+برداشت: 640,000 ریال
+از طریق: پایانه فروش
+مانده: 204,285,600 ریال
+1404/02/02
+12:06
+Cigarettes #ciggaret`;
+
+let token: string;
+
+function api(path: string, init: RequestInit = {}, auth: string | null = token): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (auth) {
+    headers.set('Authorization', `Bearer ${auth}`);
+  }
+  return handleApiRequest(new Request(`https://cashhub.example${path}`, { ...init, headers }), env);
+}
+
+function post(body: unknown): Promise<Response> {
+  return api('/api/transactions', { method: 'POST', body: JSON.stringify(body), headers: { 'Content-Type': 'application/json' } });
+}
+
+describe('REST API', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    token = (await createApiToken(env.DB, 1)).token;
+  });
+
+  it('rejects missing, unknown and revoked tokens', async () => {
+    expect((await api('/api/transactions', {}, null)).status).toBe(401);
+    expect((await api('/api/transactions', {}, 'chb_nope')).status).toBe(401);
+
+    const { id, token: revoked } = await createApiToken(env.DB, 1);
+    await revokeApiToken(env.DB, 1, id);
+    expect((await api('/api/transactions', {}, revoked)).status).toBe(401);
+  });
+
+  it('creates transactions from SMS text or structured fields and rejects duplicates', async () => {
+    const created = await post({ text: SMS });
+    expect(created.status).toBe(201);
+    const body = await created.json<{ transaction: { id: number; tag: string; chat_id: number }; parser: string }>();
+    expect(body).toMatchObject({ parser: 'tejarat', transaction: { tag: 'ciggaret', chat_id: 1 } });
+
+    expect((await post({ text: SMS })).status).toBe(409);
+    expect((await post({ text: 'hello' })).status).toBe(400);
+    expect((await post({})).status).toBe(400);
+
+    const structured = await post({
+      transaction: { account_number: '1234', transaction_type: 'deposit', amount: '۱۰۰,۰۰۰', balance: 900000, date: '1404/02/03', time: '09:00', tag: '#salary' },
+    });
+    expect(structured.status).toBe(201);
+    expect(await structured.json()).toMatchObject({ parser: 'structured', transaction: { deposit_amount: 100000, tag: 'salary', location: 'Unknown' } });
+  });
+
+  it('lists with filters and pagination, reports and deletes', async () => {
+    await post({ text: SMS });
+    for (const [day, tag] of [['03', 'food'], ['04', 'food'], ['05', 'rent']]) {
+      await post({ transaction: { account_number: '1234', transaction_type: 'withdrawal', amount: 1000, balance: 5000, date: `1404/02/${day}`, time: '10:00', tag } });
+    }
+
+    const page = await (await api('/api/transactions?tag=food&limit=1&offset=1')).json<{ transactions: { date: string }[]; total: number }>();
+    expect(page.total).toBe(2);
+    expect(page.transactions.map(tx => tx.date)).toEqual(['1404/02/03']);
+
+    const ranged = await (await api('/api/transactions?from=1404/02/04')).json<{ total: number }>();
+    expect(ranged.total).toBe(2);
+    expect((await api('/api/transactions?from=1404/13/01')).status).toBe(400);
+    expect((await api('/api/transactions?limit=0')).status).toBe(400);
+
+    const report = await (await api('/api/report?account=1234')).json<{ transactionCount: number; byTag: Record<string, { totalWithdrawal: number }> }>();
+    expect(report.transactionCount).toBe(3);
+    expect(report.byTag.food.totalWithdrawal).toBe(2000);
+
+    const list = await (await api('/api/transactions')).json<{ transactions: { id: number }[] }>();
+    const id = list.transactions[0].id;
+    expect((await api(`/api/transactions/${id}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await api(`/api/transactions/${id}`)).status).toBe(404);
+    expect((await api('/api/nothing')).status).toBe(404);
+  });
+
+  it('keeps chats apart', async () => {
+    await post({ text: SMS });
+    const other = (await createApiToken(env.DB, 2)).token;
+    const list = await (await api('/api/transactions', {}, other)).json<{ total: number }>();
+    expect(list.total).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { isAllowed, parseAllowlist, verifyWebhookSecret, SECRET_TOKEN_HEADER } from '../src/auth';
+
+describe('Webhook authentication', () => {
+  const requestWithSecret = (secret?: string) =>
+    new Request('https://example.com/', {
+      method: 'POST',
+      headers: secret ? { [SECRET_TOKEN_HEADER]: secret } : {},
+    });
+
+  it('accepts the configured secret token', () => {
+    expect(verifyWebhookSecret(requestWithSecret('s3cret'), 's3cret')).toBe(true);
+  });
+
+  it('rejects missing or wrong secret tokens', () => {
+    expect(verifyWebhookSecret(requestWithSecret(), 's3cret')).toBe(false);
+    expect(verifyWebhookSecret(requestWithSecret('s3cre'), 's3cret')).toBe(false);
+    expect(verifyWebhookSecret(requestWithSecret('s3cret!'), 's3cret')).toBe(false);
+    expect(verifyWebhookSecret(requestWithSecret('s3cret'), '')).toBe(false);
+  });
+
+  it('parses the allowlist and matches chat or user IDs', () => {
+    const allowlist = parseAllowlist('123, -1001234567890 456 junk');
+    expect([...allowlist]).toEqual([123, -1001234567890, 456]);
+    expect(isAllowed(allowlist, 123)).toBe(true);
+    expect(isAllowed(allowlist, 999, 456)).toBe(true);
+    expect(isAllowed(allowlist, 999, 998)).toBe(false);
+  });
+
+  it('allows every chat when no allowlist is configured', () => {
+    expect(isAllowed(parseAllowlist(undefined), 999)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import {
+  BudgetError,
+  checkBudgetAlerts,
+  getBudgetStatuses,
+  parseBudgetCommand,
+  removeBudget,
+  setBudget,
+} from '../src/budgets';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+
+// 1404/02/15 12:00 Tehran time
+const NOW = jalaliDateTimeToEpoch('1404/02/15', '12:00:00');
+
+async function spend(chatId: number, tag: string, amount: number, date = '1404/02/10'): Promise<void> {
+  await env.DB.prepare(`
+    INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+      transaction_method, branch_code, balance, date, time, location, tag, timestamp, occurred_at)
+    VALUES (?, 'Unknown', '1111', 'withdrawal', ?, NULL, 'Unknown', NULL, 0, ?, '10:00:00', 'Unknown', ?, 0, ?)
+  `).bind(chatId, amount, date, tag, jalaliDateTimeToEpoch(date, '10:00:00')).run();
+}
+
+describe('Budgets', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('parses budget commands', () => {
+    expect(parseBudgetCommand('')).toEqual({ action: 'list' });
+    expect(parseBudgetCommand('set #food ۲۰,۰۰۰,۰۰۰')).toEqual({ action: 'set', tag: 'food', limit: 20_000_000 });
+    expect(parseBudgetCommand('set food 2,000,000 تومان')).toEqual({ action: 'set', tag: 'food', limit: 20_000_000 });
+    expect(parseBudgetCommand('unset food')).toEqual({ action: 'unset', tag: 'food' });
+    expect(() => parseBudgetCommand('set food lots')).toThrow(BudgetError);
+    expect(() => parseBudgetCommand('raise food')).toThrow(BudgetError);
+  });
+
+  it('reports spending of the current Jalali month against each limit', async () => {
+    await setBudget(env.DB, 1, 'food', 1_000_000);
+    await setBudget(env.DB, 1, 'transport', 500_000);
+    await spend(1, 'food', 300_000);
+    await spend(1, 'food', 200_000);
+    await spend(1, 'food', 900_000, '1404/01/30');
+    await spend(2, 'food', 900_000);
+
+    const statuses = await getBudgetStatuses(env.DB, 1, NOW);
+    expect(statuses).toEqual([
+      { tag: 'food', limit: 1_000_000, spent: 500_000, remaining: 500_000, ratio: 0.5 },
+      { tag: 'transport', limit: 500_000, spent: 0, remaining: 500_000, ratio: 0 },
+    ]);
+
+    expect(await removeBudget(env.DB, 1, 'transport')).toBe(true);
+    expect(await getBudgetStatuses(env.DB, 1, NOW)).toHaveLength(1);
+  });
+
+  it('sends each threshold alert once per month', async () => {
+    await setBudget(env.DB, 1, 'food', 1_000_000);
+    await spend(1, 'food', 700_000);
+    expect(await checkBudgetAlerts(env.DB, 1, 'food', NOW)).toEqual([]);
+
+    await spend(1, 'food', 150_000);
+    const [warning] = await checkBudgetAlerts(env.DB, 1, 'food', NOW);
+    expect(warning).toMatchObject({ threshold: 80, period: '1404/02' });
+    expect(await checkBudgetAlerts(env.DB, 1, 'food', NOW)).toEqual([]);
+
+    await spend(1, 'food', 200_000);
+    const [exceeded] = await checkBudgetAlerts(env.DB, 1, 'food', NOW);
+    expect(exceeded).toMatchObject({ threshold: 100 });
+    expect(exceeded.status.remaining).toBe(-50_000);
+
+    expect(await checkBudgetAlerts(env.DB, 1, 'transport', NOW)).toEqual([]);
+  });
+});
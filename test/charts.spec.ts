@@ -0,0 +1,115 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { createRaster, encodePng, fillRect, Raster } from '../src/png';
+import { buildChart, parseChartParams } from '../src/reportcharts';
+import { buildTransactionReport } from '../src/report';
+import { createTransaction } from '../src/transactions';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import { TransactionData } from '../src/parser';
+
+function tx(overrides: Partial<TransactionData>): TransactionData {
+  const date = overrides.date || '1404/02/02';
+  const time = overrides.time || '12:00:00';
+  return {
+    bank_name: 'Tejarat',
+    account_number: '1111',
+    transaction_type: 'withdrawal',
+    withdrawal_amount: 1000,
+    deposit_amount: null,
+    transaction_method: 'POS',
+    branch_code: null,
+    balance: 50000,
+    date,
+    time,
+    location: 'Cafe',
+    tag: 'food',
+    timestamp: 0,
+    occurred_at: jalaliDateTimeToEpoch(date, time),
+    ...overrides,
+  };
+}
+
+// Reads back an encoded PNG (8-bit RGB, unfiltered rows) to check its pixels
+async function decodePng(png: Uint8Array): Promise<Raster> {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    if (new TextDecoder().decode(png.subarray(offset + 4, offset + 8)) === 'IDAT') {
+      idat.push(png.subarray(offset + 8, offset + 8 + length));
+    }
+    offset += length + 12;
+  }
+  const stream = new Blob(idat).stream().pipeThrough(new DecompressionStream('deflate'));
+  const raw = new Uint8Array(await new Response(stream).arrayBuffer());
+  const pixels = new Uint8Array(width * height * 3);
+  for (let row = 0; row < height; row++) {
+    pixels.set(raw.subarray(row * (width * 3 + 1) + 1, (row + 1) * (width * 3 + 1)), row * width * 3);
+  }
+  return { width, height, pixels };
+}
+
+function pixel(raster: Raster, x: number, y: number): number[] {
+  const offset = (y * raster.width + x) * 3;
+  return [...raster.pixels.subarray(offset, offset + 3)];
+}
+
+describe('Chart images', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('encodes rasters as valid PNG', async () => {
+    const raster = createRaster(4, 3);
+    fillRect(raster, 1, 1, 2, 1, [255, 0, 0]);
+    const png = await encodePng(raster);
+    expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const decoded = await decodePng(png);
+    expect(decoded).toMatchObject({ width: 4, height: 3 });
+    expect(pixel(decoded, 0, 0)).toEqual([255, 255, 255]);
+    expect(pixel(decoded, 2, 1)).toEqual([255, 0, 0]);
+  });
+
+  it('parses an optional chart kind before the filters', () => {
+    expect(parseChartParams('')).toEqual({ kinds: ['pie', 'bar', 'line'], params: '' });
+    expect(parseChartParams('PIE month=1404/02')).toEqual({ kinds: ['pie'], params: 'month=1404/02' });
+    expect(parseChartParams('last=30d')).toEqual({ kinds: ['pie', 'bar', 'line'], params: 'last=30d' });
+  });
+
+  it('draws withdrawals by tag with a caption legend', async () => {
+    await createTransaction(env.DB, 1, tx({ withdrawal_amount: 3000, balance: 47000 }));
+    await createTransaction(env.DB, 1, tx({ time: '13:00:00', withdrawal_amount: 1000, balance: 46000, tag: 'taxi' }));
+
+    const chart = await buildChart('pie', await buildTransactionReport(env.DB, 1));
+    expect(chart!.caption).toContain('🟦 #food: ۷۵٪');
+    expect(chart!.caption).toContain('🟥 #taxi: ۲۵٪');
+
+    // The first slice starts at 12 o'clock and runs clockwise, so the right half is the biggest tag
+    const decoded = await decodePng(chart!.png);
+    expect(pixel(decoded, 500, 250)).toEqual([30, 136, 229]);
+    expect(pixel(decoded, 10, 10)).toEqual([255, 255, 255]);
+  });
+
+  it('groups deposits and withdrawals by month and tracks balances', async () => {
+    await createTransaction(env.DB, 1, tx({ date: '1404/01/10', withdrawal_amount: 2000, balance: 48000 }));
+    await createTransaction(env.DB, 1, tx({ date: '1404/02/10', transaction_type: 'deposit', withdrawal_amount: null, deposit_amount: 9000, balance: 57000 }));
+    const report = await buildTransactionReport(env.DB, 1);
+
+    const bar = await buildChart('bar', report);
+    expect(bar!.caption).toContain('1404/01: 🟩 ۰ | 🟥 ۲٬۰۰۰');
+    expect(bar!.caption).toContain('1404/02: 🟩 ۹٬۰۰۰ | 🟥 ۰');
+
+    const line = await buildChart('line', report);
+    expect(line!.caption).toContain('🟦 1111: ۵۷٬۰۰۰ ریال');
+  });
+
+  it('returns nothing when there is no data to draw', async () => {
+    await createTransaction(env.DB, 1, tx({ transaction_type: 'deposit', withdrawal_amount: null, deposit_amount: 500 }));
+    expect(await buildChart('pie', await buildTransactionReport(env.DB, 1))).toBeNull();
+    expect(await buildChart('line', await buildTransactionReport(env.DB, 2))).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { signDashboardLink, verifyDashboardLink } from '../src/auth';
+import { buildDashboardData, createDashboardLink, handleDashboardRequest, renderDashboard } from '../src/dashboard';
+import { renderBarChart, renderLineChart } from '../src/charts';
+import { buildTransactionReport } from '../src/report';
+import { createTransaction } from '../src/transactions';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import { TransactionData } from '../src/parser';
+
+const SECRET = 'test-secret';
+
+function tx(overrides: Partial<TransactionData>): TransactionData {
+  const date = overrides.date || '1404/02/02';
+  const time = overrides.time || '12:00:00';
+  return {
+    bank_name: 'Tejarat',
+    account_number: '1111',
+    transaction_type: 'withdrawal',
+    withdrawal_amount: 1000,
+    deposit_amount: null,
+    transaction_method: 'POS',
+    branch_code: null,
+    balance: 50000,
+    date,
+    time,
+    location: 'Cafe',
+    tag: 'food',
+    timestamp: 0,
+    occurred_at: jalaliDateTimeToEpoch(date, time),
+    ...overrides,
+  };
+}
+
+describe('Dashboard', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('accepts only unexpired links signed with the same secret', async () => {
+    const now = Date.now();
+    const link = new URL(await createDashboardLink(SECRET, 'https://bot.example', 42, now));
+    expect(link.pathname).toBe('/dashboard');
+    expect(await verifyDashboardLink(SECRET, link.searchParams, now)).toBe(42);
+    expect(await verifyDashboardLink('other-secret', link.searchParams, now)).toBeNull();
+    expect(await verifyDashboardLink(SECRET, link.searchParams, now + 2 * 60 * 60 * 1000)).toBeNull();
+
+    const forged = new URLSearchParams(link.searchParams);
+    forged.set('chat', '43');
+    expect(await verifyDashboardLink(SECRET, forged, now)).toBeNull();
+
+    const extended = new URLSearchParams(link.searchParams);
+    extended.set('exp', String(now + 10 * 60 * 60 * 1000));
+    expect(await verifyDashboardLink(SECRET, extended, now)).toBeNull();
+    expect(await signDashboardLink(SECRET, 42, 1)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('aggregates spending, breakdowns and balance history from the report', async () => {
+    await createTransaction(env.DB, 1, tx({ date: '1404/02/01', withdrawal_amount: 3000, balance: 47000 }));
+    await createTransaction(env.DB, 1, tx({ date: '1404/02/01', time: '18:00:00', withdrawal_amount: 2000, balance: 45000, location: 'Shop', tag: '' }));
+    await createTransaction(env.DB, 1, tx({ date: '1404/02/03', transaction_type: 'deposit', withdrawal_amount: null, deposit_amount: 10000, balance: 55000 }));
+    await createTransaction(env.DB, 1, tx({ account_number: '2222', date: '1404/02/02', withdrawal_amount: 500, balance: 900 }));
+
+    const data = buildDashboardData(await buildTransactionReport(env.DB, 1));
+    expect(data.spendingOverTime[0].points.map(point => point.y)).toEqual([5000, 500]);
+    expect(data.spendingByTag).toEqual([{ label: '#food', value: 3500 }, { label: 'بدون تگ', value: 2000 }]);
+    expect(data.spendingByLocation[0]).toEqual({ label: 'Cafe', value: 3500 });
+    const history = data.balanceHistory.find(series => series.name === '1111')!;
+    expect(history.points.map(point => point.y)).toEqual([47000, 45000, 55000]);
+  });
+
+  it('renders escaped HTML with charts and a searchable table', async () => {
+    await createTransaction(env.DB, 1, tx({ location: '<script>alert(1)</script>' }));
+    const html = renderDashboard(await buildTransactionReport(env.DB, 1));
+    expect(html).toContain('<html lang="fa" dir="rtl">');
+    expect(html.match(/<svg /g)).toHaveLength(4);
+    expect(html).toContain('id="search"');
+    expect(html).not.toContain('<script>alert(1)</script>');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+  });
+
+  it('serves the dashboard for valid links only', async () => {
+    await createTransaction(env.DB, 7, tx({}));
+    const dashboardEnv = { DB: env.DB, DASHBOARD_SECRET: SECRET };
+    const link = await createDashboardLink(SECRET, 'https://bot.example', 7);
+
+    const ok = await handleDashboardRequest(new Request(link), dashboardEnv);
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get('Content-Type')).toContain('text/html');
+    expect(ok.headers.get('Referrer-Policy')).toBe('no-referrer');
+    expect(await ok.text()).toContain('1404/02/02');
+
+    const badFilter = await handleDashboardRequest(new Request(`${link}&from=not-a-date`), dashboardEnv);
+    expect(badFilter.status).toBe(400);
+
+    const forged = await handleDashboardRequest(new Request(link.replace('chat=7', 'chat=8')), dashboardEnv);
+    expect(forged.status).toBe(403);
+
+    const blocked = await handleDashboardRequest(new Request(link), { ...dashboardEnv, ALLOWED_IDS: '99' });
+    expect(blocked.status).toBe(403);
+
+    // Neither the webhook secret nor a missing secret opens the dashboard
+    expect((await handleDashboardRequest(new Request(link), { DB: env.DB })).status).toBe(403);
+    const webhookSigned = await createDashboardLink('webhook-secret', 'https://bot.example', 7);
+    expect((await handleDashboardRequest(new Request(webhookSigned), dashboardEnv)).status).toBe(403);
+  });
+
+  it('draws empty charts without data', () => {
+    expect(renderBarChart([], { title: 'x' })).toContain('داده‌ای وجود ندارد');
+    expect(renderLineChart([{ name: 'a', points: [] }])).toContain('داده‌ای وجود ندارد');
+    expect(renderLineChart([{ name: 'a', points: [{ x: 1, y: 5 }] }])).toContain('<circle');
+  });
+});
@@ -6,6 +6,10 @@ declare module 'cloudflare:test' {
 interface Env {
 	DB: D1Database;
 	TELEGRAM_TOKEN: string;
+	ADMIN_TOKEN?: string;
+	TELEGRAM_WEBHOOK_SECRET: string;
+	DASHBOARD_SECRET?: string;
+	ALLOWED_IDS?: string;
   }
   
   declare module 'cloudflare:test' {
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildCsv, buildExportFile, exportRows, parseExportParams } from '../src/export';
+import { StoredTransaction } from '../src/transactions';
+
+const tx: StoredTransaction = {
+  id: 7,
+  chat_id: 1,
+  bank_name: 'بانک تجارت',
+  account_number: '1234',
+  transaction_type: 'withdrawal',
+  withdrawal_amount: 1_200_000,
+  deposit_amount: null,
+  transaction_method: 'پایانه فروش',
+  branch_code: null,
+  balance: 5_000_000,
+  date: '1404/02/08',
+  time: '23:51:00',
+  location: 'Cafe "Lamiz", Tajrish',
+  tag: '=food',
+  timestamp: 0,
+  occurred_at: 0,
+  balance_gap: null,
+  tag_source: 'user',
+  tag_confidence: null,
+};
+
+describe('Transaction export', () => {
+  it('defaults to CSV and accepts an explicit format before the filters', () => {
+    expect(parseExportParams('tag=food')).toEqual({ format: 'csv', params: 'tag=food' });
+    expect(parseExportParams('XLSX month=1404/02')).toEqual({ format: 'xlsx', params: 'month=1404/02' });
+  });
+
+  it('writes a BOM, Persian headers and escaped fields', () => {
+    const csv = buildCsv(exportRows([tx]));
+    expect(csv.startsWith('\uFEFFشناسه,تاریخ,ساعت')).toBe(true);
+
+    const [, row] = csv.slice(1).split('\r\n');
+    expect(row).toBe(
+      `7,1404/02/08,23:51:00,بانک تجارت,1234,برداشت,1200000,,5000000,پایانه فروش,,"Cafe ""Lamiz"", Tajrish",'=food`
+    );
+  });
+
+  it('builds a zipped workbook with the rows as inline strings', () => {
+    const file = buildExportFile([tx], 'xlsx', { from: '1404/02/01', to: '1404/02/31' });
+    expect(file.name).toBe('cashhub-1404-02-01_1404-02-31.xlsx');
+
+    const bytes = file.content as Uint8Array;
+    expect([...bytes.slice(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+    expect(text).toContain('<c r="G2"><v>1200000</v></c>');
+    expect(text).toContain('Cafe &quot;Lamiz&quot;, Tajrish');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { FilterError, parseCommandParams } from '../src/filters';
+
+describe('Report filters', () => {
+  const now = Date.UTC(2025, 3, 28, 9, 0); // 1404/02/08 in Tehran
+
+  it('parses tag and location filters', () => {
+    expect(parseCommandParams('tag=food location=Cafe', now)).toEqual({ tag: 'food', location: 'Cafe' });
+    expect(parseCommandParams('account=0177018376691', now)).toEqual({ account: '0177018376691' });
+  });
+
+  it('parses explicit ranges and months', () => {
+    expect(parseCommandParams('from=1404/02/01 to=1404/02/31', now)).toMatchObject({ from: '1404/02/01', to: '1404/02/31' });
+    expect(parseCommandParams('month=1403/12', now)).toMatchObject({ from: '1403/12/01', to: '1403/12/30' });
+    expect(parseCommandParams('from=۱۴۰۴/۰۲/۰۱', now)).toMatchObject({ from: '1404/02/01' });
+  });
+
+  it('parses relative periods', () => {
+    expect(parseCommandParams('today', now)).toMatchObject({ from: '1404/02/08', to: '1404/02/08' });
+    expect(parseCommandParams('this-month', now)).toMatchObject({ from: '1404/02/01', to: '1404/02/31' });
+    expect(parseCommandParams('last=7d', now)).toMatchObject({ from: '1404/02/02', to: '1404/02/08' });
+    expect(parseCommandParams('last=10d', now)).toMatchObject({ from: '1404/01/30', to: '1404/02/08' });
+  });
+
+  it('rejects invalid dates and ranges', () => {
+    expect(() => parseCommandParams('from=1404/13/40', now)).toThrow(FilterError);
+    expect(() => parseCommandParams('from=1404/02/10 to=1404/02/01', now)).toThrow(FilterError);
+    expect(() => parseCommandParams('last=abc', now)).toThrow(FilterError);
+    // Outside what the calendar conversion handles
+    expect(() => parseCommandParams('month=9999/01', now)).toThrow(FilterError);
+    expect(() => parseCommandParams('from=9999/01/01', now)).toThrow(FilterError);
+    expect(() => parseCommandParams('last=999999m', now)).toThrow(FilterError);
+    expect(parseCommandParams('last=120m', now).to).toBe('1404/02/08');
+  });
+});
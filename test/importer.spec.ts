@@ -0,0 +1,66 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { importEntries, ImportError, parseCsv, readImportFile, splitMessages } from '../src/importer';
+
+function sms(amount: string, balance: string, time: string): string {
+  return `*بانک تجارت*\nحساب: 0177018376691\nبرداشت: ${amount} ریال\nاز طریق: پایانه فروش\nمانده: ${balance} ریال\n1404/02/02\n${time}\nCafe #food`;
+}
+
+describe('Bulk import', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('splits SMS exports on blank lines and separators', () => {
+    expect(splitMessages('a\nb\n\n\nc\n---\nd\n')).toEqual(['a\nb', 'c', 'd']);
+  });
+
+  it('parses quoted CSV fields', () => {
+    expect(parseCsv('a,"b, ""c""",d\n"multi\nline",x,\n\n')).toEqual([
+      ['a', 'b, "c"', 'd'],
+      ['multi\nline', 'x', ''],
+    ]);
+  });
+
+  it('reads bank statement rows with the account from the caption', () => {
+    const csv = '\uFEFFتاریخ,ساعت,شرح,برداشت,واریز,مانده حساب\n1404/02/05,09:30,خرید اینترنتی,"120,000",,"880,000"\n1404/2/6,10:00,حقوق,,۵۰۰۰۰۰,1380000\n';
+    const entries = readImportFile(csv, { fileName: 'statement.csv', caption: 'account=1234' });
+    expect(entries.map(entry => entry.parse())).toMatchObject([
+      { account_number: '1234', transaction_type: 'withdrawal', withdrawal_amount: 120000, balance: 880000, location: 'خرید اینترنتی', date: '1404/02/05', time: '09:30:00' },
+      { account_number: '1234', transaction_type: 'deposit', deposit_amount: 500000, balance: 1380000, location: 'حقوق', date: '1404/02/06' },
+    ]);
+
+    const inline = readImportFile('تاریخ,شرح,برداشت,واریز,مانده\n1404/2/6 10:00,خرید,1000,,5000\n', { fileName: 'inline.csv', caption: 'account=1234' });
+    expect(inline[0].parse()).toMatchObject({ date: '1404/02/06', time: '10:00:00' });
+
+    expect(() => readImportFile('تاریخ,برداشت,مانده\n1404/02/05,1,2', { fileName: 'x.csv' })).toThrow(ImportError);
+    expect(() => readImportFile('name,value\na,b', { fileName: 'x.csv' })).toThrow(ImportError);
+  });
+
+  it('imports new messages and reports duplicates and failures', async () => {
+    const file = [sms('640,000', '204,285,600', '12:06'), sms('640,000', '204,285,600', '12:06'), 'not an sms\nat all', sms('100,000', '204,185,600', '13:00')].join('\n\n');
+    const first = await importEntries(env.DB, 1, readImportFile(file, { fileName: 'sms.txt' }));
+    expect(first).toMatchObject({ total: 4, imported: 2, duplicates: 1, skipped: 0, accounts: ['0177018376691'] });
+    expect(first.failed).toHaveLength(1);
+    expect(first.failed[0].label).toBe('پیام ۳');
+
+    const again = await importEntries(env.DB, 1, readImportFile(file, { fileName: 'sms.txt' }));
+    expect(again).toMatchObject({ imported: 0, duplicates: 3 });
+
+    const audits = await env.DB.prepare(`SELECT COUNT(*) as count FROM transaction_audit WHERE action = 'create'`).first<{ count: number }>();
+    expect(audits?.count).toBe(2);
+  });
+
+  it('only counts rows of the same chat as duplicates', async () => {
+    const file = sms('640,000', '204,285,600', '12:06');
+    await importEntries(env.DB, 1, readImportFile(file, { fileName: 'sms.txt' }));
+    const other = await importEntries(env.DB, 2, readImportFile(file, { fileName: 'sms.txt' }));
+    expect(other).toMatchObject({ imported: 1, duplicates: 0 });
+  });
+
+  it('stops at the deadline and reports what is left', async () => {
+    const summary = await importEntries(env.DB, 1, readImportFile(sms('1,000', '2,000', '08:00'), { fileName: 'sms.txt' }), { deadline: 1 });
+    expect(summary).toMatchObject({ imported: 0, skipped: 1 });
+  });
+});
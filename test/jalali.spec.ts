@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addJalaliDays,
+  isValidJalaliDate,
+  jalaliDateTimeToEpoch,
+  jalaliMonthLength,
+  parseJalaliDate,
+  tehranToday,
+  toGregorian,
+  toJalali,
+} from '../src/jalali';
+
+describe('Jalali calendar', () => {
+  it('converts between Jalali and Gregorian dates', () => {
+    expect(toGregorian({ year: 1404, month: 1, day: 1 })).toEqual({ year: 2025, month: 3, day: 21 });
+    expect(toGregorian({ year: 1404, month: 2, day: 8 })).toEqual({ year: 2025, month: 4, day: 28 });
+    expect(toJalali({ year: 2025, month: 3, day: 20 })).toEqual({ year: 1403, month: 12, day: 30 });
+    expect(toJalali({ year: 2024, month: 3, day: 19 })).toEqual({ year: 1402, month: 12, day: 29 });
+  });
+
+  it('knows month lengths and leap years', () => {
+    expect(jalaliMonthLength(1404, 2)).toBe(31);
+    expect(jalaliMonthLength(1404, 7)).toBe(30);
+    expect(jalaliMonthLength(1403, 12)).toBe(30);
+    expect(jalaliMonthLength(1404, 12)).toBe(29);
+    expect(isValidJalaliDate(1404, 12, 30)).toBe(false);
+    expect(parseJalaliDate('1404/13/40')).toBeNull();
+    expect(parseJalaliDate('1404-2-8')).toEqual({ year: 1404, month: 2, day: 8 });
+  });
+
+  it('does day arithmetic across month and year boundaries', () => {
+    expect(addJalaliDays({ year: 1404, month: 1, day: 1 }, -1)).toEqual({ year: 1403, month: 12, day: 30 });
+    expect(addJalaliDays({ year: 1404, month: 6, day: 31 }, 1)).toEqual({ year: 1404, month: 7, day: 1 });
+  });
+
+  it('uses Tehran time for today', () => {
+    // 2025-04-27T21:00:00Z is already 1404/02/08 00:30 in Tehran
+    expect(tehranToday(Date.UTC(2025, 3, 27, 21, 0))).toEqual({ year: 1404, month: 2, day: 8 });
+  });
+
+  it('converts Tehran wall-clock time to an epoch instant', () => {
+    expect(jalaliDateTimeToEpoch('1404/02/08', '20:17:00')).toBe(Date.UTC(2025, 3, 28, 16, 47));
+    // Daylight saving (UTC+04:30) still applied in 1400
+    expect(jalaliDateTimeToEpoch('1400/03/11', '04:30:00')).toBe(Date.UTC(2021, 5, 1, 0, 0));
+    expect(() => jalaliDateTimeToEpoch('1404/13/01', '10:00')).toThrow();
+  });
+});
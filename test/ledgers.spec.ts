@@ -0,0 +1,162 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import {
+  canWrite,
+  createInvite,
+  createLedger,
+  INVITE_TTL_MS,
+  joinLedger,
+  leaveLedger,
+  LedgerError,
+  listMembers,
+  parseLedgerRole,
+  removeMember,
+  resolveLedger,
+  setMemberRole,
+} from '../src/ledgers';
+import { buildTransactionReport } from '../src/report';
+import { createApiToken, listApiTokens, revokeApiToken } from '../src/auth';
+import { deleteTransaction, getLastTransaction } from '../src/transactions';
+
+const OWNER = { id: 100, name: 'Sara' };
+const PARTNER = { id: 200, name: 'Ali' };
+const GUEST = { id: 300, name: 'Reza' };
+
+async function spend(chatId: number, amount: number, submittedBy: number | null): Promise<void> {
+  await env.DB.prepare(`
+    INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+      transaction_method, branch_code, balance, date, time, location, tag, timestamp, submitted_by)
+    VALUES (?, 'Unknown', '1111', 'withdrawal', ?, NULL, 'Unknown', NULL, 0, '1404/02/10', '10:00:00', 'Unknown', NULL, 0, ?)
+  `).bind(chatId, amount, submittedBy).run();
+}
+
+describe('Ledgers', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('keeps unlinked chats on their own data', async () => {
+    expect(await resolveLedger(env.DB, 100, 100)).toEqual({ ledger: null, dataChatId: 100, role: 'owner', userId: 100 });
+    expect(parseLedgerRole(undefined)).toBe('member');
+    expect(parseLedgerRole('read-only')).toBe('viewer');
+    expect(parseLedgerRole('owner')).toBeNull();
+  });
+
+  it('shares the home chat data with members who join by invite', async () => {
+    await createLedger(env.DB, OWNER.id, OWNER, 'Home');
+    const owner = await resolveLedger(env.DB, OWNER.id, OWNER.id);
+    expect(owner).toMatchObject({ dataChatId: OWNER.id, role: 'owner', ledger: { name: 'Home' } });
+    await expect(createLedger(env.DB, OWNER.id, OWNER, 'Again')).rejects.toThrow(LedgerError);
+
+    const memberCode = await createInvite(env.DB, owner, 'member');
+    const viewerCode = await createInvite(env.DB, owner, 'viewer');
+    await joinLedger(env.DB, PARTNER.id, PARTNER, memberCode.toLowerCase());
+    await joinLedger(env.DB, GUEST.id, GUEST, viewerCode);
+
+    const partner = await resolveLedger(env.DB, PARTNER.id, PARTNER.id);
+    const guest = await resolveLedger(env.DB, GUEST.id, GUEST.id);
+    expect(partner).toMatchObject({ dataChatId: OWNER.id, role: 'member' });
+    expect(canWrite(partner)).toBe(true);
+    expect(guest).toMatchObject({ dataChatId: OWNER.id, role: 'viewer' });
+    expect(canWrite(guest)).toBe(false);
+    // Only the owner manages the ledger
+    await expect(createInvite(env.DB, partner, 'member')).rejects.toThrow(LedgerError);
+
+    expect((await listMembers(env.DB, owner.ledger!.id)).map(member => [member.name, member.role])).toEqual([
+      ['Sara', 'owner'],
+      ['Ali', 'member'],
+      ['Reza', 'viewer'],
+    ]);
+  });
+
+  it('accepts each invite once and only until it expires', async () => {
+    const now = Date.now();
+    await createLedger(env.DB, OWNER.id, OWNER, 'Home', now);
+    const owner = await resolveLedger(env.DB, OWNER.id, OWNER.id);
+    const used = await createInvite(env.DB, owner, 'member', now);
+    const expired = await createInvite(env.DB, owner, 'member', now - INVITE_TTL_MS - 1);
+
+    await joinLedger(env.DB, PARTNER.id, PARTNER, used, now);
+    await expect(joinLedger(env.DB, GUEST.id, GUEST, used, now)).rejects.toThrow('نامعتبر');
+    await expect(joinLedger(env.DB, GUEST.id, GUEST, expired, now)).rejects.toThrow('نامعتبر');
+    // Only the owner may link a group chat
+    const group = await createInvite(env.DB, owner, 'viewer', now);
+    await expect(joinLedger(env.DB, -500, PARTNER, group, now)).rejects.toThrow('خصوصی');
+    await joinLedger(env.DB, -500, OWNER, group, now);
+    expect(await resolveLedger(env.DB, -500, PARTNER.id)).toMatchObject({ dataChatId: OWNER.id, role: 'member' });
+    // The home chat cannot be moved into another ledger
+    const another = await createInvite(env.DB, owner, 'member', now);
+    await expect(joinLedger(env.DB, OWNER.id, OWNER, another, now)).rejects.toThrow(LedgerError);
+  });
+
+  it('unlinks chats when members leave or are removed', async () => {
+    await createLedger(env.DB, OWNER.id, OWNER, 'Home');
+    const owner = await resolveLedger(env.DB, OWNER.id, OWNER.id);
+    await joinLedger(env.DB, PARTNER.id, PARTNER, await createInvite(env.DB, owner, 'member'));
+    await joinLedger(env.DB, GUEST.id, GUEST, await createInvite(env.DB, owner, 'member'));
+
+    expect(await setMemberRole(env.DB, owner, GUEST.id, 'viewer')).toBe(true);
+    expect((await resolveLedger(env.DB, GUEST.id, GUEST.id)).role).toBe('viewer');
+
+    await leaveLedger(env.DB, await resolveLedger(env.DB, PARTNER.id, PARTNER.id));
+    expect((await resolveLedger(env.DB, PARTNER.id, PARTNER.id)).dataChatId).toBe(PARTNER.id);
+    expect(await removeMember(env.DB, owner, GUEST.id)).toBe(true);
+    expect((await resolveLedger(env.DB, GUEST.id, GUEST.id)).ledger).toBeNull();
+
+    await expect(leaveLedger(env.DB, owner)).rejects.toThrow(LedgerError);
+    expect((await resolveLedger(env.DB, OWNER.id, OWNER.id)).ledger).not.toBeNull();
+  });
+
+  it('revokes API tokens of members who are removed or made read-only', async () => {
+    await createLedger(env.DB, OWNER.id, OWNER, 'Home');
+    const owner = await resolveLedger(env.DB, OWNER.id, OWNER.id);
+    await joinLedger(env.DB, PARTNER.id, PARTNER, await createInvite(env.DB, owner, 'member'));
+    await joinLedger(env.DB, GUEST.id, GUEST, await createInvite(env.DB, owner, 'member'));
+    const ownerToken = await createApiToken(env.DB, OWNER.id, OWNER.id);
+    await createApiToken(env.DB, OWNER.id, PARTNER.id);
+    await createApiToken(env.DB, OWNER.id, GUEST.id);
+
+    // A member sees and revokes only their own tokens
+    expect((await listApiTokens(env.DB, OWNER.id, PARTNER.id)).map(token => token.created_by)).toEqual([PARTNER.id]);
+    expect(await revokeApiToken(env.DB, OWNER.id, ownerToken.id, PARTNER.id)).toBe(false);
+
+    await setMemberRole(env.DB, owner, PARTNER.id, 'viewer');
+    await removeMember(env.DB, owner, GUEST.id);
+    expect((await listApiTokens(env.DB, OWNER.id)).map(token => token.created_by)).toEqual([OWNER.id]);
+    // The owner's tokens survive an attempt to demote the owner
+    expect(await setMemberRole(env.DB, owner, OWNER.id, 'viewer')).toBe(false);
+    expect(await listApiTokens(env.DB, OWNER.id)).toHaveLength(1);
+  });
+
+  it('lets each member undo only their own last transaction', async () => {
+    await createLedger(env.DB, OWNER.id, OWNER, 'Home');
+    await joinLedger(env.DB, PARTNER.id, PARTNER, await createInvite(env.DB, await resolveLedger(env.DB, OWNER.id, OWNER.id), 'member'));
+    await spend(OWNER.id, 1000, PARTNER.id);
+    await spend(OWNER.id, 2000, OWNER.id);
+
+    // What /undo does for the partner: the owner's newer row is left alone
+    const last = await getLastTransaction(env.DB, OWNER.id, PARTNER.id);
+    expect(last).toMatchObject({ withdrawal_amount: 1000, submitted_by: PARTNER.id });
+    await deleteTransaction(env.DB, OWNER.id, last!.id);
+    expect(await getLastTransaction(env.DB, OWNER.id, PARTNER.id)).toBeNull();
+    expect(await getLastTransaction(env.DB, OWNER.id)).toMatchObject({ withdrawal_amount: 2000, submitted_by: OWNER.id });
+  });
+
+  it('breaks reports down by the member who submitted each transaction', async () => {
+    await spend(OWNER.id, 1000, null);
+    await createLedger(env.DB, OWNER.id, OWNER, 'Home');
+    const owner = await resolveLedger(env.DB, OWNER.id, OWNER.id);
+    await joinLedger(env.DB, PARTNER.id, PARTNER, await createInvite(env.DB, owner, 'member'));
+    await spend(OWNER.id, 500, PARTNER.id);
+    await spend(OWNER.id, 250, 999);
+
+    const report = await buildTransactionReport(env.DB, OWNER.id);
+    expect(report.byMember).toEqual({
+      // Rows from before the ledger existed are attributed to the owner of the private chat
+      [OWNER.id]: { name: 'Sara', count: 1, totalWithdrawal: 1000, totalDeposit: 0 },
+      [PARTNER.id]: { name: 'Ali', count: 1, totalWithdrawal: 500, totalDeposit: 0 },
+      999: { name: null, count: 1, totalWithdrawal: 250, totalDeposit: 0 },
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { createLogger, LOG_RETENTION_MS, parseLogLevel, pruneLogs, serializeError } from '../src/logger';
+
+interface LogRow {
+  level: string;
+  request_id: string;
+  chat_id: number | null;
+  message: string;
+  context: string | null;
+}
+
+async function storedLogs(): Promise<LogRow[]> {
+  const result = await env.DB.prepare(`SELECT level, request_id, chat_id, message, context FROM logs ORDER BY id`).all<LogRow>();
+  return result.results;
+}
+
+describe('Logger', () => {
+  let consoleLog: ReturnType<typeof vi.spyOn>;
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    consoleLog = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores entries at or above LOG_LEVEL with the request id and chat', async () => {
+    const log = createLogger({ DB: env.DB, LOG_LEVEL: 'warn' }, { requestId: 'req-1' });
+    log.info('not stored');
+    log.setChatId(42);
+    log.warn('Rejected request', { status: 401 });
+    log.error('Failed to save transaction', { error: new TypeError('boom') });
+    await log.flush();
+
+    const rows = await storedLogs();
+    expect(rows.map(row => [row.level, row.request_id, row.chat_id, row.message])).toEqual([
+      ['warn', 'req-1', 42, 'Rejected request'],
+      ['error', 'req-1', 42, 'Failed to save transaction'],
+    ]);
+    expect(JSON.parse(rows[1].context!).error).toMatchObject({ name: 'TypeError', message: 'boom' });
+    expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('"message":"not stored"'));
+  });
+
+  it('forwards errors to the admin chat only', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ ok: true, result: { message_id: 1, chat: { id: 99 } } }))
+    );
+    const log = createLogger({ TELEGRAM_TOKEN: 'token', ADMIN_CHAT_ID: '99' }, { requestId: 'req-2', chatId: 7 });
+    log.warn('just a warning');
+    log.error('Unhandled error while handling update', { error: new Error('db down') });
+    await log.flush();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(String(url)).toContain('/sendMessage');
+    const body = JSON.parse(String(init?.body));
+    expect(body.chat_id).toBe(99);
+    expect(body.text).toContain('ERROR Unhandled error while handling update');
+    expect(body.text).toContain('request: req-2');
+    expect(body.text).toContain('db down');
+  });
+
+  it('keeps working without bindings when configuration is broken', async () => {
+    const log = createLogger({});
+    log.error('Server configuration error');
+    await log.flush();
+    expect(log.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('Server configuration error'));
+  });
+
+  it('prunes entries past the retention period', async () => {
+    const now = Date.now();
+    await env.DB.prepare(`INSERT INTO logs (timestamp, level, request_id, message) VALUES (?, 'info', 'old', 'x'), (?, 'info', 'new', 'y')`)
+      .bind(now - LOG_RETENTION_MS - 1, now)
+      .run();
+    expect(await pruneLogs(env.DB, now)).toBe(1);
+    expect((await storedLogs()).map(row => row.request_id)).toEqual(['new']);
+  });
+
+  it('parses levels and serializes non-errors', () => {
+    expect(parseLogLevel(' ERROR ')).toBe('error');
+    expect(parseLogLevel('verbose')).toBe('info');
+    expect(serializeError('plain')).toEqual({ value: 'plain' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { amount, bold, code, hashtag, html, lines, plain, pre, splitHtml, toPlainText, truncateHtml } from '../src/message';
+
+describe('Message builder', () => {
+  it('escapes every interpolated value but keeps nested markup', () => {
+    const tag = '<script>&"x"';
+    const message = html`🏷 ${bold(tag)} ${plain('a < b')} ${42}`;
+    expect(message.value).toBe('🏷 <b>&lt;script&gt;&amp;&quot;x&quot;</b> a &lt; b 42');
+    expect(html`${[bold('a'), 'b&', null, false, undefined]}`.value).toBe('<b>a</b>b&amp;');
+  });
+
+  it('formats amounts, codes and tags for RTL messages', () => {
+    expect(amount(1500000).value).toBe('<b>۱٬۵۰۰٬۰۰۰</b> ریال');
+    expect(code('/edit 5').value).toBe('\u2066<code>/edit 5</code>\u2069');
+    expect(hashtag('food').value).toBe('\u2066#food\u2069');
+    expect(pre('a\n<b>').value).toBe('<pre>a\n&lt;b&gt;</pre>');
+  });
+
+  it('joins optional lines', () => {
+    const branch: string | null = null;
+    expect(lines('✅ ok', branch && html`🏢 ${branch}`, '', bold('end')).value).toBe('✅ ok\n\n<b>end</b>');
+    expect(lines('a', false, undefined, 'b').value).toBe('a\nb');
+  });
+
+  it('recovers the displayed text for the plain-text fallback', () => {
+    expect(toPlainText(html`${bold('a & <b>')} ${code("it's")}`.value)).toBe("a & <b> \u2066it's\u2069");
+  });
+
+  it('splits long markup without breaking tags or entities', () => {
+    const body = Array.from({ length: 30 }, (_, i) => `line ${i} &amp; more`).join('\n');
+    const chunks = splitHtml(`<b>title</b>\n<pre>${body}</pre>`, 200);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(200 + '</pre>'.length);
+      expect(chunk.split('<pre>').length).toBe(chunk.split('</pre>').length);
+      expect(chunk).not.toMatch(/&(?!amp;)/);
+    }
+    expect(chunks.slice(1).every(chunk => chunk.startsWith('<pre>'))).toBe(true);
+    expect(chunks.map(toPlainText).join('\n')).toBe(toPlainText(`<b>title</b>\n<pre>${body}</pre>`));
+
+    const long = splitHtml(`x${'&amp;'.repeat(50)}`, 100);
+    expect(long.every(chunk => !/&(?!amp;)/.test(chunk) && chunk.length <= 100)).toBe(true);
+    expect(long.join('')).toBe(`x${'&amp;'.repeat(50)}`);
+  });
+
+  it('truncates long markup to valid HTML', () => {
+    const short = html`<b>ok</b>`;
+    expect(truncateHtml(short, 100)).toBe(short);
+
+    const cut = truncateHtml(bold(lines(...Array.from({ length: 30 }, (_, i) => `line ${i}`))), 60).value;
+    expect(cut.endsWith('</b>…')).toBe(true);
+    expect(cut.split('<b>').length).toBe(cut.split('</b>').length);
+  });
+});
@@ -0,0 +1,66 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { applyMigrations, getSchemaVersion, splitStatements, LATEST_SCHEMA_VERSION } from '../src/migrations';
+
+describe('Schema migrations', () => {
+  it('splits migration files into statements and drops comments', () => {
+    const sql = `
+      -- comment line
+      CREATE TABLE a (id INTEGER);
+      ALTER TABLE a ADD COLUMN b TEXT;
+    `;
+    expect(splitStatements(sql)).toEqual(['CREATE TABLE a (id INTEGER)', 'ALTER TABLE a ADD COLUMN b TEXT']);
+  });
+
+  it('creates a fresh database at the latest version', async () => {
+    const result = await applyMigrations(env.DB);
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(env.DB)).toBe(LATEST_SCHEMA_VERSION);
+
+    const again = await applyMigrations(env.DB);
+    expect(again.applied).toEqual([]);
+  });
+
+  it('runs each migration once when two isolates migrate at the same time', async () => {
+    let backfills = 0;
+    const migrations = [
+      { version: 1, name: '0001_a', sql: 'CREATE TABLE IF NOT EXISTS a (id INTEGER)', backfill: async () => { backfills++; } },
+    ];
+    const results = await Promise.all([applyMigrations(env.DB, migrations), applyMigrations(env.DB, migrations)]);
+    expect(results.flatMap(result => result.applied)).toEqual(['0001_a']);
+    expect(backfills).toBe(1);
+  });
+
+  it('releases the version of a migration that fails', async () => {
+    const failing = [{ version: 1, name: '0001_bad', sql: 'CREATE TABLE' }];
+    await expect(applyMigrations(env.DB, failing)).rejects.toThrow('Migration 0001_bad failed');
+    expect(await getSchemaVersion(env.DB)).toBe(0);
+  });
+
+  it('brings a legacy transactions table forward', async () => {
+    await env.DB.prepare(`
+      CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        chat_id INTEGER,
+        bank_name TEXT, account_number TEXT, withdrawal_amount INTEGER, transaction_method TEXT,
+        balance INTEGER, date TEXT, time TEXT, location TEXT, tag TEXT, timestamp INTEGER
+      )
+    `).run();
+    await env.DB.prepare(`
+      INSERT INTO transactions (chat_id, bank_name, account_number, withdrawal_amount, transaction_method, balance, date, time, location, tag, timestamp)
+      VALUES (1, 'Unknown', '1234', 5000, 'Unknown', 10000, '1404/02/08', '20:17:00', 'Cafe', 'cafe', 0)
+    `).run();
+
+    await applyMigrations(env.DB);
+
+    const columns = await env.DB.prepare(`PRAGMA table_info(transactions)`).all<{ name: string }>();
+    const names = columns.results.map(column => column.name);
+    expect(names).toEqual(expect.arrayContaining(['chat_id', 'transaction_type', 'deposit_amount', 'branch_code']));
+
+    const row = await env.DB.prepare(`SELECT transaction_type, occurred_at FROM transactions`)
+      .first<{ transaction_type: string; occurred_at: number }>();
+    expect(row?.transaction_type).toBe('withdrawal');
+    expect(row?.occurred_at).toBe(Date.UTC(2025, 3, 28, 16, 47));
+  });
+});
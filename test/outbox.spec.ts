@@ -0,0 +1,121 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, it, expect, MockInstance, vi } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import {
+  drainOutbox,
+  enqueueMessage,
+  getOutboxMessages,
+  MAX_MESSAGE_LENGTH,
+  OUTBOX_RETENTION_MS,
+  pruneOutbox,
+  splitMessage,
+  STALE_CLAIM_MS,
+} from '../src/outbox';
+import { html } from '../src/message';
+
+function telegramOk(): Response {
+  return new Response(JSON.stringify({ ok: true, result: { message_id: 1, chat: { id: 1 } } }));
+}
+
+function telegramError(status: number, description: string, retryAfter?: number): Response {
+  return new Response(
+    JSON.stringify({ ok: false, error_code: status, description, ...(retryAfter ? { parameters: { retry_after: retryAfter } } : {}) }),
+    { status }
+  );
+}
+
+function sentBodies(fetchSpy: MockInstance<typeof fetch>): Record<string, unknown>[] {
+  return fetchSpy.mock.calls.map(call => JSON.parse(String(call[1]?.body)));
+}
+
+const soon = () => Date.now() + 5000;
+
+describe('Outbox', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('splits long replies into numbered chunks and keeps the keyboard for the last one', async () => {
+    const line = 'x'.repeat(1500);
+    expect(splitMessage([line, line, line].join('\n')).map(chunk => chunk.length)).toEqual([3001, 1500]);
+    expect(splitMessage('y'.repeat(MAX_MESSAGE_LENGTH + 10)).map(chunk => chunk.length)).toEqual([MAX_MESSAGE_LENGTH, 10]);
+
+    const keyboard = { inline_keyboard: [[{ text: 'ok', callback_data: 'ok' }]] };
+    await enqueueMessage(env.DB, 1, html`${line}\n${line}\n${line}${'<&>'}`, { replyMarkup: keyboard });
+    const rows = await getOutboxMessages(env.DB, 1);
+    expect(rows.map(row => row.text.slice(0, 6))).toEqual(['[1/2] ', '[2/2] ']);
+    expect(rows.map(row => row.parse_mode)).toEqual(['HTML', 'HTML']);
+    expect(rows[1].text.endsWith('&lt;&amp;&gt;')).toBe(true);
+    expect(rows[1].fallback_text!.endsWith('<&>')).toBe(true);
+    expect(rows.map(row => row.reply_markup)).toEqual([null, JSON.stringify(keyboard)]);
+  });
+
+  it('delivers each chunk once and in order per chat', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => telegramOk());
+    await enqueueMessage(env.DB, 1, 'first');
+    await enqueueMessage(env.DB, 2, 'other chat');
+    await enqueueMessage(env.DB, 1, 'second');
+
+    // Two overlapping drains, as from a request and the cron, must not send anything twice
+    const [a, b] = await Promise.all([drainOutbox(env.DB, 'token', { deadline: soon() }), drainOutbox(env.DB, 'token', { deadline: soon() })]);
+    expect(a.sent + b.sent).toBe(3);
+    expect(await drainOutbox(env.DB, 'token', { deadline: soon() })).toEqual({ sent: 0, retried: 0, failed: 0 });
+
+    const texts = sentBodies(fetchSpy).filter(body => body.chat_id === 1).map(body => body.text);
+    expect(texts).toEqual(['first', 'second']);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect((await getOutboxMessages(env.DB, 1)).every(row => row.status === 'sent' && row.sent_at)).toBe(true);
+  });
+
+  it('holds a chat back for retry_after when rate limited', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(telegramError(429, 'Too Many Requests: retry after 30', 30))
+      .mockImplementation(async () => telegramOk());
+    await enqueueMessage(env.DB, 1, 'first');
+    await enqueueMessage(env.DB, 1, 'second');
+
+    const before = Date.now();
+    expect(await drainOutbox(env.DB, 'token', { deadline: soon() })).toEqual({ sent: 0, retried: 1, failed: 0 });
+    const [first, second] = await getOutboxMessages(env.DB, 1);
+    expect(first).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(first.next_attempt_at).toBeGreaterThanOrEqual(before + 30000);
+    // The second chunk must not overtake the first
+    expect(second.status).toBe('pending');
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await env.DB.prepare(`UPDATE outbox SET next_attempt_at = 0`).run();
+    expect(await drainOutbox(env.DB, 'token', { deadline: soon() })).toMatchObject({ sent: 2 });
+    expect(sentBodies(fetchSpy).map(body => body.text)).toEqual(['first', 'first', 'second']);
+  });
+
+  it('falls back to plain text when Telegram cannot parse the markup', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(telegramError(400, "Bad Request: can't parse entities: Unsupported start tag at byte offset 0"))
+      .mockImplementation(async () => telegramOk());
+    await enqueueMessage(env.DB, 1, html`<b>a &amp; b</b>`);
+
+    expect(await drainOutbox(env.DB, 'token', { deadline: soon() })).toMatchObject({ sent: 1 });
+    const [formatted, plain] = sentBodies(fetchSpy);
+    expect(formatted).toMatchObject({ text: '<b>a &amp; b</b>', parse_mode: 'HTML' });
+    expect(plain.text).toBe('a & b');
+    expect(plain.parse_mode).toBeUndefined();
+  });
+
+  it('fails permanent errors, gives up on interrupted sends and prunes old rows', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(telegramError(403, 'Forbidden: bot was blocked by the user'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await enqueueMessage(env.DB, 1, 'blocked');
+    const [stale] = await enqueueMessage(env.DB, 2, 'interrupted');
+    await env.DB.prepare(`UPDATE outbox SET status = 'sending', claimed_at = ? WHERE id = ?`).bind(Date.now() - STALE_CLAIM_MS - 1, stale).run();
+
+    expect(await drainOutbox(env.DB, 'token', { deadline: soon() })).toEqual({ sent: 0, retried: 0, failed: 1 });
+    expect((await getOutboxMessages(env.DB, 1))[0]).toMatchObject({ status: 'failed', last_error: expect.stringContaining('403') });
+    expect((await getOutboxMessages(env.DB, 2))[0]).toMatchObject({ status: 'failed', last_error: 'Interrupted while sending' });
+
+    expect(await pruneOutbox(env.DB, Date.now() + OUTBOX_RETENTION_MS + 1)).toBe(2);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseTransactionData, TransactionData, ParseError } from '../src/parser';
+import { parseTransaction, parseTransactionData, TransactionData, ParseError } from '../src/parser';
 
 describe('Transaction Parser', () => {
   // Test cases for Template 1
@@ -30,6 +30,7 @@ describe('Transaction Parser', () => {
         location: 'Cigarettes',
         tag: 'ciggaret',
         timestamp: expect.any(Number),
+        occurred_at: Date.UTC(2025, 3, 22, 8, 36),
       };
 
       const result = parseTransactionData(input);
@@ -63,6 +64,7 @@ describe('Transaction Parser', () => {
         location: 'Hooghoogh',
         tag: 'hooghoogh',
         timestamp: expect.any(Number),
+        occurred_at: Date.UTC(2025, 3, 22, 8, 28),
       };
 
       const result = parseTransactionData(input);
@@ -95,6 +97,7 @@ describe('Transaction Parser', () => {
         location: 'Ichil',
         tag: 'ichil',
         timestamp: expect.any(Number),
+        occurred_at: Date.UTC(2025, 3, 28, 16, 47),
       };
 
       const result = parseTransactionData(input);
@@ -124,6 +127,7 @@ describe('Transaction Parser', () => {
         location: 'CardCard',
         tag: 'moneymanagement',
         timestamp: expect.any(Number),
+        occurred_at: Date.UTC(2025, 3, 28, 6, 50),
       };
 
       const result = parseTransactionData(input);
@@ -131,6 +135,291 @@ describe('Transaction Parser', () => {
     });
   });
 
+  // Other banks, each handled by its own parser in src/parsers
+  describe('Bank parser registry', () => {
+    it('parses a Mellat withdrawal', () => {
+      const input = `
+        بانک ملت
+        حساب:5012345678
+        مبلغ:1,250,000-
+        مانده:8,750,000
+        1404/02/10-14:22
+        Snapp #transport
+      `.trim();
+
+      const result = parseTransaction(input);
+      expect(result.parser.name).toBe('mellat');
+      expect(result.data).toEqual({
+        bank_name: 'بانک ملت',
+        account_number: '5012345678',
+        transaction_type: 'withdrawal',
+        withdrawal_amount: 1250000,
+        deposit_amount: null,
+        transaction_method: 'Unknown',
+        branch_code: null,
+        balance: 8750000,
+        date: '1404/02/10',
+        time: '14:22:00',
+        location: 'Snapp',
+        tag: 'transport',
+        timestamp: expect.any(Number),
+        occurred_at: Date.UTC(2025, 3, 30, 10, 52),
+      });
+    });
+
+    it('parses a Mellat deposit', () => {
+      const input = `
+        بانک ملت
+        حساب:5012345678
+        مبلغ:3,000,000+
+        مانده:11,750,000
+        1404/02/10-16:00
+      `.trim();
+
+      const result = parseTransactionData(input);
+      expect(result).toMatchObject({ transaction_type: 'deposit', deposit_amount: 3000000, balance: 11750000, location: 'Unknown', tag: '' });
+    });
+
+    it('parses a Melli withdrawal', () => {
+      const input = `
+        بانک ملی ایران
+        برداشت از حساب 0101234567008
+        مبلغ 2,000,000 ریال
+        موجودی 15,000,000 ریال
+        تاریخ 1404/02/11 ساعت 09:15
+        Hyperstar #grocery
+      `.trim();
+
+      const result = parseTransaction(input);
+      expect(result.parser.name).toBe('melli');
+      expect(result.data).toMatchObject({
+        bank_name: 'بانک ملی',
+        account_number: '0101234567008',
+        transaction_type: 'withdrawal',
+        withdrawal_amount: 2000000,
+        balance: 15000000,
+        date: '1404/02/11',
+        time: '09:15:00',
+        location: 'Hyperstar',
+        tag: 'grocery',
+      });
+    });
+
+    it('parses a Melli deposit', () => {
+      const input = `
+        بانک ملی ایران
+        واریز به حساب 0101234567008
+        مبلغ 5,000,000 ریال
+        موجودی 20,000,000 ریال
+        تاریخ 1404/02/12 ساعت 08:00
+      `.trim();
+
+      expect(parseTransactionData(input)).toMatchObject({ transaction_type: 'deposit', deposit_amount: 5000000, withdrawal_amount: null });
+    });
+
+    it('parses a Saderat withdrawal', () => {
+      const input = `
+        بانک صادرات
+        سپرده 0212345678001
+        برداشت: 500,000
+        مانده: 3,200,000
+        1404/02/12 10:05
+        Kourosh #shopping
+      `.trim();
+
+      const result = parseTransaction(input);
+      expect(result.parser.name).toBe('saderat');
+      expect(result.data).toMatchObject({
+        bank_name: 'بانک صادرات',
+        account_number: '0212345678001',
+        transaction_type: 'withdrawal',
+        withdrawal_amount: 500000,
+        balance: 3200000,
+        date: '1404/02/12',
+        time: '10:05:00',
+        location: 'Kourosh',
+        tag: 'shopping',
+      });
+    });
+
+    it('parses a Saderat deposit', () => {
+      const input = `
+        بانک صادرات
+        سپرده 0212345678001
+        واریز: 1,000,000
+        مانده: 4,200,000
+        1404/02/12 12:30
+      `.trim();
+
+      expect(parseTransactionData(input)).toMatchObject({ transaction_type: 'deposit', deposit_amount: 1000000 });
+    });
+
+    it('parses a Pasargad purchase', () => {
+      const input = `
+        بانک پاسارگاد
+        خرید
+        مبلغ: 780,000 ریال
+        از: 207.8000.12345678.1
+        مانده: 12,340,000 ریال
+        1404.02.13 18:40
+        Digikala #shopping
+      `.trim();
+
+      const result = parseTransaction(input);
+      expect(result.parser.name).toBe('pasargad');
+      expect(result.data).toMatchObject({
+        bank_name: 'بانک پاسارگاد',
+        account_number: '207.8000.12345678.1',
+        transaction_type: 'withdrawal',
+        withdrawal_amount: 780000,
+        transaction_method: 'خرید',
+        balance: 12340000,
+        date: '1404/02/13',
+        time: '18:40:00',
+        location: 'Digikala',
+        tag: 'shopping',
+      });
+    });
+
+    it('parses a Pasargad deposit', () => {
+      const input = `
+        بانک پاسارگاد
+        واریز
+        مبلغ: 9,000,000 ریال
+        به: 207.8000.12345678.1
+        مانده: 21,340,000 ریال
+        1404.02.14 09:00
+      `.trim();
+
+      expect(parseTransactionData(input)).toMatchObject({ transaction_type: 'deposit', deposit_amount: 9000000 });
+    });
+
+    it('parses a Saman transfer', () => {
+      const input = `
+        بانک سامان
+        انتقال از حساب 821-800-1234567-1
+        مبلغ: 3,000,000-
+        مانده: 45,000,000
+        04/02/14 20:10
+        Rent #home
+      `.trim();
+
+      const result = parseTransaction(input);
+      expect(result.parser.name).toBe('saman');
+      expect(result.data).toMatchObject({
+        bank_name: 'بانک سامان',
+        account_number: '821-800-1234567-1',
+        transaction_type: 'withdrawal',
+        withdrawal_amount: 3000000,
+        transaction_method: 'انتقال',
+        balance: 45000000,
+        date: '1404/02/14',
+        time: '20:10:00',
+        location: 'Rent',
+        tag: 'home',
+      });
+    });
+
+    it('parses a Saman deposit', () => {
+      const input = `
+        بانک سامان
+        واریز به حساب 821-800-1234567-1
+        مبلغ: 3,000,000+
+        مانده: 48,000,000
+        04/02/15 08:10
+      `.trim();
+
+      expect(parseTransactionData(input)).toMatchObject({ transaction_type: 'deposit', deposit_amount: 3000000 });
+    });
+
+    it('reports which parsers were tried and why they rejected the message', () => {
+      const input = `
+        بانک ملت
+        حساب:5012345678
+        مبلغ:1,250,000
+        مانده:8,750,000
+        1404/02/10-14:22
+      `.trim();
+
+      try {
+        parseTransactionData(input);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ParseError);
+        const attempts = (error as ParseError).attempts;
+        expect(attempts[0]).toMatchObject({ parser: 'mellat', reason: expect.stringContaining('Invalid Mellat amount') });
+        expect(attempts.find(attempt => attempt.parser === 'saman')).toMatchObject({ reason: 'format not detected' });
+        expect((error as ParseError).message).toContain('mellat (Invalid Mellat amount');
+      }
+    });
+  });
+
+  describe('Normalization', () => {
+    it('parses Persian digits, Arabic separators and toman amounts', () => {
+      const input = `
+        *بانک تجارت*
+        حساب: ۰۱۷۷۰۱۸۳۷۶۶۹۱
+        برداشت: ۶۴٬۰۰۰ تومان
+        از طریق: پایانه فروش
+        مانده: ۲۰۴٬۲۸۵٬۶۰۰ ریال
+        ۱۴۰۴/۰۲/۰۲
+        ۱۲:۰۶
+        Cigarettes #ciggaret
+      `.trim();
+
+      expect(parseTransactionData(input)).toMatchObject({
+        account_number: '0177018376691',
+        withdrawal_amount: 640000,
+        balance: 204285600,
+        date: '1404/02/02',
+        time: '12:06:00',
+      });
+    });
+
+    it('parses Arabic-Indic digits in the compact format', () => {
+      const input = `
+        حساب٢٣٢٨٢٦٢٠٥٠
+        واريز٢٠,٠٠٠,٠٠٠
+        مانده٢٠,٤٨٣,٨٢٥
+        ٠٤/٠٢/٠٨-١٠:٢٠
+        #moneymanagement
+      `.trim();
+
+      expect(parseTransactionData(input)).toMatchObject({
+        account_number: '2328262050',
+        transaction_type: 'deposit',
+        deposit_amount: 20000000,
+        date: '1404/02/08',
+        time: '10:20:00',
+      });
+    });
+
+    it('rejects dates that do not exist in the Jalali calendar', () => {
+      const input = `
+        *بانک تجارت*
+        حساب: 0177018376691
+        برداشت: 640,000 ریال
+        از طریق: پایانه فروش
+        مانده: 204,285,600 ریال
+        1404/13/40
+        12:06
+      `.trim();
+      expect(() => parseTransactionData(input)).toThrow(ParseError);
+      expect(() => parseTransactionData(input)).toThrow('Invalid date: 1404/13/40 is not a valid Jalali date');
+    });
+
+    it('rejects the 30th of Esfand outside leap years', () => {
+      const input = `
+        حساب2328262050
+        برداشت2,007,200
+        مانده4,715,425
+        04/12/30-20:17
+        Ichil #ichil
+      `.trim();
+      expect(() => parseTransactionData(input)).toThrow('Invalid date: 1404/12/30 is not a valid Jalali date');
+    });
+  });
+
   // Edge cases
   describe('Edge Cases and Error Handling', () => {
     it('throws ParseError for empty input', () => {
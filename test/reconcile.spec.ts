@@ -0,0 +1,54 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import { findBalanceGaps, reconcileAccount, ReconcileRow } from '../src/reconcile';
+
+const row = (id: number, type: 'withdrawal' | 'deposit', amount: number, balance: number, time: string): ReconcileRow => ({
+  id,
+  account_number: '1111',
+  transaction_type: type,
+  withdrawal_amount: type === 'withdrawal' ? amount : null,
+  deposit_amount: type === 'deposit' ? amount : null,
+  balance,
+  date: '1404/02/08',
+  time,
+});
+
+describe('Balance reconciliation', () => {
+  it('accepts a continuous balance history', () => {
+    const rows = [row(1, 'deposit', 1000, 5000, '10:00:00'), row(2, 'withdrawal', 500, 4500, '11:00:00'), row(3, 'deposit', 100, 4600, '12:00:00')];
+    expect(findBalanceGaps(rows)).toEqual([]);
+  });
+
+  it('reports the amount of a missing withdrawal', () => {
+    const rows = [row(1, 'deposit', 1000, 5000, '10:00:00'), row(2, 'withdrawal', 500, 3500, '11:00:00')];
+    expect(findBalanceGaps(rows)).toEqual([
+      expect.objectContaining({ id: 2, previousId: 1, expectedBalance: 4500, actualBalance: 3500, missingAmount: -1000 }),
+    ]);
+  });
+
+  it('flags rows in D1 and clears them once the missing SMS arrives', async () => {
+    await applyMigrations(env.DB);
+    const insert = (type: string, amount: number, balance: number, time: string) =>
+      env.DB.prepare(`
+        INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+          transaction_method, balance, date, time, location, tag, timestamp, occurred_at)
+        VALUES (1, 'Unknown', '1111', ?, ?, ?, 'Unknown', ?, '1404/02/08', ?, 'Unknown', '', 0, ?)
+      `).bind(type, type === 'withdrawal' ? amount : null, type === 'deposit' ? amount : null, balance, time,
+        jalaliDateTimeToEpoch('1404/02/08', time)).run();
+
+    await insert('deposit', 1000, 5000, '10:00:00');
+    await insert('withdrawal', 500, 3500, '12:00:00');
+
+    const gaps = await reconcileAccount(env.DB, 1, '1111');
+    expect(gaps).toHaveLength(1);
+    const flagged = await env.DB.prepare(`SELECT balance_gap FROM transactions WHERE time = '12:00:00'`).first<{ balance_gap: number }>();
+    expect(flagged?.balance_gap).toBe(-1000);
+
+    await insert('withdrawal', 1000, 4000, '11:00:00');
+    expect(await reconcileAccount(env.DB, 1, '1111')).toEqual([]);
+    const cleared = await env.DB.prepare(`SELECT COUNT(*) as count FROM transactions WHERE balance_gap IS NOT NULL`).first<{ count: number }>();
+    expect(cleared?.count).toBe(0);
+  });
+});
@@ -0,0 +1,136 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { jalaliDateTimeToEpoch, parseJalaliDate } from '../src/jalali';
+import {
+  checkMissingRecurring,
+  checkRecurringArrival,
+  claimDailyCheck,
+  detectRecurring,
+  findMissing,
+  findRecurringSeries,
+  formatRecurring,
+  formatRecurringAlert,
+  listChatsDueForCheck,
+  RecurringRow,
+} from '../src/recurring';
+
+const SALARY_ACCOUNT = '0177018376691';
+
+let nextId = 1;
+const row = (date: string, type: 'withdrawal' | 'deposit', amount: number, location: string | null, tag: string | null, account = SALARY_ACCOUNT): RecurringRow => ({
+  id: nextId++,
+  account_number: account,
+  transaction_type: type,
+  withdrawal_amount: type === 'withdrawal' ? amount : null,
+  deposit_amount: type === 'deposit' ? amount : null,
+  date,
+  location,
+  tag,
+});
+
+// The "واریز حقوق" deposit of the parser fixture, paid on the 2nd of every month
+const salary = (date: string, amount = 148_792_250) => row(date, 'deposit', amount, 'Hooghoogh', 'hooghoogh');
+
+async function insert(tx: RecurringRow): Promise<number> {
+  const result = await env.DB.prepare(`
+    INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+      transaction_method, balance, date, time, location, tag, timestamp, occurred_at)
+    VALUES (1, 'Unknown', ?, ?, ?, ?, 'Unknown', 0, ?, '11:58:00', ?, ?, 0, ?)
+  `).bind(tx.account_number, tx.transaction_type, tx.withdrawal_amount, tx.deposit_amount, tx.date, tx.location, tx.tag,
+    jalaliDateTimeToEpoch(tx.date, '11:58:00')).run();
+  return result.meta.last_row_id;
+}
+
+describe('Recurring transactions', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('finds a monthly salary with slightly different amounts and predicts the next one', () => {
+    const rows = [
+      salary('1403/11/02', 140_000_000),
+      row('1403/11/15', 'withdrawal', 2_000_000, 'Snapp', 'transport'),
+      salary('1403/12/03', 145_500_000),
+      salary('1404/01/02'),
+      row('1404/01/20', 'withdrawal', 9_000_000, 'Snapp', 'transport'),
+      salary('1404/02/02'),
+    ];
+    expect(findRecurringSeries(rows, parseJalaliDate('1404/02/10')!)).toEqual([
+      {
+        key: `${SALARY_ACCOUNT}|deposit|@Hooghoogh`,
+        accountNumber: SALARY_ACCOUNT,
+        transactionType: 'deposit',
+        location: 'Hooghoogh',
+        tag: 'hooghoogh',
+        frequency: 'monthly',
+        count: 4,
+        amount: 148_792_250,
+        lastDate: '1404/02/02',
+        nextDate: '1404/03/02',
+      },
+    ]);
+  });
+
+  it('finds weekly payments by amount and drops irregular or stopped series', () => {
+    const weekly = ['1404/02/01', '1404/02/08', '1404/02/15'].map(date => row(date, 'withdrawal', 500_000, 'Unknown', null));
+    const irregular = ['1404/01/01', '1404/01/04', '1404/02/20'].map(date => row(date, 'withdrawal', 70_000, 'Cafe', 'food'));
+    const stopped = ['1403/06/10', '1403/07/10', '1403/08/10'].map(date => row(date, 'withdrawal', 1_000_000, 'Netflix', null));
+
+    const series = findRecurringSeries([...stopped, ...irregular, ...weekly], parseJalaliDate('1404/02/16')!);
+    expect(series.map(s => [s.key, s.frequency, s.nextDate])).toEqual([
+      [`${SALARY_ACCOUNT}|withdrawal|=500000`, 'weekly', '1404/02/22'],
+    ]);
+    // One day of grace for weekly payments
+    expect(findMissing(series, parseJalaliDate('1404/02/23')!)).toHaveLength(0);
+    expect(findMissing(series, parseJalaliDate('1404/02/24')!)).toHaveLength(1);
+    expect(formatRecurring(series)).toContain('بعدی: 1404/02/22');
+  });
+
+  it('alerts once when an expected salary is overdue', async () => {
+    for (const date of ['1404/01/02', '1404/02/02', '1404/03/02']) {
+      await insert(salary(date));
+    }
+    const onTime = jalaliDateTimeToEpoch('1404/04/04', '09:00');
+    expect(await checkMissingRecurring(env.DB, 1, onTime)).toEqual([]);
+
+    const late = jalaliDateTimeToEpoch('1404/04/06', '09:00');
+    const [alert] = await checkMissingRecurring(env.DB, 1, late);
+    expect(alert).toMatchObject({ kind: 'missing', series: { nextDate: '1404/04/02' } });
+    expect(formatRecurringAlert(alert)).toContain('1404/04/02');
+    expect(await checkMissingRecurring(env.DB, 1, late + 24 * 60 * 60 * 1000)).toEqual([]);
+  });
+
+  it('checks each chat once a day, on the first run from 09:00', async () => {
+    await insert(salary('1404/01/02'));
+    const morning = jalaliDateTimeToEpoch('1404/04/06', '09:07');
+    expect(await listChatsDueForCheck(env.DB, morning)).toEqual([1]);
+    expect(await claimDailyCheck(env.DB, 1, morning)).toBe(true);
+    expect(await claimDailyCheck(env.DB, 1, morning + 60 * 1000)).toBe(false);
+    expect(await listChatsDueForCheck(env.DB, morning + 60 * 1000)).toEqual([]);
+
+    const nextDay = morning + 24 * 60 * 60 * 1000;
+    expect(await listChatsDueForCheck(env.DB, nextDay)).toEqual([1]);
+    expect(await claimDailyCheck(env.DB, 1, nextDay)).toBe(true);
+  });
+
+  it('alerts when a recurring transaction arrives with a different amount', async () => {
+    for (const date of ['1404/01/05', '1404/02/05', '1404/03/05']) {
+      await insert(row(date, 'withdrawal', 3_000_000, 'Netflix', 'subscriptions'));
+    }
+    const now = jalaliDateTimeToEpoch('1404/04/05', '12:00');
+    expect((await detectRecurring(env.DB, 1, now)).map(s => s.nextDate)).toEqual(['1404/04/05']);
+
+    const same = row('1404/04/05', 'withdrawal', 3_050_000, 'Netflix', 'subscriptions');
+    same.id = await insert(same);
+    expect(await checkRecurringArrival(env.DB, 1, same, now)).toBeNull();
+    await env.DB.prepare(`DELETE FROM transactions WHERE id = ?`).bind(same.id).run();
+
+    const raised = row('1404/04/06', 'withdrawal', 3_600_000, 'Netflix', 'subscriptions');
+    raised.id = await insert(raised);
+    const alert = await checkRecurringArrival(env.DB, 1, raised, now);
+    expect(alert).toMatchObject({ kind: 'changed', actualAmount: 3_600_000, series: { amount: 3_000_000 } });
+    expect(formatRecurringAlert(alert!)).toContain('+۲۰٪');
+    expect(await checkRecurringArrival(env.DB, 1, raised, now)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { buildTransactionReport } from '../src/report';
+import {
+  createReportView,
+  encodeReportCallback,
+  getReportView,
+  parseReportCallback,
+  renderReportPage,
+  REPORT_VIEW_TTL_MS,
+} from '../src/reportview';
+import { createTransaction } from '../src/transactions';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import { TransactionData } from '../src/parser';
+import { MAX_CALLBACK_DATA_BYTES } from '../src/telegram';
+import { toPlainText } from '../src/message';
+
+function tx(index: number, overrides: Partial<TransactionData> = {}): TransactionData {
+  const date = '1404/02/02';
+  const time = `${String(8 + Math.floor(index / 60)).padStart(2, '0')}:${String(index % 60).padStart(2, '0')}:00`;
+  return {
+    bank_name: 'Tejarat',
+    account_number: '1111',
+    transaction_type: 'withdrawal',
+    withdrawal_amount: 1000 + index,
+    deposit_amount: null,
+    transaction_method: 'POS',
+    branch_code: null,
+    balance: 100000 - index,
+    date,
+    time,
+    location: `Shop ${index % 12}`,
+    tag: index % 2 ? 'food' : '',
+    timestamp: 0,
+    occurred_at: jalaliDateTimeToEpoch(date, time),
+    ...overrides,
+  };
+}
+
+// What Telegram shows once it has parsed the page's HTML
+function shown(page: ReturnType<typeof renderReportPage>): string {
+  return toPlainText(page.text.value);
+}
+
+function callbacks(page: ReturnType<typeof renderReportPage>): string[] {
+  return (page.keyboard?.inline_keyboard || []).flat().map(button => button.callback_data!);
+}
+
+describe('Interactive report', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('stores the filters behind a report message per chat and expires old views', async () => {
+    const old = await createReportView(env.DB, 1, { from: '1404/01/01', period: 'x' }, null, 1000);
+    const id = await createReportView(env.DB, 1, { tag: 'food' }, '🗓 title', 1000 + REPORT_VIEW_TTL_MS + 1);
+    expect(await getReportView(env.DB, 1, id)).toMatchObject({ filters: { tag: 'food' }, title: '🗓 title' });
+    expect(await getReportView(env.DB, 2, id)).toBeNull();
+    expect(await getReportView(env.DB, 1, old)).toBeNull();
+  });
+
+  it('round-trips callback data within Telegram limits', () => {
+    const data = encodeReportCallback(123456789, { screen: 'l', index: 250, page: 99 });
+    expect(new TextEncoder().encode(data).length).toBeLessThanOrEqual(MAX_CALLBACK_DATA_BYTES);
+    expect(parseReportCallback(data)).toEqual({ viewId: 123456789, page: { screen: 'l', index: 250, page: 99 } });
+    expect(parseReportCallback('tg:1:food')).toBeNull();
+  });
+
+  it('browses from the summary to a location and through its pages', async () => {
+    for (let i = 0; i < 30; i++) {
+      await createTransaction(env.DB, 1, tx(i));
+    }
+    const report = await buildTransactionReport(env.DB, 1);
+
+    const summary = renderReportPage(report, 7, undefined, '📅 خلاصه روزانه');
+    expect(shown(summary).startsWith('📅 خلاصه روزانه\n\n📊 گزارش جامع تراکنش‌ها')).toBe(true);
+    expect(shown(summary)).toContain('🔢 تعداد تراکنش‌ها: ۳۰');
+    expect(callbacks(summary)).toEqual(['rp:7:L:0:0', 'rp:7:T:0:0', 'rp:7:x:0:0']);
+
+    // 12 locations, 8 per page
+    const locations = renderReportPage(report, 7, parseReportCallback('rp:7:L:0:0')!.page);
+    expect(shown(locations)).toContain('صفحه ۱ از ۲');
+    expect(callbacks(locations)).toContain('rp:7:l:7:0');
+    expect(callbacks(locations)).toContain('rp:7:L:0:1');
+    expect(callbacks(locations)).not.toContain('rp:7:L:0:-1');
+
+    const secondPage = renderReportPage(report, 7, { screen: 'L', index: 0, page: 1 });
+    expect(callbacks(secondPage)).toEqual(['rp:7:l:8:0', 'rp:7:l:9:0', 'rp:7:l:10:0', 'rp:7:l:11:0', 'rp:7:L:0:0', 'rp:7:s:0:0']);
+
+    const location = renderReportPage(report, 7, { screen: 'l', index: 9, page: 0 });
+    expect(shown(location)).toMatch(/^🏬 Shop \d+/);
+    expect(callbacks(location)).toContain('rp:7:L:0:1');
+  });
+
+  it('pages through every transaction without dropping any', async () => {
+    for (let i = 0; i < 25; i++) {
+      await createTransaction(env.DB, 1, tx(i));
+    }
+    const report = await buildTransactionReport(env.DB, 1);
+    const seen: string[] = [];
+    for (let page = 0; page < 3; page++) {
+      const rendered = renderReportPage(report, 1, { screen: 'x', index: 0, page });
+      seen.push(...shown(rendered).split('\n').filter(line => line.startsWith('📤')));
+    }
+    expect(new Set(seen).size).toBe(25);
+
+    const last = renderReportPage(report, 1, { screen: 'x', index: 0, page: 5 });
+    expect(shown(last)).toContain('صفحه ۳ از ۳');
+    expect(callbacks(last)).toEqual(['rp:1:x:0:1', 'rp:1:s:0:0']);
+  });
+
+  it('renders pages as HTML with user text escaped', async () => {
+    await createTransaction(env.DB, 1, tx(1, { location: '<i>Shop</i> & Co' }));
+    const report = await buildTransactionReport(env.DB, 1);
+    const summary = renderReportPage(report, 1, undefined, '<title>');
+    expect(summary.text.value).toContain('&lt;title&gt;');
+    expect(summary.text.value).toContain('<b>📊 گزارش جامع تراکنش‌ها</b>');
+
+    const location = renderReportPage(report, 1, { screen: 'l', index: 0, page: 0 });
+    expect(location.text.value).toContain('&lt;i&gt;Shop&lt;/i&gt; &amp; Co');
+    expect(shown(location)).toContain('<i>Shop</i> & Co');
+  });
+
+  it('falls back when a drilled-down tag no longer exists', async () => {
+    await createTransaction(env.DB, 1, tx(1));
+    const report = await buildTransactionReport(env.DB, 1);
+    const tags = renderReportPage(report, 1, { screen: 't', index: 5, page: 0 });
+    expect(shown(tags)).toContain('📑 تفکیک بر اساس تگ');
+
+    const empty = renderReportPage(await buildTransactionReport(env.DB, 2), 1);
+    expect(empty.keyboard).toBeNull();
+    expect(shown(empty)).toContain('⚠️ هیچ تراکنشی یافت نشد.');
+  });
+});
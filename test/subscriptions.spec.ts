@@ -0,0 +1,72 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import {
+  claimPeriod,
+  duePeriod,
+  listSubscriptions,
+  parseSubscribeParams,
+  subscribe,
+  SubscriptionError,
+  unsubscribe,
+} from '../src/subscriptions';
+
+describe('Scheduled summaries', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('parses subscribe parameters', () => {
+    expect(parseSubscribeParams('daily 9:30')).toEqual({ frequency: 'daily', sendTime: '09:30' });
+    expect(parseSubscribeParams('Weekly')).toEqual({ frequency: 'weekly', sendTime: '21:00' });
+    expect(parseSubscribeParams('monthly ۲۲:۱۵')).toEqual({ frequency: 'monthly', sendTime: '22:15' });
+    expect(() => parseSubscribeParams('hourly')).toThrow(SubscriptionError);
+    expect(() => parseSubscribeParams('daily 25:00')).toThrow(SubscriptionError);
+  });
+
+  it('picks the latest due day, Saturday–Friday week and Jalali month in Tehran time', () => {
+    // 1404/02/15 is a Monday
+    const beforeTime = jalaliDateTimeToEpoch('1404/02/15', '20:59:00');
+    const afterTime = jalaliDateTimeToEpoch('1404/02/15', '21:00:00');
+    expect(duePeriod('daily', '21:00', beforeTime).key).toBe('1404/02/14');
+    expect(duePeriod('daily', '21:00', afterTime)).toEqual({
+      key: '1404/02/15',
+      from: '1404/02/15',
+      to: '1404/02/15',
+      label: 'روز 1404/02/15',
+    });
+
+    expect(duePeriod('weekly', '21:00', afterTime)).toMatchObject({ from: '1404/02/06', to: '1404/02/12' });
+    const friday = jalaliDateTimeToEpoch('1404/02/19', '21:00:00');
+    expect(duePeriod('weekly', '21:00', friday)).toMatchObject({ from: '1404/02/13', to: '1404/02/19' });
+
+    expect(duePeriod('monthly', '21:00', afterTime)).toMatchObject({ key: '1404/01', from: '1404/01/01', to: '1404/01/31' });
+    expect(duePeriod('monthly', '21:00', jalaliDateTimeToEpoch('1404/02/31', '21:30:00')).key).toBe('1404/02');
+    expect(duePeriod('monthly', '21:00', jalaliDateTimeToEpoch('1404/01/10', '08:00:00'))).toMatchObject({
+      key: '1403/12',
+      to: '1403/12/30',
+    });
+  });
+
+  it('starts with the next period and claims each period once', async () => {
+    const subscribedAt = jalaliDateTimeToEpoch('1404/02/15', '22:00:00');
+    await subscribe(env.DB, 1, 'daily', '21:00', subscribedAt);
+    let [subscription] = await listSubscriptions(env.DB, 1);
+    expect(subscription.last_period).toBe('1404/02/15');
+
+    const next = duePeriod('daily', '21:00', jalaliDateTimeToEpoch('1404/02/16', '21:05:00'));
+    expect(await claimPeriod(env.DB, subscription, next.key)).toBe(true);
+    expect(await claimPeriod(env.DB, subscription, next.key)).toBe(false);
+
+    // Moving the time later on the same day must not resend a period that was already sent
+    await subscribe(env.DB, 1, 'daily', '23:00', jalaliDateTimeToEpoch('1404/02/16', '22:00:00'));
+    [subscription] = await listSubscriptions(env.DB, 1);
+    expect(subscription).toMatchObject({ send_time: '23:00', last_period: '1404/02/16' });
+
+    await subscribe(env.DB, 2, 'weekly', '21:00', subscribedAt);
+    expect(await listSubscriptions(env.DB)).toHaveLength(2);
+    expect(await unsubscribe(env.DB, 1)).toBe(1);
+    expect(await listSubscriptions(env.DB, 1)).toEqual([]);
+  });
+});
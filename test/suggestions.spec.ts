@@ -0,0 +1,97 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { TransactionData } from '../src/parser';
+import { addTagRule, deleteTagRule, listTagRules, parseRuleParams, suggestFromHistory, suggestTag, HistoryRow } from '../src/suggestions';
+import { updateTransaction } from '../src/transactions';
+
+function transaction(overrides: Partial<TransactionData> = {}): TransactionData {
+  return {
+    bank_name: 'بانک تجارت',
+    account_number: '1111',
+    transaction_type: 'withdrawal',
+    withdrawal_amount: 1_200_000,
+    deposit_amount: null,
+    transaction_method: 'پایانه فروش',
+    branch_code: null,
+    balance: 5_000_000,
+    date: '1404/02/08',
+    time: '10:00:00',
+    location: 'Snapp',
+    tag: '',
+    timestamp: 0,
+    occurred_at: 0,
+    ...overrides,
+  };
+}
+
+function history(tag: string, location: string, amount: number, method = 'پایانه فروش'): HistoryRow {
+  return { tag, location, transaction_type: 'withdrawal', transaction_method: method, withdrawal_amount: amount, deposit_amount: null };
+}
+
+describe('Tag suggestions', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('parses rule parameters', () => {
+    expect(parseRuleParams('location=Snapp Food tag=#food')).toEqual({ field: 'location', pattern: 'Snapp Food', tag: 'food' });
+    expect(parseRuleParams('method=اینترنتی tag=bills')).toEqual({ field: 'method', pattern: 'اینترنتی', tag: 'bills' });
+    expect(parseRuleParams('tag=food')).toBeNull();
+  });
+
+  it('prefers the tag used for the same merchant', () => {
+    const suggestion = suggestFromHistory(transaction(), [
+      history('transport', 'Snapp', 900_000),
+      history('transport', 'snapp', 1_100_000),
+      history('food', 'Cafe Lamiz', 1_200_000),
+    ]);
+    expect(suggestion).toMatchObject({ tag: 'transport', source: 'suggested', location: null });
+    expect(suggestion!.confidence).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('falls back to amount and method when the message has no location', () => {
+    const suggestion = suggestFromHistory(transaction({ location: 'Unknown', withdrawal_amount: 2_990_000 }), [
+      history('subscriptions', 'Netflix', 2_990_000),
+      history('food', 'Cafe Lamiz', 450_000),
+    ]);
+    expect(suggestion).toMatchObject({ tag: 'subscriptions', location: 'Netflix' });
+  });
+
+  it('returns nothing without similar history', () => {
+    expect(suggestFromHistory(transaction(), [history('food', 'Cafe Lamiz', 90_000, 'اینترنتی')])).toBeNull();
+    expect(suggestFromHistory(transaction(), [])).toBeNull();
+  });
+
+  it('applies user rules before history', async () => {
+    const id = await addTagRule(env.DB, 1, 'location', 'snapp', 'taxi');
+    expect(await suggestTag(env.DB, 1, transaction())).toMatchObject({ tag: 'taxi', source: 'rule', confidence: 1 });
+    expect(await suggestTag(env.DB, 2, transaction())).toBeNull();
+
+    expect(await deleteTagRule(env.DB, 2, id)).toBe(false);
+    expect(await deleteTagRule(env.DB, 1, id)).toBe(true);
+    expect(await listTagRules(env.DB, 1)).toEqual([]);
+  });
+
+  it('learns from tagged transactions of the same account', async () => {
+    await env.DB.prepare(`
+      INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+        transaction_method, branch_code, balance, date, time, location, tag, timestamp, occurred_at, tag_source)
+      VALUES (1, 'بانک تجارت', '1111', 'withdrawal', 1000000, NULL, 'پایانه فروش', NULL, 5000, '1404/02/01', '10:00:00', 'Snapp', 'transport', 0, 0, 'user')
+    `).run();
+
+    expect(await suggestTag(env.DB, 1, transaction())).toMatchObject({ tag: 'transport', source: 'suggested' });
+    expect(await suggestTag(env.DB, 1, transaction({ account_number: '2222' }))).toBeNull();
+  });
+
+  it('marks a confirmed or overridden tag as set by the user', async () => {
+    const result = await env.DB.prepare(`
+      INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+        transaction_method, branch_code, balance, date, time, location, tag, timestamp, occurred_at, tag_source, tag_confidence)
+      VALUES (1, 'Unknown', '1111', 'withdrawal', 1000, NULL, 'Unknown', NULL, 5000, '1404/02/08', '10:00:00', 'Snapp', 'transport', 0, 0, 'suggested', 0.8)
+    `).run();
+
+    const updated = await updateTransaction(env.DB, 1, result.meta.last_row_id, { tag: 'transport' });
+    expect(updated).toMatchObject({ tag: 'transport', tag_source: 'user', tag_confidence: null });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { buildTaggingKeyboard, encodeTagCallback, mostUsed, parseTagCallback, removeFieldButtons } from '../src/tagging';
+
+describe('Tagging keyboard', () => {
+  it('round-trips callback data', () => {
+    const data = encodeTagCallback('tag', 42, 'خوراک');
+    expect(parseTagCallback(data!)).toEqual({ action: 'tag', transactionId: 42, value: 'خوراک' });
+    expect(parseTagCallback('something else')).toBeNull();
+  });
+
+  it('refuses values that do not fit in 64 bytes of callback data', () => {
+    expect(encodeTagCallback('location', 42, 'ف'.repeat(40))).toBeNull();
+  });
+
+  it('picks the most used keys and skips placeholders', () => {
+    const byTag = {
+      'No Tag': { count: 50 },
+      food: { count: 10 },
+      transport: { count: 20 },
+      home: { count: 1 },
+    };
+    expect(mostUsed(byTag, 2)).toEqual(['transport', 'food']);
+  });
+
+  it('builds rows for tags and locations and removes them once chosen', () => {
+    const keyboard = buildTaggingKeyboard(7, { tags: ['food', 'transport'], locations: ['Cafe'] });
+    expect(keyboard?.inline_keyboard).toEqual([
+      [{ text: '#food', callback_data: 'tg:7:food' }, { text: '#transport', callback_data: 'tg:7:transport' }],
+      [{ text: '📍 Cafe', callback_data: 'lc:7:Cafe' }],
+      [{ text: '❌ بعداً', callback_data: 'sk:7:' }],
+    ]);
+
+    const withoutTags = removeFieldButtons(keyboard!, 'tag');
+    expect(withoutTags?.inline_keyboard).toHaveLength(2);
+    expect(removeFieldButtons(withoutTags!, 'location')).toBeNull();
+  });
+
+  it('returns no keyboard when there is nothing to suggest', () => {
+    expect(buildTaggingKeyboard(7, { tags: [], locations: [] })).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import {
+  createTransaction,
+  deleteTransaction,
+  duplicateKey,
+  findDuplicateTransactions,
+  getLastTransaction,
+  parseEditParams,
+  updateTransaction,
+} from '../src/transactions';
+import { TransactionData } from '../src/parser';
+
+async function insertTransaction(chatId: number): Promise<number> {
+  const result = await env.DB.prepare(`
+    INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+      transaction_method, branch_code, balance, date, time, location, tag, timestamp, occurred_at)
+    VALUES (?, 'Unknown', '1111', 'withdrawal', 1000, NULL, 'Unknown', NULL, 5000, '1404/02/08', '10:00:00', 'Unknown', '', 0, 0)
+  `).bind(chatId).run();
+  return result.meta.last_row_id;
+}
+
+describe('Transaction editing', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('parses editable fields and ignores unknown ones', () => {
+    expect(parseEditParams('tag=#food location=Cafe Lamiz amount=5')).toEqual({ tag: 'food', location: 'Cafe Lamiz' });
+    expect(parseEditParams('nothing here')).toEqual({});
+  });
+
+  it('saves a new transaction together with its create audit row', async () => {
+    const data: TransactionData = {
+      bank_name: 'Unknown',
+      account_number: '1111',
+      transaction_type: 'deposit',
+      withdrawal_amount: null,
+      deposit_amount: 2000,
+      transaction_method: 'Unknown',
+      branch_code: null,
+      balance: 7000,
+      date: '1404/02/08',
+      time: '10:00:00',
+      location: 'Unknown',
+      tag: 'salary',
+      timestamp: 0,
+      occurred_at: 0,
+    };
+    const id = await createTransaction(env.DB, 1, data);
+
+    const audit = await env.DB.prepare(`SELECT action, chat_id, before_json, after_json FROM transaction_audit WHERE transaction_id = ?`)
+      .bind(id)
+      .first<{ action: string; chat_id: number; before_json: string | null; after_json: string }>();
+    expect(audit).toMatchObject({ action: 'create', chat_id: 1, before_json: null });
+    expect(JSON.parse(audit!.after_json)).toMatchObject({ ...data, id, chat_id: 1, tag_source: 'user' });
+  });
+
+  it('updates tag and location and writes an audit row', async () => {
+    const id = await insertTransaction(1);
+    const updated = await updateTransaction(env.DB, 1, id, { tag: 'food', location: 'Cafe' });
+    expect(updated).toMatchObject({ id, tag: 'food', location: 'Cafe' });
+
+    const audit = await env.DB.prepare(`SELECT action, before_json, after_json FROM transaction_audit WHERE transaction_id = ?`)
+      .bind(id)
+      .first<{ action: string; before_json: string; after_json: string }>();
+    expect(audit?.action).toBe('update');
+    expect(JSON.parse(audit!.before_json).tag).toBe('');
+    expect(JSON.parse(audit!.after_json).tag).toBe('food');
+  });
+
+  it('finds which of several rows the chat already has in one lookup', async () => {
+    await insertTransaction(1);
+    const base: TransactionData = {
+      bank_name: 'Unknown',
+      account_number: '1111',
+      transaction_type: 'withdrawal',
+      withdrawal_amount: 1000,
+      deposit_amount: null,
+      transaction_method: 'Unknown',
+      branch_code: null,
+      balance: 5000,
+      date: '1404/02/08',
+      time: '10:00:00',
+      location: 'Unknown',
+      tag: '',
+      timestamp: 0,
+      occurred_at: 0,
+    };
+    const otherAmount = { ...base, withdrawal_amount: 2000 };
+    const found = await findDuplicateTransactions(env.DB, 1, [base, otherAmount, { ...base, occurred_at: 60_000 }]);
+    expect([...found]).toEqual([duplicateKey(base)]);
+    expect((await findDuplicateTransactions(env.DB, 2, [base])).size).toBe(0);
+  });
+
+  it('only touches transactions of the same chat', async () => {
+    const id = await insertTransaction(1);
+    expect(await updateTransaction(env.DB, 2, id, { tag: 'food' })).toBeNull();
+    expect(await deleteTransaction(env.DB, 2, id)).toBeNull();
+  });
+
+  it('deletes transactions and keeps their last state in the audit table', async () => {
+    await insertTransaction(1);
+    const lastId = await insertTransaction(1);
+    const last = await getLastTransaction(env.DB, 1);
+    expect(last?.id).toBe(lastId);
+
+    await deleteTransaction(env.DB, 1, lastId);
+    expect((await getLastTransaction(env.DB, 1))?.id).not.toBe(lastId);
+
+    const audit = await env.DB.prepare(`SELECT action, before_json FROM transaction_audit WHERE transaction_id = ?`)
+      .bind(lastId)
+      .first<{ action: string; before_json: string }>();
+    expect(audit?.action).toBe('delete');
+    expect(JSON.parse(audit!.before_json).id).toBe(lastId);
+  });
+});
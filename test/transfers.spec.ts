@@ -0,0 +1,134 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { applyMigrations } from '../src/migrations';
+import { jalaliDateTimeToEpoch } from '../src/jalali';
+import { monthlySpending } from '../src/budgets';
+import { buildTransactionReport } from '../src/report';
+import { deleteTransaction, getTransaction } from '../src/transactions';
+import {
+  detectTransfers,
+  findCounterpart,
+  findTransferPairs,
+  linkTransfer,
+  TransferError,
+  TransferRow,
+  TRANSFER_WINDOW_MS,
+  unlinkTransfer,
+} from '../src/transfers';
+
+const MINUTE = 60 * 1000;
+
+const row = (id: number, account: string, type: 'withdrawal' | 'deposit', amount: number, minute: number): TransferRow => ({
+  id,
+  account_number: account,
+  transaction_type: type,
+  withdrawal_amount: type === 'withdrawal' ? amount : null,
+  deposit_amount: type === 'deposit' ? amount : null,
+  occurred_at: minute * MINUTE,
+});
+
+async function insert(account: string, type: 'withdrawal' | 'deposit', amount: number, time: string, tag = 'misc'): Promise<number> {
+  const result = await env.DB.prepare(`
+    INSERT INTO transactions (chat_id, bank_name, account_number, transaction_type, withdrawal_amount, deposit_amount,
+      transaction_method, balance, date, time, location, tag, timestamp, occurred_at)
+    VALUES (1, 'Unknown', ?, ?, ?, ?, 'Unknown', 0, '1404/02/08', ?, 'Unknown', ?, 0, ?)
+  `).bind(account, type, type === 'withdrawal' ? amount : null, type === 'deposit' ? amount : null, time, tag,
+    jalaliDateTimeToEpoch('1404/02/08', time)).run();
+  return result.meta.last_row_id;
+}
+
+describe('Transfers between own accounts', () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it('pairs each withdrawal with the closest matching deposit into another account', () => {
+    const rows = [
+      row(1, 'A', 'withdrawal', 500, 0),
+      row(2, 'A', 'deposit', 500, 1),
+      row(3, 'B', 'deposit', 500, 20),
+      row(4, 'B', 'deposit', 500, 2),
+      row(5, 'A', 'withdrawal', 500, 10),
+      row(6, 'C', 'deposit', 700, 10),
+    ];
+    expect(findTransferPairs(rows)).toEqual([
+      { withdrawalId: 1, depositId: 4, amount: 500 },
+      { withdrawalId: 5, depositId: 3, amount: 500 },
+    ]);
+    expect(findTransferPairs([row(1, 'A', 'withdrawal', 500, 0), row(2, 'B', 'deposit', 500, 31)])).toEqual([]);
+    expect(findTransferPairs(rows, TRANSFER_WINDOW_MS, new Set(['1:4']))).toEqual([
+      { withdrawalId: 1, depositId: 3, amount: 500 },
+      { withdrawalId: 5, depositId: 4, amount: 500 },
+    ]);
+    expect(findCounterpart([{ withdrawalId: 1, depositId: 4, amount: 500 }], 4)).toBe(1);
+    expect(findCounterpart([], 4)).toBeNull();
+  });
+
+  it('links transfers in D1 and keeps them out of report totals and budgets', async () => {
+    const out = await insert('1111', 'withdrawal', 2_000_000, '10:00:00');
+    const into = await insert('2222', 'deposit', 2_000_000, '10:05:00');
+    await insert('1111', 'withdrawal', 300_000, '12:00:00', 'food');
+    await insert('2222', 'deposit', 300_000, '18:00:00');
+
+    expect(await detectTransfers(env.DB, 1, jalaliDateTimeToEpoch('1404/02/08', '10:05:00'))).toEqual([
+      { withdrawalId: out, depositId: into, amount: 2_000_000 },
+    ]);
+    expect((await getTransaction(env.DB, 1, out))!.transfer_id).toBe(into);
+    expect((await getTransaction(env.DB, 1, into))!.transfer_id).toBe(out);
+    // Already linked rows are not paired again
+    expect(await detectTransfers(env.DB, 1)).toEqual([]);
+
+    const report = await buildTransactionReport(env.DB, 1);
+    expect(report.transactionCount).toBe(4);
+    expect(report.totalWithdrawal).toBe(300_000);
+    expect(report.totalDeposit).toBe(300_000);
+    expect(report.transfers).toEqual({ count: 2, totalWithdrawal: 2_000_000, totalDeposit: 2_000_000 });
+    expect(report.byTag.misc).toEqual({ count: 1, totalWithdrawal: 0, totalDeposit: 300_000 });
+    expect(report.byAccount['1111'].totalWithdrawal).toBe(2_300_000);
+    expect(await monthlySpending(env.DB, 1, '1404/02')).toEqual({ food: 300_000 });
+  });
+
+  it('links and unlinks transfers by hand and unlinks a deleted leg', async () => {
+    const out = await insert('1111', 'withdrawal', 1000, '10:00:00');
+    const into = await insert('2222', 'deposit', 1000, '15:00:00');
+    const other = await insert('2222', 'deposit', 900, '15:00:00');
+    // Five hours apart, too far for detection
+    expect(await detectTransfers(env.DB, 1)).toEqual([]);
+
+    await expect(linkTransfer(env.DB, 1, out, other)).rejects.toThrow(TransferError);
+    await expect(linkTransfer(env.DB, 1, into, other)).rejects.toThrow(TransferError);
+    expect(await linkTransfer(env.DB, 1, into, out)).toEqual({ withdrawalId: out, depositId: into, amount: 1000 });
+    await expect(linkTransfer(env.DB, 1, out, into)).rejects.toThrow('انتقال');
+
+    expect(await unlinkTransfer(env.DB, 1, into)).toBe(out);
+    expect(await unlinkTransfer(env.DB, 1, into)).toBeNull();
+    expect((await getTransaction(env.DB, 1, out))!.transfer_id).toBeNull();
+
+    await linkTransfer(env.DB, 1, out, into);
+    await deleteTransaction(env.DB, 1, into);
+    expect((await getTransaction(env.DB, 1, out))!.transfer_id).toBeNull();
+  });
+
+  it('does not pair an unlinked transfer again', async () => {
+    const out = await insert('1111', 'withdrawal', 1000, '10:00:00');
+    const into = await insert('2222', 'deposit', 1000, '10:05:00');
+    await detectTransfers(env.DB, 1);
+    expect(await unlinkTransfer(env.DB, 1, out)).toBe(into);
+
+    // The next save nearby and a full scan after an import both leave the pair alone
+    await insert('3333', 'deposit', 50, '10:10:00');
+    expect(await detectTransfers(env.DB, 1, jalaliDateTimeToEpoch('1404/02/08', '10:10:00'))).toEqual([]);
+    expect(await detectTransfers(env.DB, 1)).toEqual([]);
+    expect((await getTransaction(env.DB, 1, out))!.transfer_id).toBeNull();
+
+    // Another deposit of the same amount can still be the real other leg
+    const real = await insert('3333', 'deposit', 1000, '10:20:00');
+    expect(await detectTransfers(env.DB, 1)).toEqual([{ withdrawalId: out, depositId: real, amount: 1000 }]);
+
+    // Linking by hand overrides the earlier unlink
+    await unlinkTransfer(env.DB, 1, real);
+    expect(await linkTransfer(env.DB, 1, out, into)).toEqual({ withdrawalId: out, depositId: into, amount: 1000 });
+    expect(await detectTransfers(env.DB, 1)).toEqual([]);
+    expect((await getTransaction(env.DB, 1, out))!.transfer_id).toBe(into);
+  });
+});